@@ -0,0 +1,34 @@
+import { getConfig, AccountConfig } from './config.js';
+import { displayMailbox } from './messageBuilder.js';
+
+/**
+ * Resolve an account by id, or the default account when no id is given
+ */
+export function getAccount(accountId?: string): AccountConfig {
+  const config = getConfig();
+  const id = accountId || config.defaultAccount;
+  const account = config.accounts.find((a) => a.id === id);
+
+  if (!account) {
+    throw new Error(`Unknown account "${id}". Available accounts: ${config.accounts.map((a) => a.id).join(', ')}`);
+  }
+
+  return account;
+}
+
+/**
+ * All configured accounts, default first
+ */
+export function listAccounts(): AccountConfig[] {
+  const config = getConfig();
+  return [...config.accounts].sort((a, b) =>
+    Number(b.id === config.defaultAccount) - Number(a.id === config.defaultAccount)
+  );
+}
+
+/**
+ * Format an account's default From address, e.g. "Support Team" <support@example.com>
+ */
+export function formatFromAddress(account: AccountConfig): string {
+  return displayMailbox({ name: account.displayName, address: account.email });
+}
@@ -6,114 +6,67 @@
  * 
  * Users provide their Gmail credentials in their Apify Actor settings,
  * then use Apify's MCP to send emails.
+ *
+ * Every action is a tool from the shared registry, so the Actor behaves
+ * exactly like the MCP servers.
  */
 
 import { Actor } from 'apify';
-import { google } from 'googleapis';
+import { AttachmentInput } from './attachments.js';
+import { ToolContext, ToolResult, runTool } from './tools/index.js';
+import { runCampaignUntilBlocked, countRecipients } from './campaigns.js';
 
 interface ActorInput {
-  // Action to perform
-  action: 'send_email' | 'verify_connection' | 'check_status';
+  // Action to perform: any tool name (e.g. send_email, verify_connection, check_status)
+  action?: string;
   
   // Email parameters (for send_email action)
   to?: string;
   subject?: string;
   body?: string;
+  html?: string;
   cc?: string;
   bcc?: string;
+  attachments?: AttachmentInput[];
+
+  // Retrying a run with the same key returns the first run's result instead of sending again
+  idempotencyKey?: string;
+
+  // Arguments for any other tool
+  arguments?: Record<string, unknown>;
   
   // Gmail credentials (stored in Actor settings, passed automatically)
   gmailClientId?: string;
   gmailClientSecret?: string;
   gmailRefreshToken?: string;
   gmailUserEmail?: string;
+  gmailDisplayName?: string;
+  gmailReplyTo?: string;
+  maxEmailsPerHour?: number;
+  maxEmailsPerDay?: number;
+  // Build and validate messages without sending (GMAIL_MCP_DRY_RUN)
+  dryRun?: boolean;
 }
 
-// Rate limiting
-let emailsSentThisHour = 0;
-let emailsSentToday = 0;
-const MAX_PER_HOUR = 20;
-const MAX_PER_DAY = 50;
+const actorContext: ToolContext = { transport: 'apify', allowLocalPaths: false };
 
-function canSendEmail(): { allowed: boolean; reason?: string } {
-  if (emailsSentThisHour >= MAX_PER_HOUR) {
-    return { allowed: false, reason: `Hourly limit reached (${MAX_PER_HOUR}/hour)` };
-  }
-  if (emailsSentToday >= MAX_PER_DAY) {
-    return { allowed: false, reason: `Daily limit reached (${MAX_PER_DAY}/day)` };
-  }
-  return { allowed: true };
-}
-
-async function sendEmail(
-  oauth2Client: any,
-  userEmail: string,
-  to: string,
-  subject: string,
-  body: string,
-  cc?: string,
-  bcc?: string
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  try {
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    
-    // Build email headers
-    const headers = [
-      `From: ${userEmail}`,
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      'MIME-Version: 1.0',
-      'Content-Type: text/plain; charset=utf-8',
-    ];
-    
-    if (cc) headers.push(`Cc: ${cc}`);
-    if (bcc) headers.push(`Bcc: ${bcc}`);
-    
-    const email = headers.join('\r\n') + '\r\n\r\n' + body;
-    
-    // Encode to base64url
-    const encodedEmail = Buffer.from(email)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-    
-    const response = await gmail.users.messages.send({
-      userId: 'me',
-      requestBody: {
-        raw: encodedEmail,
-      },
-    });
-    
-    emailsSentThisHour++;
-    emailsSentToday++;
-    
-    return {
-      success: true,
-      messageId: response.data.id || undefined,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to send email',
-    };
-  }
-}
+// Tools that need a long-running server: their state lives in the data
+// directory, which goes away when the run ends, and nothing would act on it later
+const SERVER_ONLY_TOOLS = new Set([
+  'schedule_email', 'list_scheduled', 'cancel_scheduled', 'reschedule',
+  'list_pending', 'approve_send', 'reject_send'
+]);
 
-async function verifyConnection(oauth2Client: any): Promise<{ connected: boolean; email?: string; error?: string }> {
-  try {
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    const profile = await gmail.users.getProfile({ userId: 'me' });
-    return {
-      connected: true,
-      email: profile.data.emailAddress || undefined,
-    };
-  } catch (error: any) {
-    return {
-      connected: false,
-      error: error.message || 'Failed to connect to Gmail',
-    };
+/**
+ * The running campaign a tool result refers to (a new campaign, or one shown
+ * by campaign_status or resume_campaign)
+ */
+function campaignToRun(result: ToolResult): string | undefined {
+  if (typeof result.campaign_id === 'string') {
+    return result.campaign_id;
   }
+  const campaign = result.campaign as { id?: string; status?: string } | undefined;
+  return campaign?.status === 'running' ? campaign.id : undefined;
 }
 
 // Main Actor logic
@@ -124,10 +77,33 @@ Actor.main(async () => {
     throw new Error('No input provided');
   }
   
-  const { action, to, subject, body, cc, bcc, gmailClientId, gmailClientSecret, gmailRefreshToken, gmailUserEmail } = input;
+  const {
+    action,
+    arguments: toolArguments,
+    idempotencyKey,
+    gmailClientId,
+    gmailClientSecret,
+    gmailRefreshToken,
+    gmailUserEmail,
+    gmailDisplayName,
+    gmailReplyTo,
+    maxEmailsPerHour,
+    maxEmailsPerDay,
+    dryRun,
+    ...emailFields
+  } = input;
   
   // Default action is send_email
   const actionToPerform = action || 'send_email';
+
+  if (SERVER_ONLY_TOOLS.has(actionToPerform)) {
+    await Actor.pushData({
+      action: actionToPerform,
+      success: false,
+      error: `${actionToPerform} needs a long-running server (stdio or HTTP) and is not available in the Actor.`
+    });
+    return;
+  }
   
   // Check credentials
   if (!gmailClientId || !gmailClientSecret || !gmailRefreshToken || !gmailUserEmail) {
@@ -136,74 +112,60 @@ Actor.main(async () => {
       error: 'Gmail credentials not configured. Please add your Gmail OAuth credentials in the Actor Input settings.',
       instructions: [
         '1. Go to Google Cloud Console and create OAuth credentials',
-        '2. Use OAuth Playground to get a refresh token',
+        '2. Run npm run auth in a checkout of this project to get a refresh token (see the README)',
         '3. Add credentials to this Actor\'s Input tab',
       ],
     });
     return;
   }
   
-  // Initialize OAuth2 client
-  const oauth2Client = new google.auth.OAuth2(
-    gmailClientId,
-    gmailClientSecret,
-    'https://developers.google.com/oauthplayground'
-  );
-  oauth2Client.setCredentials({ refresh_token: gmailRefreshToken });
+  // Expose input to getConfig() so the shared tools see the credentials and limits
+  process.env.GMAIL_CLIENT_ID = gmailClientId;
+  process.env.GMAIL_CLIENT_SECRET = gmailClientSecret;
+  process.env.GMAIL_REFRESH_TOKEN = gmailRefreshToken;
+  process.env.GMAIL_USER_EMAIL = gmailUserEmail;
+  if (gmailDisplayName) process.env.GMAIL_DISPLAY_NAME = gmailDisplayName;
+  if (gmailReplyTo) process.env.GMAIL_REPLY_TO = gmailReplyTo;
+  if (maxEmailsPerHour) process.env.MAX_EMAILS_PER_HOUR = String(maxEmailsPerHour);
+  if (maxEmailsPerDay) process.env.MAX_EMAILS_PER_DAY = String(maxEmailsPerDay);
+  if (dryRun) process.env.GMAIL_MCP_DRY_RUN = 'true';
   
-  // Perform action
-  if (actionToPerform === 'verify_connection') {
-    const result = await verifyConnection(oauth2Client);
-    await Actor.pushData(result);
-    console.log('Connection verification result:', result);
-    return;
-  }
-  
-  if (actionToPerform === 'check_status') {
-    await Actor.pushData({
-      success: true,
-      rateLimit: {
-        emailsSentThisHour,
-        emailsSentToday,
-        remainingThisHour: MAX_PER_HOUR - emailsSentThisHour,
-        remainingToday: MAX_PER_DAY - emailsSentToday,
-      },
-    });
-    return;
-  }
+  const result = await runTool(
+    actionToPerform,
+    { ...emailFields, ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}), ...toolArguments },
+    actorContext
+  );
   
+  const campaignId = campaignToRun(result);
   if (actionToPerform === 'send_email') {
-    // Validate email parameters
-    if (!to) {
-      await Actor.pushData({ success: false, error: 'Missing "to" field - recipient email address required' });
-      return;
-    }
-    if (!subject) {
-      await Actor.pushData({ success: false, error: 'Missing "subject" field - email subject required' });
-      return;
-    }
-    if (!body) {
-      await Actor.pushData({ success: false, error: 'Missing "body" field - email body required' });
-      return;
-    }
-    
-    // Check rate limit
-    const rateCheck = canSendEmail();
-    if (!rateCheck.allowed) {
-      await Actor.pushData({ success: false, error: rateCheck.reason });
-      return;
-    }
-    
-    // Send email
-    const result = await sendEmail(oauth2Client, gmailUserEmail, to, subject, body, cc, bcc);
-    
+    const results = (result.results as Array<{ messageId?: string }> | undefined) ?? [];
     await Actor.pushData({
       ...result,
-      recipient: to,
-      subject: subject,
+      to: emailFields.to,
+      subject: emailFields.subject,
+      messageId: results[0]?.messageId,
       sentAt: new Date().toISOString(),
     });
-    
-    console.log('Email send result:', result);
+  } else if (campaignId) {
+    // The run ends when this handler returns, so send in the foreground
+    // until the campaign finishes or hits a rate limit. Campaigns are kept in
+    // the key-value store: a later run of campaign_status or resume_campaign
+    // continues once the limit has reset.
+    const campaign = await runCampaignUntilBlocked(campaignId);
+    await Actor.pushData({
+      action: actionToPerform,
+      ...result,
+      campaign: {
+        id: campaign.id,
+        status: campaign.status,
+        counts: countRecipients(campaign),
+        waiting: campaign.waitingReason,
+        recipients: campaign.recipients.map((r) => ({ email: r.email, status: r.status, messageId: r.messageId, error: r.error }))
+      }
+    });
+  } else {
+    await Actor.pushData({ action: actionToPerform, ...result });
   }
+  
+  console.log(`${actionToPerform} result:`, result);
 });
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+
+/**
+ * API Key Generator
+ *
+ * Creates a new API key for the HTTP servers:
+ *   npm run api-key -- <label> [maxPerHour] [maxPerDay]
+ *
+ * Give the key to the client and add the printed entry to API_KEYS
+ * (comma-separate multiple entries). Only the hash is stored on the server.
+ */
+
+import { generateApiKey, hashApiKey } from './apiKeys.js';
+
+const [label, maxPerHour, maxPerDay] = process.argv.slice(2);
+
+if (!label || !/^[A-Za-z0-9_.-]+$/.test(label)) {
+  console.error('Usage: npm run api-key -- <label> [maxPerHour] [maxPerDay]');
+  console.error('The label may contain letters, digits, ".", "_" and "-".');
+  process.exit(1);
+}
+
+const key = generateApiKey();
+const entry = [label, hashApiKey(key), maxPerHour, maxPerDay].filter(Boolean).join(':');
+
+console.log('\n🔑 API key (give this to the client, it is not stored anywhere):\n');
+console.log(`   ${key}\n`);
+console.log('Add this entry to API_KEYS:\n');
+console.log(`   ${entry}\n`);
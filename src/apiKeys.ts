@@ -0,0 +1,155 @@
+import http from 'http';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getHttpConfig } from './config.js';
+import { isOAuthEnabled, verifyAccessToken, getResourceMetadataUrl } from './oauth.js';
+
+/**
+ * The caller identified by an API key or OAuth access token, carried in the tool context
+ */
+export interface ApiKeyIdentity {
+  /** Unique per caller: rate limits, ownership and the send log are keyed on it */
+  label: string;
+  /** Display name only (an OAuth client's self-chosen client_name, which isn't unique) */
+  name?: string;
+  maxPerHour?: number;
+  maxPerDay?: number;
+  /** OAuth scopes granted to the caller; undefined means unrestricted (static API keys) */
+  scopes?: string[];
+}
+
+export type AuthResult =
+  | { ok: true; apiKey?: ApiKeyIdentity }
+  | { ok: false; status: number; error: string; wwwAuthenticate?: string };
+
+/**
+ * SHA-256 hex digest of an API key, as stored in API_KEYS
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf-8').digest('hex');
+}
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+  return `gmcp_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Whether the HTTP servers require an API key or OAuth token
+ */
+export function isAuthEnabled(): boolean {
+  return getHttpConfig().apiKeys.length > 0 || isOAuthEnabled();
+}
+
+/**
+ * Find the configured key by label (e.g. to restore limits for a scheduled job)
+ */
+export function findApiKey(label: string): ApiKeyIdentity | undefined {
+  const key = getHttpConfig().apiKeys.find((k) => k.label === label);
+  return key ? { label: key.label, maxPerHour: key.maxPerHour, maxPerDay: key.maxPerDay } : undefined;
+}
+
+/**
+ * Read the key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+function extractApiKey(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match ? match[1].trim() : undefined;
+  }
+
+  const header = req.headers['x-api-key'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Check a request's bearer credential: a configured API key or an OAuth access
+ * token. When neither is configured every request is allowed (a warning is
+ * printed at startup).
+ */
+export function authenticateRequest(req: http.IncomingMessage): AuthResult {
+  const { apiKeys } = getHttpConfig();
+  const oauthEnabled = isOAuthEnabled();
+  if (apiKeys.length === 0 && !oauthEnabled) {
+    return { ok: true };
+  }
+
+  // Point MCP clients at the OAuth metadata so they can start the authorization flow
+  const wwwAuthenticate = oauthEnabled
+    ? `Bearer realm="gmail-mcp-server", resource_metadata="${getResourceMetadataUrl(req)}"`
+    : 'Bearer realm="gmail-mcp-server"';
+
+  const presented = extractApiKey(req);
+  if (!presented) {
+    return { ok: false, status: 401, error: 'Missing credentials. Send "Authorization: Bearer <API key or access token>".', wwwAuthenticate };
+  }
+
+  const digest = Buffer.from(hashApiKey(presented), 'hex');
+  // Compare against every key so timing doesn't reveal which one matched
+  let match: (typeof apiKeys)[number] | undefined;
+  for (const key of apiKeys) {
+    if (timingSafeEqual(digest, Buffer.from(key.hash, 'hex')) && !match) {
+      match = key;
+    }
+  }
+
+  if (match) {
+    return {
+      ok: true,
+      apiKey: { label: match.label, maxPerHour: match.maxPerHour, maxPerDay: match.maxPerDay }
+    };
+  }
+
+  const grant = verifyAccessToken(presented);
+  if (grant) {
+    return {
+      ok: true,
+      apiKey: { label: `oauth:${grant.clientId}`, name: grant.clientName, scopes: grant.scopes }
+    };
+  }
+
+  return {
+    ok: false,
+    status: 401,
+    error: 'Invalid API key or access token',
+    wwwAuthenticate: wwwAuthenticate + ', error="invalid_token"'
+  };
+}
+
+/**
+ * Write a 401/403 JSON response for a failed authentication
+ */
+export function sendAuthError(res: http.ServerResponse, result: { status: number; error: string; wwwAuthenticate?: string }): void {
+  const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json' };
+  if (result.wwwAuthenticate) {
+    headers['WWW-Authenticate'] = result.wwwAuthenticate;
+  }
+  res.writeHead(result.status, headers);
+  res.end(JSON.stringify({ error: result.error }));
+}
+
+/**
+ * Set CORS headers for allowed origins (CORS_ORIGINS, "*" for any).
+ * Returns false when the request comes from a browser origin that isn't allowed.
+ */
+export function applyCors(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+
+  const { corsOrigins } = getHttpConfig();
+  const allowed = corsOrigins.includes('*') || corsOrigins.includes(origin);
+  if (!allowed) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, Idempotency-Key');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
+  return true;
+}
@@ -0,0 +1,218 @@
+/**
+ * Small HTML page for the approval queue: /approvals lists pending sends
+ * (behind APPROVAL_PASSWORD) and /approvals/<id>?token=... shows one request
+ * with Approve/Reject buttons. The token is the signed link emailed to the
+ * approver. Viewing never changes anything, since mail scanners open links;
+ * only the form POST decides.
+ */
+
+import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getHttpConfig } from './config.js';
+import { readRequestBody } from './httpUtils.js';
+import {
+  approvalLinkToken,
+  getPendingSend,
+  listPendingSends,
+  rejectPendingSend,
+  verifyApprovalLinkToken,
+  PendingSend
+} from './approvals.js';
+import { approvePendingSend } from './tools/approvals.js';
+
+function safeEqual(a: string, b: string): boolean {
+  const left = createHash('sha256').update(a).digest();
+  const right = createHash('sha256').update(b).digest();
+  return timingSafeEqual(left, right);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sendHtml(res: http.ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'no-referrer',
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'"
+  });
+  res.end(html);
+}
+
+function page(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 44rem; margin: 3rem auto; padding: 0 1rem; color: #222; }
+  .error { color: #b00020; }
+  .muted { color: #666; }
+  pre { white-space: pre-wrap; background: #f5f5f5; padding: .8rem; max-height: 24rem; overflow: auto; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; padding: .3rem .5rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  input[type=password], textarea { width: 100%; padding: .4rem; margin: .5rem 0 1rem; box-sizing: border-box; }
+  button { padding: .5rem 1.2rem; margin-right: .5rem; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(title)}</h2>
+${content}
+</body>
+</html>`;
+}
+
+function renderLogin(error?: string): string {
+  return page('Pending approvals', `
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="/approvals">
+  <label for="password">Approval password</label>
+  <input type="password" id="password" name="password" autocomplete="current-password">
+  <button type="submit">Show pending sends</button>
+</form>`);
+}
+
+function renderList(approvals: PendingSend[]): string {
+  const rows = approvals
+    .map((approval) => `<tr>
+  <td><a href="/approvals/${encodeURIComponent(approval.id)}?token=${approvalLinkToken(approval.id)}">${escapeHtml(approval.subject ?? approval.tool)}</a></td>
+  <td>${approval.recipients.length === 1 ? escapeHtml(approval.recipients[0]) : `${approval.recipients.length} recipients`}</td>
+  <td>${escapeHtml(approval.apiKey ?? approval.transport)}</td>
+  <td class="muted">${escapeHtml(approval.createdAt)}</td>
+</tr>`)
+    .join('\n');
+
+  return page('Pending approvals', approvals.length === 0
+    ? '<p>Nothing is waiting for approval.</p>'
+    : `<table>
+<tr><th>Subject</th><th>To</th><th>Requested by</th><th>Created</th></tr>
+${rows}
+</table>`);
+}
+
+function renderDetail(approval: PendingSend, token: string, message?: string): string {
+  const recipients = approval.recipients.length > 50
+    ? `${approval.recipients.slice(0, 50).join(', ')} and ${approval.recipients.length - 50} more`
+    : approval.recipients.join(', ');
+
+  const decision = approval.status === 'pending'
+    ? `<form method="post" action="/approvals/${encodeURIComponent(approval.id)}">
+  <input type="hidden" name="token" value="${escapeHtml(token)}">
+  <label for="reason">Reason (optional, for rejections)</label>
+  <textarea id="reason" name="reason" rows="2"></textarea>
+  <button type="submit" name="decision" value="approve">Approve and send</button>
+  <button type="submit" name="decision" value="reject">Reject</button>
+</form>
+<p class="muted">Expires ${escapeHtml(approval.expiresAt)}.</p>`
+    : `<p><b>This request is ${escapeHtml(approval.status)}</b>${approval.decidedBy ? ` (by ${escapeHtml(approval.decidedBy)})` : ''}.</p>`;
+
+  return page(`Approve ${approval.tool}?`, `
+${message ? `<p>${escapeHtml(message)}</p>` : ''}
+<table>
+<tr><th>Reason</th><td>${escapeHtml(approval.reason)}</td></tr>
+<tr><th>Requested by</th><td>${escapeHtml(approval.apiKey ?? approval.transport)}</td></tr>
+<tr><th>From account</th><td>${escapeHtml(approval.account ?? 'default')}</td></tr>
+<tr><th>To</th><td>${escapeHtml(recipients)}</td></tr>
+<tr><th>Subject</th><td>${escapeHtml(approval.subject ?? '')}</td></tr>
+</table>
+<pre>${escapeHtml(approval.body ?? '')}</pre>
+${decision}`);
+}
+
+/**
+ * POST /approvals — check the password and list pending sends
+ */
+async function handleList(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const form = new URLSearchParams(await readRequestBody(req, 64 * 1024));
+  const password = getHttpConfig().approvalPassword;
+
+  if (!password) {
+    sendHtml(res, 404, renderLogin('The approval list is disabled. Set APPROVAL_PASSWORD, or use the links in approval emails.'));
+    return;
+  }
+  if (!safeEqual(form.get('password') ?? '', password)) {
+    console.warn('[Approvals] Wrong password on the approval page');
+    sendHtml(res, 401, renderLogin('Wrong password.'));
+    return;
+  }
+
+  sendHtml(res, 200, renderList(listPendingSends('pending')));
+}
+
+/**
+ * GET /approvals/<id>?token=... — show one request (read-only)
+ */
+function handleDetail(res: http.ServerResponse, id: string, token: string): void {
+  if (!verifyApprovalLinkToken(id, token)) {
+    sendHtml(res, 403, page('Invalid link', '<p>This approval link is not valid.</p>'));
+    return;
+  }
+
+  sendHtml(res, 200, renderDetail(getPendingSend(id), token));
+}
+
+/**
+ * POST /approvals/<id> — approve or reject
+ */
+async function handleDecision(req: http.IncomingMessage, res: http.ServerResponse, id: string): Promise<void> {
+  const form = new URLSearchParams(await readRequestBody(req, 64 * 1024));
+  const token = form.get('token') ?? '';
+
+  if (!verifyApprovalLinkToken(id, token)) {
+    sendHtml(res, 403, page('Invalid link', '<p>This approval link is not valid.</p>'));
+    return;
+  }
+
+  if (getPendingSend(id).status !== 'pending') {
+    sendHtml(res, 409, renderDetail(getPendingSend(id), token));
+    return;
+  }
+
+  if (form.get('decision') === 'approve') {
+    const result = await approvePendingSend(id, 'approval-page');
+    sendHtml(res, 200, renderDetail(getPendingSend(id), token,
+      result.success ? 'Approved. The email was sent.' : `Approved, but sending failed: ${String(result.error)}`));
+  } else {
+    rejectPendingSend(id, 'approval-page', form.get('reason') || undefined);
+    sendHtml(res, 200, renderDetail(getPendingSend(id), token, 'Rejected. Nothing was sent.'));
+  }
+}
+
+/**
+ * Handle /approvals routes. Returns false for any other path.
+ */
+export async function handleApprovalRequest(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<boolean> {
+  if (url.pathname !== '/approvals' && !url.pathname.startsWith('/approvals/')) {
+    return false;
+  }
+
+  const id = decodeURIComponent(url.pathname.slice('/approvals/'.length));
+
+  try {
+    if (url.pathname === '/approvals' && req.method === 'GET') {
+      sendHtml(res, 200, renderLogin());
+    } else if (url.pathname === '/approvals' && req.method === 'POST') {
+      await handleList(req, res);
+    } else if (id && req.method === 'GET') {
+      handleDetail(res, id, url.searchParams.get('token') ?? '');
+    } else if (id && req.method === 'POST') {
+      await handleDecision(req, res, id);
+    } else {
+      sendHtml(res, 404, page('Not found', '<p>Not found.</p>'));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Approvals] Approval page error:', message);
+    sendHtml(res, message.startsWith('Approval request not found') ? 404 : 500, page('Error', `<p class="error">${escapeHtml(message)}</p>`));
+  }
+
+  return true;
+}
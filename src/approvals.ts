@@ -0,0 +1,347 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfig, getHttpConfig } from './config.js';
+import { getDataPath, readJsonFile, writeJsonFile } from './storage.js';
+import { sendEmail } from './gmail.js';
+import { hashBody, logSend } from './sendLog.js';
+import { canSendEmail, recordEmailSent } from './rateLimiter.js';
+import { checkRecipients, isRecipientPolicyActive, recipientPolicyError } from './recipientPolicy.js';
+
+/**
+ * Human approval for outgoing mail. When the approval policy matches, a send
+ * tool call is stored here instead of running. An approver releases it
+ * (approve_send, the /approvals page or a signed link) and the original call
+ * then runs through the normal tool path, rate limits included.
+ */
+
+export type PendingSendStatus = 'pending' | 'approved' | 'sent' | 'failed' | 'rejected' | 'expired';
+
+/**
+ * What a send tool call would send, as described by the tool (see ToolDefinition.outgoing)
+ */
+export interface OutgoingMail {
+  recipients: string[];
+  subject?: string;
+  body?: string;
+  // Bulk tools (one message per recipient)
+  bulk?: boolean;
+  // Most recipients on a single message (default: all of them)
+  perMessage?: number;
+}
+
+export interface PendingSend {
+  id: string;
+  status: PendingSendStatus;
+  tool: string;
+  args: Record<string, unknown>;
+  // Enough of the caller's context to run the call later
+  transport: string;
+  allowLocalPaths: boolean;
+  apiKey?: string;
+  account?: string;
+  recipients: string[];
+  subject?: string;
+  body?: string;
+  // Which policy required approval
+  reason: string;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  rejectionReason?: string;
+  // Tool result once approved and run
+  result?: Record<string, unknown>;
+}
+
+const APPROVALS_FILE = 'approvals.json';
+const SECRET_FILE = 'approval-secret.json';
+// Bodies are shown to approvers, not sent from here; keep the stored copy small
+const MAX_STORED_BODY = 20000;
+
+function loadApprovals(): PendingSend[] {
+  const approvals = readJsonFile<PendingSend[]>(getDataPath(APPROVALS_FILE), []);
+  const now = Date.now();
+  let changed = false;
+
+  for (const approval of approvals) {
+    if (approval.status === 'pending' && new Date(approval.expiresAt).getTime() <= now) {
+      approval.status = 'expired';
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    saveApprovals(approvals);
+  }
+  return approvals;
+}
+
+function saveApprovals(approvals: PendingSend[]): void {
+  writeJsonFile(getDataPath(APPROVALS_FILE), approvals);
+}
+
+/**
+ * Update a single request in the store
+ */
+function updateApproval(id: string, update: (approval: PendingSend) => void): PendingSend {
+  const approvals = loadApprovals();
+  const approval = approvals.find((a) => a.id === id);
+
+  if (!approval) {
+    throw new Error(`Approval request not found: ${id}`);
+  }
+
+  update(approval);
+  saveApprovals(approvals);
+  return approval;
+}
+
+function domainOf(address: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(address);
+  const email = (match ? match[1] : address).trim();
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+function isInternal(domain: string, internalDomains: string[]): boolean {
+  return internalDomains.some((internal) => domain === internal || domain.endsWith(`.${internal}`));
+}
+
+/**
+ * Why a send needs approval under the configured policy, or undefined when it doesn't
+ */
+export function approvalReason(outgoing: OutgoingMail): string | undefined {
+  const { policies, internalDomains, recipientThreshold } = getConfig().approval;
+
+  for (const policy of policies) {
+    if (policy === 'always') {
+      return 'All outgoing mail needs approval';
+    }
+    if (policy === 'bulk' && outgoing.bulk) {
+      return 'Bulk sends need approval';
+    }
+    if (policy === 'threshold' && outgoing.recipients.length >= recipientThreshold) {
+      return `Sends to ${recipientThreshold} or more recipients need approval`;
+    }
+    if (policy === 'external') {
+      const external = outgoing.recipients.filter((recipient) => !isInternal(domainOf(recipient), internalDomains));
+      if (external.length > 0) {
+        return `Mail to external recipients needs approval (${external.slice(0, 3).join(', ')}${external.length > 3 ? ', ...' : ''})`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Hold a tool call for approval and notify the approver (if configured)
+ */
+export function queueSend(request: {
+  tool: string;
+  args: Record<string, unknown>;
+  transport: string;
+  allowLocalPaths: boolean;
+  apiKey?: string;
+  outgoing: OutgoingMail;
+  reason: string;
+}): PendingSend {
+  const now = new Date();
+  const pending: PendingSend = {
+    id: uuidv4(),
+    status: 'pending',
+    tool: request.tool,
+    args: request.args,
+    transport: request.transport,
+    allowLocalPaths: request.allowLocalPaths,
+    apiKey: request.apiKey,
+    account: request.args.from_account as string | undefined,
+    recipients: request.outgoing.recipients,
+    subject: request.outgoing.subject,
+    body: request.outgoing.body?.slice(0, MAX_STORED_BODY),
+    reason: request.reason,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + getConfig().approval.expiryHours * 60 * 60 * 1000).toISOString()
+  };
+
+  const approvals = loadApprovals();
+  approvals.push(pending);
+  saveApprovals(approvals);
+
+  void notifyApprover(pending);
+  return pending;
+}
+
+/**
+ * Get a request by id
+ */
+export function getPendingSend(id: string): PendingSend {
+  const approval = loadApprovals().find((a) => a.id === id);
+  if (!approval) {
+    throw new Error(`Approval request not found: ${id}`);
+  }
+  return approval;
+}
+
+/**
+ * List requests, newest first
+ */
+export function listPendingSends(status?: PendingSendStatus): PendingSend[] {
+  return loadApprovals()
+    .filter((approval) => !status || approval.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Mark a pending request approved so it can be run exactly once
+ */
+export function claimPendingSend(id: string, approver: string): PendingSend {
+  return updateApproval(id, (approval) => {
+    if (approval.status !== 'pending') {
+      throw new Error(`This request is already ${approval.status}`);
+    }
+    approval.status = 'approved';
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = approver;
+  });
+}
+
+/**
+ * Record the result of running an approved request
+ */
+export function completePendingSend(id: string, result: Record<string, unknown>): PendingSend {
+  return updateApproval(id, (approval) => {
+    approval.status = result.success ? 'sent' : 'failed';
+    approval.result = result;
+  });
+}
+
+/**
+ * Reject a pending request; it will never be sent
+ */
+export function rejectPendingSend(id: string, approver: string, reason?: string): PendingSend {
+  return updateApproval(id, (approval) => {
+    if (approval.status !== 'pending') {
+      throw new Error(`This request is already ${approval.status}`);
+    }
+    approval.status = 'rejected';
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = approver;
+    approval.rejectionReason = reason;
+  });
+}
+
+// ============================================================================
+// Signed links
+// ============================================================================
+
+/**
+ * Secret for approval links: APPROVAL_LINK_SECRET, or a random one kept in the data directory
+ */
+function getLinkSecret(): string {
+  const configured = getConfig().approval.linkSecret;
+  if (configured) return configured;
+
+  const filePath = getDataPath(SECRET_FILE);
+  const stored = readJsonFile<{ secret?: string }>(filePath, {});
+  if (stored.secret) return stored.secret;
+
+  const secret = randomBytes(32).toString('base64url');
+  writeJsonFile(filePath, { secret });
+  return secret;
+}
+
+/**
+ * Token that lets whoever holds the link review and decide one request
+ */
+export function approvalLinkToken(id: string): string {
+  return createHmac('sha256', getLinkSecret()).update(`approval:${id}`).digest('base64url');
+}
+
+export function verifyApprovalLinkToken(id: string, token: string): boolean {
+  const expected = Buffer.from(approvalLinkToken(id));
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Absolute link to a request's approval page
+ */
+export function approvalLink(id: string, baseUrl: string): string {
+  return `${baseUrl}/approvals/${encodeURIComponent(id)}?token=${approvalLinkToken(id)}`;
+}
+
+/**
+ * Email the approver a summary and a signed link. The notification goes
+ * through the recipient policy and counts against the default account's rate
+ * limit like any other send. Failures are logged only: the request stays in
+ * the queue either way.
+ */
+async function notifyApprover(pending: PendingSend): Promise<void> {
+  const { notifyEmail } = getConfig().approval;
+  if (!notifyEmail) return;
+
+  try {
+    const { publicUrl } = getHttpConfig();
+    const recipients = pending.recipients.length > 10
+      ? `${pending.recipients.slice(0, 10).join(', ')} and ${pending.recipients.length - 10} more`
+      : pending.recipients.join(', ');
+
+    const body = [
+      `A ${pending.tool} request is waiting for approval.`,
+      '',
+      `Reason: ${pending.reason}`,
+      `Requested by: ${pending.apiKey ?? pending.transport}`,
+      `Recipients: ${recipients}`,
+      `Subject: ${pending.subject ?? '(none)'}`,
+      '',
+      publicUrl
+        ? `Review and approve: ${approvalLink(pending.id, publicUrl)}`
+        : `Approval id: ${pending.id} (set PUBLIC_URL to get a one-click link)`,
+      '',
+      `The request expires at ${pending.expiresAt}.`,
+      '',
+      '---',
+      (pending.body ?? '').slice(0, 2000)
+    ].join('\n');
+
+    const subject = `Approval needed: ${pending.subject ?? pending.tool}`;
+    const entry = { transport: 'approval', tool: 'approval_notification', to: notifyEmail, subject };
+
+    if (isRecipientPolicyActive()) {
+      const violations = checkRecipients({ recipients: [notifyEmail] });
+      if (violations.length > 0) {
+        const { error } = recipientPolicyError(violations);
+        logSend({ ...entry, status: 'refused', error });
+        console.error('[Approvals] Could not email the approver:', error);
+        return;
+      }
+    }
+
+    const rateStatus = await canSendEmail();
+    if (!rateStatus.allowed) {
+      logSend({ ...entry, status: 'refused', error: rateStatus.reason });
+      console.error('[Approvals] Could not email the approver:', rateStatus.reason);
+      return;
+    }
+
+    const result = await sendEmail({ to: notifyEmail, subject, body });
+    if (result.dryRun) return;
+
+    if (result.success) {
+      await recordEmailSent();
+    }
+    logSend({
+      ...entry,
+      bodyHash: hashBody(body),
+      messageId: result.messageId,
+      threadId: result.threadId,
+      status: result.success ? 'sent' : 'failed',
+      error: result.error
+    });
+    if (!result.success) {
+      console.error('[Approvals] Could not email the approver:', result.error);
+    }
+  } catch (error) {
+    console.error('[Approvals] Could not email the approver:', error);
+  }
+}
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Gmail rejects messages larger than 25 MB
+ */
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Attachment as supplied by a tool call or API request
+ */
+export interface AttachmentInput {
+  filename?: string;
+  mime_type?: string;
+  content?: string; // base64
+  path?: string;
+}
+
+/**
+ * Attachment ready to be written into a MIME message
+ */
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.md': 'text/markdown',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.ics': 'text/calendar'
+};
+
+/**
+ * Sniff common file signatures when the extension is unknown
+ */
+function sniffMimeType(data: Buffer): string | undefined {
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 4).toString('latin1') === 'GIF8') return 'image/gif';
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) return 'application/zip';
+  return undefined;
+}
+
+/**
+ * Detect a MIME type from the filename, falling back to the content
+ */
+export function detectMimeType(filename: string, data?: Buffer): string {
+  const byExtension = MIME_TYPES_BY_EXTENSION[path.extname(filename).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  return (data && sniffMimeType(data)) || 'application/octet-stream';
+}
+
+/**
+ * Load attachment content, detect MIME types and enforce Gmail's size limit.
+ * Local file paths are only honoured when `allowLocalPaths` is set (stdio mode).
+ */
+export function resolveAttachments(
+  inputs: AttachmentInput[] | undefined,
+  options: { allowLocalPaths: boolean }
+): EmailAttachment[] {
+  if (!inputs || inputs.length === 0) {
+    return [];
+  }
+
+  const attachments = inputs.map((input, index) => {
+    let data: Buffer;
+    let filename = input.filename;
+
+    if (input.content && input.path) {
+      throw new Error(`Attachment ${index + 1}: provide either content or path, not both`);
+    }
+
+    if (input.path) {
+      if (!options.allowLocalPaths) {
+        throw new Error(`Attachment ${index + 1}: local file paths are only supported in stdio mode`);
+      }
+      const filePath = path.resolve(input.path);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        throw new Error(`Attachment ${index + 1}: file not found: ${input.path}`);
+      }
+      data = fs.readFileSync(filePath);
+      filename = filename || path.basename(filePath);
+    } else if (input.content) {
+      data = Buffer.from(input.content, 'base64');
+    } else {
+      throw new Error(`Attachment ${index + 1}: content (base64) or path is required`);
+    }
+
+    if (!filename) {
+      throw new Error(`Attachment ${index + 1}: filename is required`);
+    }
+
+    return {
+      filename,
+      mimeType: input.mime_type || detectMimeType(filename, data),
+      data
+    };
+  });
+
+  const totalBytes = attachments.reduce((sum, attachment) => sum + attachment.data.length, 0);
+  if (totalBytes > MAX_ATTACHMENT_BYTES) {
+    throw new Error(
+      `Attachments total ${(totalBytes / 1024 / 1024).toFixed(1)} MB, which exceeds Gmail's 25 MB limit`
+    );
+  }
+
+  return attachments;
+}
@@ -1,29 +1,68 @@
 #!/usr/bin/env node
 
 /**
- * Gmail OAuth2 Authentication Helper
- * 
- * Run this script to get your refresh token:
- *   npm run auth
- * 
+ * Gmail OAuth2 Setup
+ *
+ * Authorizes this server to use your Gmail account and saves the credentials:
+ *   npm run auth [-- options]
+ *
  * Steps:
  * 1. Go to Google Cloud Console
  * 2. Create a new project or select existing
  * 3. Enable Gmail API
  * 4. Go to APIs & Services > Credentials
- * 5. Create OAuth 2.0 Client ID (Web application)
- * 6. Add https://developers.google.com/oauthplayground as authorized redirect URI
- * 7. Copy Client ID and Client Secret
- * 8. Run this script and follow the instructions
+ * 5. Create OAuth 2.0 Client ID of type "Desktop app" (any loopback port works).
+ *    A "Web application" client also works if you register
+ *    http://127.0.0.1:<port>/oauth2callback and pass --port <port>.
+ * 6. Run this script. It opens the consent page in your browser and catches
+ *    the redirect on a temporary local server (authorization code with PKCE).
+ *
+ * Options:
+ *   --client-file <path>  Client JSON downloaded from Google Cloud (otherwise
+ *                         GMAIL_CLIENT_ID/GMAIL_CLIENT_SECRET, or you are asked)
+ *   --port <n>            Local port for the redirect (default: any free port)
+ *   --no-browser          Don't open a browser; print the URL (headless machines)
+ *   --output env|encrypted  Write to .env (default) or an encrypted token file
+ *   --token-file <path>   Where --output encrypted writes (default GMAIL_TOKEN_FILE
+ *                         or data/gmail-token.json)
+ *   --scopes <features>   Feature sets to authorize (default GMAIL_SCOPES or send,read,compose)
  */
 
-import { google } from 'googleapis';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
 import * as readline from 'readline';
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { google } from 'googleapis';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { loadEnvFile } from './config.js';
+import { gmailScopesFor, parseGmailFeatures } from './gmailScopes.js';
+import { generateTokenKey, writeTokenFile } from './tokenFile.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ENV_PATH = path.resolve(__dirname, '..', '.env');
+const CALLBACK_PATH = '/oauth2callback';
+// How long to wait for the browser to come back
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+const { values: options } = parseArgs({
+  options: {
+    'client-file': { type: 'string' },
+    port: { type: 'string' },
+    'no-browser': { type: 'boolean', default: false },
+    output: { type: 'string', default: 'env' },
+    'token-file': { type: 'string' },
+    scopes: { type: 'string' }
+  }
+});
+
+loadEnvFile();
+const FEATURES = parseGmailFeatures(options.scopes ?? process.env.GMAIL_SCOPES);
+const SCOPES = gmailScopesFor(FEATURES);
 
-const SCOPES = [
-  'https://www.googleapis.com/auth/gmail.send',
-  'https://www.googleapis.com/auth/gmail.readonly'
-];
 const rl = readline.createInterface({
   input: process.stdin,
   output: process.stdout
@@ -37,39 +76,180 @@ function question(prompt: string): Promise<string> {
   });
 }
 
-async function main() {
-  console.log('='.repeat(60));
-  console.log('Gmail OAuth2 Setup Helper');
-  console.log('='.repeat(60));
-  console.log();
-  console.log('Before running this script, make sure you have:');
-  console.log('1. Created a Google Cloud project');
-  console.log('2. Enabled the Gmail API');
-  console.log('3. Created OAuth 2.0 credentials (Web application)');
-  console.log('4. Added this redirect URI:');
-  console.log('   https://developers.google.com/oauthplayground');
-  console.log();
+/**
+ * Client id and secret from --client-file, the environment, or the terminal
+ */
+async function loadClient(): Promise<{ clientId: string; clientSecret: string }> {
+  if (options['client-file']) {
+    // Google's download wraps the client in "installed" (Desktop app) or "web"
+    const raw = JSON.parse(fs.readFileSync(options['client-file'], 'utf-8')) as Record<string, { client_id?: string; client_secret?: string }>;
+    const client = raw.installed ?? raw.web;
+    if (!client?.client_id || !client.client_secret) {
+      throw new Error(`${options['client-file']} is not an OAuth client file (expected "installed" or "web" with client_id and client_secret)`);
+    }
+    return { clientId: client.client_id, clientSecret: client.client_secret };
+  }
+
+  if (process.env.GMAIL_CLIENT_ID && process.env.GMAIL_CLIENT_SECRET) {
+    console.log(`Using the client from GMAIL_CLIENT_ID (${process.env.GMAIL_CLIENT_ID.substring(0, 20)}...)`);
+    return { clientId: process.env.GMAIL_CLIENT_ID, clientSecret: process.env.GMAIL_CLIENT_SECRET };
+  }
 
   const clientId = await question('Enter your Client ID: ');
   const clientSecret = await question('Enter your Client Secret: ');
-
   if (!clientId || !clientSecret) {
-    console.error('Error: Client ID and Client Secret are required.');
-    rl.close();
-    process.exit(1);
+    throw new Error('Client ID and Client Secret are required.');
+  }
+  return { clientId, clientSecret };
+}
+
+/**
+ * Open a URL in the default browser; false when there is no display to open it on
+ */
+function openBrowser(url: string): boolean {
+  const headless = process.platform === 'linux' && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY;
+  if (options['no-browser'] || headless || process.env.SSH_CONNECTION) {
+    return false;
+  }
+
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [url]]
+    : process.platform === 'win32'
+      ? ['cmd', ['/c', 'start', '""', url.replace(/&/g, '^&')]]
+      : ['xdg-open', [url]];
+
+  try {
+    const child = spawn(command, args as string[], { stdio: 'ignore', detached: true });
+    child.on('error', () => console.log('Could not open a browser; open the URL above yourself.'));
+    child.unref();
+    return true;
+  } catch {
+    return false;
   }
+}
+
+/**
+ * Listen on a loopback port for the OAuth redirect
+ */
+function startCallbackServer(port: number): Promise<http.Server> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer();
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function callbackPage(title: string, message: string): string {
+  // Both arguments are fixed strings from this script
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;text-align:center">` +
+    `<h1>${title}</h1><p>${message}</p></body></html>`;
+}
+
+/**
+ * Wait for the authorization code: from the redirect to the local server, or
+ * pasted into the terminal when the browser runs on another machine
+ */
+function waitForCode(server: http.Server, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (error: Error | null, code?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve(code as string);
+    };
+
+    const timer = setTimeout(() => finish(new Error('Timed out waiting for authorization (5 minutes)')), TIMEOUT_MS);
+
+    // The redirect URL (or just its query string) as received by the browser
+    const handleRedirect = (url: URL): string | undefined => {
+      // A stale tab or another request; keep waiting for the right one
+      if (url.searchParams.get('state') !== state) {
+        console.log('Ignored a redirect from a different authorization request (state mismatch).');
+        return 'This authorization request is not the one the setup script is waiting for.';
+      }
+      const error = url.searchParams.get('error');
+      if (error) {
+        finish(new Error(`Authorization was not granted: ${error}`));
+        return 'Authorization was not granted. You can close this tab.';
+      }
+      const code = url.searchParams.get('code');
+      if (!code) {
+        return undefined;
+      }
+      finish(null, code);
+      return 'Gmail is authorized. You can close this tab and return to the terminal.';
+    };
 
-  const oauth2Client = new google.auth.OAuth2(
-    clientId,
-    clientSecret,
-    'https://developers.google.com/oauthplayground'
-  );
+    server.on('request', (req, res) => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      if (url.pathname !== CALLBACK_PATH) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
+
+      const message = handleRedirect(url) ?? 'No authorization code in the request.';
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(callbackPage('Gmail MCP Server', message));
+    });
+
+    // Headless fallback: the browser elsewhere can't reach this machine's loopback
+    // address, but the address bar still shows the redirect URL with the code
+    rl.on('line', (line) => {
+      const pasted = line.trim();
+      if (!pasted || settled) return;
+      try {
+        if (handleRedirect(new URL(pasted.startsWith('http') ? pasted : `http://127.0.0.1${CALLBACK_PATH}?${pasted.replace(/^\?/, '')}`)) === undefined) {
+          console.log('No authorization code in that URL; paste the full address of the page you were sent to.');
+        }
+      } catch {
+        console.log('That does not look like the redirect URL; paste the full address of the page you were sent to.');
+      }
+    });
+  });
+}
+
+/**
+ * Set KEY=value lines in .env, replacing existing ones and keeping everything else
+ */
+function updateEnvFile(values: Record<string, string>): void {
+  const lines = fs.existsSync(ENV_PATH) ? fs.readFileSync(ENV_PATH, 'utf-8').split('\n') : [];
+  const remaining = new Map(Object.entries(values));
+
+  const updated = lines.map((line) => {
+    const key = line.split('=')[0].trim();
+    if (!line.trim().startsWith('#') && remaining.has(key)) {
+      const value = remaining.get(key);
+      remaining.delete(key);
+      return `${key}=${value}`;
+    }
+    return line;
+  });
+
+  if (updated.length > 0 && updated[updated.length - 1] === '') {
+    updated.pop();
+  }
+  for (const [key, value] of remaining) {
+    updated.push(`${key}=${value}`);
+  }
+
+  fs.writeFileSync(ENV_PATH, updated.join('\n') + '\n', { mode: 0o600 });
+}
+
+async function authorize(oauth2Client: OAuth2Client, server: http.Server): Promise<void> {
+  const { codeVerifier, codeChallenge } = await oauth2Client.generateCodeVerifierAsync();
+  const state = randomBytes(16).toString('hex');
 
-  // Generate auth URL
   const authUrl = oauth2Client.generateAuthUrl({
     access_type: 'offline',
     scope: SCOPES,
-    prompt: 'consent' // Force consent to get refresh token
+    prompt: 'consent', // Force consent to get refresh token
+    state,
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge
   });
 
   console.log();
@@ -77,68 +257,114 @@ async function main() {
   console.log('Step 1: Authorize the application');
   console.log('='.repeat(60));
   console.log();
+  console.log(`Requesting access for: ${FEATURES.join(', ')} (set GMAIL_SCOPES or --scopes to change)`);
+  console.log();
   console.log('Open this URL in your browser:');
   console.log();
   console.log(authUrl);
   console.log();
-  console.log('After authorizing, you will be redirected to a page.');
-  console.log('Copy the authorization code from the URL or page.');
+  if (openBrowser(authUrl)) {
+    console.log('(Opened in your browser.)');
+  }
+  console.log('Waiting for you to approve access...');
+  console.log('If the browser is on another machine, the page it is sent to after approving');
+  console.log('will not load. Copy that page\'s full URL from the address bar and paste it here.');
   console.log();
 
-  const code = await question('Enter the authorization code: ');
+  const code = await waitForCode(server, state);
+  const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
 
-  if (!code) {
-    console.error('Error: Authorization code is required.');
-    rl.close();
-    process.exit(1);
+  if (!tokens.refresh_token) {
+    throw new Error('Google did not return a refresh token. Remove this app at https://myaccount.google.com/permissions and run npm run auth again.');
   }
+  oauth2Client.setCredentials(tokens);
+}
 
-  try {
-    // Exchange code for tokens
-    const { tokens } = await oauth2Client.getToken(code);
+async function main() {
+  console.log('='.repeat(60));
+  console.log('Gmail OAuth2 Setup Helper');
+  console.log('='.repeat(60));
+  console.log();
 
-    console.log();
-    console.log('='.repeat(60));
-    console.log('Success! Here are your credentials:');
-    console.log('='.repeat(60));
-    console.log();
-    console.log('Add these to your .env file:');
-    console.log();
-    console.log(`GMAIL_CLIENT_ID=${clientId}`);
-    console.log(`GMAIL_CLIENT_SECRET=${clientSecret}`);
-    console.log(`GMAIL_REFRESH_TOKEN=${tokens.refresh_token}`);
-    console.log();
-    console.log('The refresh token is permanent and will not expire');
-    console.log('(unless you revoke access or change OAuth settings).');
-    console.log();
+  if (options.output !== 'env' && options.output !== 'encrypted') {
+    throw new Error(`Unknown --output "${options.output}" (use env or encrypted)`);
+  }
+
+  const { clientId, clientSecret } = await loadClient();
+  const server = await startCallbackServer(options.port ? parseInt(options.port, 10) : 0);
+  const { port } = server.address() as { port: number };
+  const redirectUri = `http://127.0.0.1:${port}${CALLBACK_PATH}`;
+
+  try {
+    const oauth2Client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+    await authorize(oauth2Client, server);
 
     // Verify the credentials work
     console.log('Verifying credentials...');
-    oauth2Client.setCredentials(tokens);
     const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
     const profile = await gmail.users.getProfile({ userId: 'me' });
-    
+    const email = profile.data.emailAddress as string;
+    const refreshToken = oauth2Client.credentials.refresh_token as string;
+
     console.log();
-    console.log(`✓ Successfully authenticated as: ${profile.data.emailAddress}`);
+    console.log(`✓ Successfully authenticated as: ${email}`);
     console.log();
-    console.log(`GMAIL_USER_EMAIL=${profile.data.emailAddress}`);
+    console.log('='.repeat(60));
+    console.log('Step 2: Save the credentials');
+    console.log('='.repeat(60));
     console.log();
 
-  } catch (error) {
-    console.error();
-    console.error('Error exchanging code for tokens:');
-    console.error(error instanceof Error ? error.message : error);
-    console.error();
-    console.error('Make sure:');
-    console.error('1. The authorization code is correct and has not expired');
-    console.error('2. The redirect URI in your OAuth settings matches:');
-    console.error('   https://developers.google.com/oauthplayground');
-  }
+    if (options.output === 'encrypted') {
+      const tokenFile = path.resolve(options['token-file'] ?? process.env.GMAIL_TOKEN_FILE ?? path.join('data', 'gmail-token.json'));
+      const key = process.env.GMAIL_TOKEN_KEY || generateTokenKey();
+      writeTokenFile(tokenFile, {
+        clientId,
+        clientSecret,
+        refreshToken,
+        email,
+        scopes: oauth2Client.credentials.scope?.split(' '),
+        createdAt: new Date().toISOString()
+      }, key);
 
-  rl.close();
+      console.log(`Encrypted credentials written to ${tokenFile}`);
+      console.log();
+      console.log('Set these where the server runs (keep the key secret, and away from the file):');
+      console.log();
+      console.log(`GMAIL_TOKEN_FILE=${tokenFile}`);
+      if (!process.env.GMAIL_TOKEN_KEY) {
+        console.log(`GMAIL_TOKEN_KEY=${key}`);
+      }
+    } else {
+      updateEnvFile({
+        GMAIL_CLIENT_ID: clientId,
+        GMAIL_CLIENT_SECRET: clientSecret,
+        GMAIL_REFRESH_TOKEN: refreshToken,
+        GMAIL_USER_EMAIL: email
+      });
+      console.log(`Credentials saved to ${ENV_PATH}`);
+      console.log('For the Apify Actor or a hosted server, copy GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET,');
+      console.log('GMAIL_REFRESH_TOKEN and GMAIL_USER_EMAIL from there into its settings.');
+    }
+
+    console.log();
+    console.log('The refresh token is permanent and will not expire');
+    console.log('(unless you revoke access or change OAuth settings).');
+    console.log();
+  } finally {
+    server.closeAllConnections();
+    server.close();
+    rl.close();
+  }
 }
 
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  console.error();
+  console.error('Error:', error instanceof Error ? error.message : error);
+  console.error();
+  console.error('Make sure:');
+  console.error('1. The Gmail API is enabled for the project');
+  console.error('2. The OAuth client is a "Desktop app", or a "Web application" with');
+  console.error('   http://127.0.0.1:<port>/oauth2callback registered and --port <port> passed');
+  rl.close();
   process.exit(1);
 });
@@ -0,0 +1,616 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { sendEmail, isDryRunMode } from './gmail.js';
+import { getAccount } from './accounts.js';
+import { canSendEmail, recordEmailSent, rateLimitScopeFor, getNextSendTime, getRandomDelay } from './rateLimiter.js';
+import { findApiKey } from './apiKeys.js';
+import { hashBody, logSend } from './sendLog.js';
+import { checkRecipients, isRecipientPolicyActive, recipientPolicyError } from './recipientPolicy.js';
+import { compileMergeTemplates, renderMergeRow, rowRecipient, CompiledMerge, MergeTemplates } from './mailMerge.js';
+import { TemplateRow } from './template.js';
+import { getConfig } from './config.js';
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from './storage.js';
+
+/**
+ * Bulk sends as background jobs. A campaign is persisted with one entry per
+ * recipient and worked through one message at a time, with a random delay
+ * between sends. When a rate limit is reached the campaign waits for the
+ * window to reopen instead of failing, so large lists spread over hours or days.
+ * Campaigns are kept in the same kind of store as the rate limits, so on Apify
+ * they outlive the run that started them. Processes sharing a data directory
+ * claim each recipient before sending, so no one is sent to twice.
+ */
+
+export type CampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type RecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface CampaignRecipient {
+  email: string;
+  // Merge fields for this recipient's templates
+  fields?: TemplateRow;
+  status: RecipientStatus;
+  attempts: number;
+  sentAt?: string;
+  messageId?: string;
+  threadId?: string;
+  error?: string;
+  // Process sending to this recipient, and until when the claim holds
+  claimedBy?: string;
+  leaseUntil?: string;
+}
+
+export interface Campaign {
+  id: string;
+  name?: string;
+  status: CampaignStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  // When the next message may go out (pacing delay or rate-limit wait)
+  nextSendAt: string;
+  waitingReason?: string;
+  // Label of the API key that started the campaign; its limits apply when sending
+  apiKey?: string;
+  // Tool that started it (start_campaign or send_bulk_emails), for the send log
+  tool?: string;
+  account?: string;
+  // Subject/body/html are merge templates rendered per recipient
+  email: MergeTemplates & {
+    cc?: string[];
+    bcc?: string[];
+    from?: string;
+    replyTo?: string;
+  };
+  recipients: CampaignRecipient[];
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 1000;
+// Upper bound between runner ticks, so waits are re-checked even without a wake-up
+const MAX_IDLE_MS = 30 * 1000;
+// A claim outlives any real send; after it, the claiming process is assumed gone
+const SEND_LEASE_MS = 10 * 60 * 1000;
+// Identifies this process in claims (the stdio and HTTP servers may share a data directory)
+const WORKER_ID = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+/**
+ * Persistence for campaigns (same backends as the rate limiter)
+ */
+export interface CampaignStore {
+  load(): Promise<Campaign[]>;
+  // Load, change and save as one step (under a lock where the store is shared)
+  update(change: (campaigns: Campaign[]) => Campaign[]): Promise<void>;
+}
+
+export function createMemoryCampaignStore(): CampaignStore {
+  let campaigns: Campaign[] = [];
+
+  return {
+    async load() {
+      return structuredClone(campaigns);
+    },
+    async update(change) {
+      campaigns = structuredClone(change(structuredClone(campaigns)));
+    }
+  };
+}
+
+export function createFileCampaignStore(filePath: string = getDataPath('campaigns.json')): CampaignStore {
+  return {
+    async load() {
+      return readJsonFile<Campaign[]>(filePath, []);
+    },
+    async update(change) {
+      withFileLock(filePath, () => {
+        writeJsonFile(filePath, change(readJsonFile<Campaign[]>(filePath, [])));
+      });
+    }
+  };
+}
+
+/**
+ * Apify key-value store: an Actor run ends at the first rate-limit wait, and
+ * the container's disk goes with it
+ */
+export function createApifyCampaignStore(storeName: string, key = 'CAMPAIGNS_STATE'): CampaignStore {
+  const openStore = async () => {
+    const { Actor } = await import('apify');
+    return Actor.openKeyValueStore(storeName);
+  };
+
+  return {
+    async load() {
+      const store = await openStore();
+      return (await store.getValue<Campaign[]>(key)) ?? [];
+    },
+    async update(change) {
+      const store = await openStore();
+      await store.setValue(key, change((await store.getValue<Campaign[]>(key)) ?? []));
+    }
+  };
+}
+
+let store: CampaignStore | null = null;
+// Serializes read-modify-write cycles within this process
+let pendingWrite: Promise<unknown> = Promise.resolve();
+let runnerTimer: NodeJS.Timeout | null = null;
+let runnerStarted = false;
+let tickInProgress = false;
+const compiledTemplates = new Map<string, CompiledMerge>();
+
+/**
+ * Override the store (e.g. in tests or custom deployments)
+ */
+export function setCampaignStore(next: CampaignStore): void {
+  store = next;
+}
+
+function getStore(): CampaignStore {
+  if (!store) {
+    const config = getConfig();
+    switch (config.rateLimit.store) {
+      case 'memory':
+        store = createMemoryCampaignStore();
+        break;
+      case 'apify':
+        store = createApifyCampaignStore(config.rateLimit.apifyStoreName);
+        break;
+      default:
+        store = createFileCampaignStore();
+    }
+  }
+  return store;
+}
+
+function loadCampaigns(): Promise<Campaign[]> {
+  return getStore().load();
+}
+
+/**
+ * Load, change and save all campaigns as one step. A change that throws
+ * leaves the store untouched.
+ */
+function changeCampaigns<T>(change: (campaigns: Campaign[]) => T): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    let result: T | undefined;
+    await getStore().update((campaigns) => {
+      result = change(campaigns);
+      return campaigns;
+    });
+    return result as T;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Update a single campaign in the store
+ */
+function updateCampaign(id: string, update: (campaign: Campaign) => void): Promise<Campaign> {
+  return changeCampaigns((campaigns) => {
+    const campaign = campaigns.find((c) => c.id === id);
+
+    if (!campaign) {
+      throw new Error(`Campaign not found: ${id}`);
+    }
+
+    update(campaign);
+    campaign.updatedAt = new Date().toISOString();
+    return campaign;
+  });
+}
+
+function getCompiled(campaign: Campaign): CompiledMerge {
+  let compiled = compiledTemplates.get(campaign.id);
+  if (!compiled) {
+    compiled = compileMergeTemplates(campaign.email);
+    compiledTemplates.set(campaign.id, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Create a campaign and let the background runner start sending. Rows must
+ * already be validated (see prepareMailMerge).
+ */
+export async function startCampaign(options: {
+  name?: string;
+  email: Campaign['email'];
+  rows: TemplateRow[];
+  emailField: string;
+  account?: string;
+  apiKey?: string;
+  tool?: string;
+}): Promise<Campaign> {
+  // Fail now rather than in the background
+  getAccount(options.account);
+  compileMergeTemplates(options.email);
+
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    id: uuidv4(),
+    name: options.name,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    nextSendAt: now,
+    apiKey: options.apiKey,
+    tool: options.tool,
+    account: options.account,
+    email: options.email,
+    recipients: options.rows.map((row) => ({
+      email: rowRecipient(row, options.emailField),
+      fields: row,
+      status: 'pending',
+      attempts: 0
+    }))
+  };
+
+  await changeCampaigns((campaigns) => {
+    campaigns.push(campaign);
+  });
+
+  wakeCampaignRunner();
+  return campaign;
+}
+
+/**
+ * Get a campaign by id
+ */
+export async function getCampaign(id: string): Promise<Campaign> {
+  const campaign = (await loadCampaigns()).find((c) => c.id === id);
+  if (!campaign) {
+    throw new Error(`Campaign not found: ${id}`);
+  }
+  return campaign;
+}
+
+/**
+ * List campaigns, newest first
+ */
+export async function listCampaigns(status?: CampaignStatus): Promise<Campaign[]> {
+  return (await loadCampaigns())
+    .filter((campaign) => !status || campaign.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Stop sending until resumed
+ */
+export function pauseCampaign(id: string): Promise<Campaign> {
+  return updateCampaign(id, (campaign) => {
+    if (campaign.status !== 'running') {
+      throw new Error(`Cannot pause a campaign that is ${campaign.status}`);
+    }
+    campaign.status = 'paused';
+    campaign.waitingReason = undefined;
+  });
+}
+
+/**
+ * Continue a paused campaign
+ */
+export async function resumeCampaign(id: string): Promise<Campaign> {
+  const campaign = await updateCampaign(id, (c) => {
+    if (c.status !== 'paused') {
+      throw new Error(`Cannot resume a campaign that is ${c.status}`);
+    }
+    c.status = 'running';
+    c.nextSendAt = new Date().toISOString();
+  });
+
+  wakeCampaignRunner();
+  return campaign;
+}
+
+/**
+ * Cancel a campaign; recipients not yet sent to are skipped
+ */
+export function cancelCampaign(id: string): Promise<Campaign> {
+  return updateCampaign(id, (campaign) => {
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      throw new Error(`Cannot cancel a campaign that is already ${campaign.status}`);
+    }
+    campaign.status = 'cancelled';
+    campaign.completedAt = new Date().toISOString();
+    campaign.waitingReason = undefined;
+    for (const recipient of campaign.recipients) {
+      if (recipient.status === 'pending') {
+        recipient.status = 'cancelled';
+      }
+    }
+  });
+}
+
+/**
+ * Per-status recipient counts
+ */
+export function countRecipients(campaign: Campaign): Record<RecipientStatus, number> & { total: number } {
+  const counts = { total: campaign.recipients.length, pending: 0, sending: 0, sent: 0, failed: 0, cancelled: 0 };
+  for (const recipient of campaign.recipients) {
+    counts[recipient.status]++;
+  }
+  return counts;
+}
+
+/**
+ * A send whose claim ran out may or may not have gone out (the claiming
+ * process stopped mid-send); don't repeat it
+ */
+async function recoverInterruptedSends(): Promise<void> {
+  const now = Date.now();
+
+  await changeCampaigns((campaigns) => {
+    for (const campaign of campaigns) {
+      for (const recipient of campaign.recipients) {
+        if (recipient.status === 'sending' && (!recipient.leaseUntil || new Date(recipient.leaseUntil).getTime() <= now)) {
+          recipient.status = 'failed';
+          recipient.error = 'Interrupted while sending (server stopped). Check Sent mail before retrying.';
+          recipient.claimedBy = undefined;
+          recipient.leaseUntil = undefined;
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Send the next pending message of a due campaign
+ */
+async function processCampaign(campaign: Campaign): Promise<void> {
+  const recipientIndex = campaign.recipients.findIndex((r) => r.status === 'pending');
+
+  if (recipientIndex === -1) {
+    const finished = await updateCampaign(campaign.id, (c) => {
+      if (c.status !== 'running') return;
+
+      if (c.recipients.some((r) => r.status === 'sending')) {
+        // Another process is still sending the last message
+        c.nextSendAt = new Date(Date.now() + MAX_IDLE_MS).toISOString();
+        return;
+      }
+      c.status = 'completed';
+      c.completedAt = new Date().toISOString();
+      c.waitingReason = undefined;
+    });
+    if (finished.status !== 'running') {
+      compiledTemplates.delete(campaign.id);
+    }
+    return;
+  }
+
+  const target = {
+    account: campaign.account,
+    scope: rateLimitScopeFor(campaign.apiKey ? findApiKey(campaign.apiKey) ?? { label: campaign.apiKey } : undefined)
+  };
+  if (isDryRunMode()) {
+    await updateCampaign(campaign.id, (c) => {
+      c.nextSendAt = new Date(Date.now() + MAX_IDLE_MS).toISOString();
+      c.waitingReason = 'Dry-run mode (GMAIL_MCP_DRY_RUN) is on; sending continues when it is turned off';
+    });
+    return;
+  }
+
+  const rateStatus = await canSendEmail(target);
+  if (!rateStatus.allowed) {
+    const opensAt = await getNextSendTime(target);
+    await updateCampaign(campaign.id, (c) => {
+      c.nextSendAt = opensAt.toISOString();
+      c.waitingReason = `Waiting for rate limit: ${rateStatus.reason}`;
+    });
+    return;
+  }
+
+  // Claim the recipient. Pausing or cancelling while we checked the limits
+  // wins, and so does another process sharing the store.
+  const current = await updateCampaign(campaign.id, (c) => {
+    if (c.status !== 'running' || c.recipients[recipientIndex].status !== 'pending') return;
+
+    if (c.recipients.some((r) => r.status === 'sending')) {
+      // Another process is sending the previous message; it sets the next send time
+      c.nextSendAt = new Date(Date.now() + MAX_IDLE_MS).toISOString();
+      return;
+    }
+    const r = c.recipients[recipientIndex];
+    r.status = 'sending';
+    r.claimedBy = WORKER_ID;
+    r.leaseUntil = new Date(Date.now() + SEND_LEASE_MS).toISOString();
+  });
+  const recipient = current.recipients[recipientIndex];
+  if (current.status !== 'running' || recipient.status !== 'sending' || recipient.claimedBy !== WORKER_ID) {
+    return;
+  }
+
+  const rendered = renderMergeRow(getCompiled(current), recipient.fields ?? { email: recipient.email });
+  const { email } = current;
+
+  // Someone may have been suppressed after the campaign started; that is final, not retried
+  const shared = [...(email.cc ?? []), ...(email.bcc ?? [])];
+  const violations = isRecipientPolicyActive()
+    ? checkRecipients({ recipients: [recipient.email, ...shared], perMessage: 1 + shared.length, account: current.account })
+    : [];
+  const logged = {
+    transport: 'campaign',
+    apiKey: current.apiKey,
+    tool: current.tool ?? 'start_campaign',
+    account: current.account,
+    to: recipient.email,
+    cc: email.cc,
+    bcc: email.bcc,
+    subject: rendered.subject,
+    bodyHash: hashBody(rendered.body, rendered.html)
+  };
+
+  if (violations.length > 0) {
+    const { error } = recipientPolicyError(violations);
+    logSend({ ...logged, status: 'refused', error });
+    await updateCampaign(current.id, (c) => {
+      const r = c.recipients[recipientIndex];
+      r.status = 'failed';
+      r.error = error;
+      r.claimedBy = undefined;
+      r.leaseUntil = undefined;
+      c.waitingReason = undefined;
+    });
+    return;
+  }
+  const result = await sendEmail({
+    to: recipient.email,
+    subject: rendered.subject,
+    body: rendered.body,
+    html: rendered.html,
+    cc: email.cc,
+    bcc: email.bcc,
+    account: current.account,
+    from: email.from,
+    replyTo: email.replyTo
+  });
+
+  if (result.success) {
+    await recordEmailSent(target);
+  }
+  logSend({
+    ...logged,
+    messageId: result.messageId,
+    threadId: result.threadId,
+    status: result.success ? 'sent' : 'failed',
+    error: result.error
+  });
+
+  await updateCampaign(current.id, (c) => {
+    const r = c.recipients[recipientIndex];
+    r.attempts += 1;
+    r.claimedBy = undefined;
+    r.leaseUntil = undefined;
+    c.waitingReason = undefined;
+
+    if (result.success) {
+      r.status = 'sent';
+      r.sentAt = new Date().toISOString();
+      r.messageId = result.messageId;
+      r.threadId = result.threadId;
+      r.error = undefined;
+      c.nextSendAt = new Date(Date.now() + getRandomDelay()).toISOString();
+    } else if (r.attempts >= MAX_ATTEMPTS) {
+      r.status = 'failed';
+      r.error = result.error;
+      c.nextSendAt = new Date(Date.now() + getRandomDelay()).toISOString();
+    } else {
+      r.status = 'pending';
+      r.error = result.error;
+      c.nextSendAt = new Date(Date.now() + RETRY_DELAY_MS).toISOString();
+    }
+  });
+}
+
+/**
+ * Advance every running campaign that is due, then schedule the next tick
+ */
+export async function runDueCampaigns(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  try {
+    await recoverInterruptedSends();
+
+    const now = Date.now();
+    const due = (await loadCampaigns()).filter((campaign) =>
+      campaign.status === 'running' && new Date(campaign.nextSendAt).getTime() <= now
+    );
+
+    for (const campaign of due) {
+      try {
+        await processCampaign(campaign);
+      } catch (error) {
+        console.error(`[Campaigns] Error processing campaign ${campaign.id}:`, error);
+        await updateCampaign(campaign.id, (c) => {
+          c.nextSendAt = new Date(Date.now() + RETRY_DELAY_MS).toISOString();
+          c.waitingReason = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        });
+      }
+    }
+  } catch (error) {
+    console.error('[Campaigns] Error processing campaigns:', error);
+  } finally {
+    tickInProgress = false;
+    await scheduleNextTick();
+  }
+}
+
+/**
+ * Sleep until the earliest running campaign is due (at most MAX_IDLE_MS)
+ */
+async function scheduleNextTick(): Promise<void> {
+  if (!runnerStarted) return;
+  if (runnerTimer) clearTimeout(runnerTimer);
+
+  let delayMs = MAX_IDLE_MS;
+  try {
+    const now = Date.now();
+    for (const campaign of await loadCampaigns()) {
+      if (campaign.status === 'running') {
+        delayMs = Math.min(delayMs, Math.max(0, new Date(campaign.nextSendAt).getTime() - now));
+      }
+    }
+  } catch (error) {
+    console.error('[Campaigns] Could not read campaigns:', error);
+  }
+
+  runnerTimer = setTimeout(() => { void runDueCampaigns(); }, delayMs);
+  // Don't keep the process alive just for the runner
+  runnerTimer.unref();
+}
+
+/**
+ * Run a tick soon (after a campaign is started or resumed)
+ */
+function wakeCampaignRunner(): void {
+  if (runnerStarted && !tickInProgress) {
+    void scheduleNextTick();
+  }
+}
+
+/**
+ * Start the background campaign runner (idempotent)
+ */
+export function startCampaignRunner(): void {
+  if (runnerStarted) return;
+  runnerStarted = true;
+
+  void runDueCampaigns();
+}
+
+/**
+ * Stop the background campaign runner
+ */
+export function stopCampaignRunner(): void {
+  runnerStarted = false;
+  if (runnerTimer) {
+    clearTimeout(runnerTimer);
+    runnerTimer = null;
+  }
+}
+
+/**
+ * Work through a campaign in the foreground until it finishes or has to wait
+ * for a rate limit (for one-shot runs such as the Apify actor). A campaign
+ * whose rate-limit wait is over continues where it stopped.
+ */
+export async function runCampaignUntilBlocked(id: string): Promise<Campaign> {
+  for (;;) {
+    const campaign = await getCampaign(id);
+    if (campaign.status !== 'running') {
+      return campaign;
+    }
+
+    const waitMs = new Date(campaign.nextSendAt).getTime() - Date.now();
+    if (waitMs > 0) {
+      // Rate-limit waits outlast the run; only the pacing delay is slept through
+      if (campaign.waitingReason) {
+        return campaign;
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    await processCampaign(await getCampaign(id));
+  }
+}
@@ -1,27 +1,131 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { readTokenFile, StoredCredentials } from './tokenFile.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * An API key accepted by the HTTP servers. Only the SHA-256 hash of the key is configured.
+ */
+export interface ApiKeyConfig {
+  label: string;
+  hash: string;
+  maxPerHour?: number;
+  maxPerDay?: number;
+}
+
+interface HttpConfig {
+  apiKeys: ApiKeyConfig[];
+  corsOrigins: string[];
+  // Externally visible base URL (e.g. https://my-app.up.railway.app); derived from the request when unset
+  publicUrl?: string;
+  oauth: {
+    // The built-in authorization server is enabled when an operator password is set
+    operatorPassword?: string;
+    accessTokenTtlSeconds: number;
+    refreshTokenTtlDays: number;
+  };
+  // Password for the /approvals page (defaults to the OAuth operator password)
+  approvalPassword?: string;
+}
+
+/**
+ * When a send must wait for a human: every send, sends to domains outside
+ * internalDomains, bulk tools, or sends to at least recipientThreshold people
+ */
+export type ApprovalPolicy = 'always' | 'external' | 'bulk' | 'threshold';
+
+/**
+ * A Gmail account the server can send from and read
+ */
+export interface AccountConfig {
+  id: string;
+  email: string;
+  // Default From display name and Reply-To for this account
+  displayName?: string;
+  replyTo?: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  // Per-account limits; the global MAX_EMAILS_PER_* apply when unset
+  maxPerHour?: number;
+  maxPerDay?: number;
+}
+
 interface Config {
+  // Credentials of the default account (kept for single-account callers)
   gmail: {
     clientId: string;
     clientSecret: string;
     refreshToken: string;
     userEmail: string;
   };
+  accounts: AccountConfig[];
+  defaultAccount: string;
   rateLimit: {
     maxPerHour: number;
     maxPerDay: number;
+    store: 'memory' | 'file' | 'apify';
+    apifyStoreName: string;
   };
   server: {
     port: number;
   };
+  storage: {
+    dataDir: string;
+  };
+  scheduler: {
+    pollIntervalSeconds: number;
+    missedJobPolicy: 'send' | 'expire';
+    missedJobGraceMinutes: number;
+  };
+  // GMAIL_MCP_DRY_RUN: build and validate every message but never send it
+  dryRun: boolean;
+  approval: {
+    // Empty: sends never wait for approval
+    policies: ApprovalPolicy[];
+    internalDomains: string[];
+    recipientThreshold: number;
+    expiryHours: number;
+    // Where approval requests (with a signed link) are emailed
+    notifyEmail?: string;
+    // API key labels allowed to use approve_send/reject_send ('stdio' for the local client)
+    approverKeys: string[];
+    linkSecret?: string;
+  };
+  // Base recipient policy; the policy file (re-read when it changes) overrides it
+  recipientPolicy: {
+    allow: string[];
+    block: string[];
+    // 0: no limit
+    maxRecipientsPerMessage: number;
+    blockSelf: boolean;
+    file?: string;
+    // Suppression list: one address per line
+    suppressionFile?: string;
+  };
+  attachments: {
+    // Where get_attachment saves files in stdio mode
+    downloadDir: string;
+    // Largest attachment get_attachment returns or extract_attachment_text reads
+    maxBytes: number;
+    // Most data extract_attachment_text decompresses from one PDF or DOCX
+    maxExtractedBytes: number;
+    // MIME types extract_attachment_text reads ("text/*" matches any text type)
+    textTypes: string[];
+  };
+  idempotency: {
+    // How long an idempotency key's result is kept for replay
+    keyTtlHours: number;
+    // Identical requests without a key inside this window need confirm_duplicate (0 disables)
+    duplicateWindowMinutes: number;
+  };
 }
 
 let config: Config | null = null;
+let httpConfig: HttpConfig | null = null;
 let apifyInput: Record<string, unknown> | null = null;
 
 /**
@@ -39,6 +143,8 @@ function loadApifyInputSync(): Record<string, unknown> | null {
         gmailClientSecret: process.env.ACTOR_INPUT_gmailClientSecret,
         gmailRefreshToken: process.env.ACTOR_INPUT_gmailRefreshToken,
         gmailUserEmail: process.env.ACTOR_INPUT_gmailUserEmail,
+        gmailDisplayName: process.env.ACTOR_INPUT_gmailDisplayName,
+        gmailReplyTo: process.env.ACTOR_INPUT_gmailReplyTo,
         maxEmailsPerHour: process.env.ACTOR_INPUT_maxEmailsPerHour,
         maxEmailsPerDay: process.env.ACTOR_INPUT_maxEmailsPerDay
       };
@@ -53,6 +159,8 @@ function loadApifyInputSync(): Record<string, unknown> | null {
         gmailClientSecret: process.env.APIFY_INPUT_gmailClientSecret,
         gmailRefreshToken: process.env.APIFY_INPUT_gmailRefreshToken,
         gmailUserEmail: process.env.APIFY_INPUT_gmailUserEmail,
+        gmailDisplayName: process.env.APIFY_INPUT_gmailDisplayName,
+        gmailReplyTo: process.env.APIFY_INPUT_gmailReplyTo,
         maxEmailsPerHour: process.env.APIFY_INPUT_maxEmailsPerHour,
         maxEmailsPerDay: process.env.APIFY_INPUT_maxEmailsPerDay
       };
@@ -94,7 +202,7 @@ function loadApifyInputSync(): Record<string, unknown> | null {
 /**
  * Load environment variables from .env file
  */
-function loadEnvFile(): void {
+export function loadEnvFile(): void {
   const envPath = path.resolve(__dirname, '..', '.env');
   
   if (fs.existsSync(envPath)) {
@@ -114,6 +222,125 @@ function loadEnvFile(): void {
   }
 }
 
+/**
+ * Read GMAIL_TOKEN_FILE, decrypted with GMAIL_TOKEN_KEY
+ */
+function loadTokenFile(): StoredCredentials | undefined {
+  const filePath = process.env.GMAIL_TOKEN_FILE;
+  if (!filePath) return undefined;
+
+  if (!process.env.GMAIL_TOKEN_KEY) {
+    throw new Error('GMAIL_TOKEN_FILE is set but GMAIL_TOKEN_KEY (the key printed by npm run auth) is missing');
+  }
+  return readTokenFile(path.resolve(filePath), process.env.GMAIL_TOKEN_KEY);
+}
+
+/**
+ * Pick the rate limit store: RATE_LIMIT_STORE if set, otherwise Apify's
+ * key-value store on the platform and a local file everywhere else
+ */
+function resolveRateLimitStore(): 'memory' | 'file' | 'apify' {
+  const configured = process.env.RATE_LIMIT_STORE;
+  if (configured === 'memory' || configured === 'file' || configured === 'apify') {
+    return configured;
+  }
+
+  const onApify = !!process.env.APIFY_IS_AT_HOME || !!process.env.APIFY_TOKEN || !!process.env.APIFY_ACTOR_ID;
+  return onApify ? 'apify' : 'file';
+}
+
+// Attachment types extract_attachment_text reads unless ATTACHMENT_TEXT_TYPES is set
+const DEFAULT_TEXT_TYPES = [
+  'text/*',
+  'application/json',
+  'application/xml',
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse APPROVAL_POLICY: off (default) or a comma-separated list of policies
+ */
+function parseApprovalPolicies(value: string | undefined): ApprovalPolicy[] {
+  const policies = splitList(value).map((policy) => policy.toLowerCase());
+  if (policies.length === 0 || (policies.length === 1 && policies[0] === 'off')) {
+    return [];
+  }
+
+  const unknown = policies.filter((policy) => !['always', 'external', 'bulk', 'threshold'].includes(policy));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown APPROVAL_POLICY: ${unknown.join(', ')} (use off, always, external, bulk or threshold)`);
+  }
+  return policies as ApprovalPolicy[];
+}
+
+function parseOptionalInt(value: unknown): number | undefined {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Load additional accounts from GMAIL_ACCOUNTS_FILE (JSON array) and from
+ * GMAIL_ACCOUNTS=id1,id2 with GMAIL_<ID>_* variables. Client id/secret fall
+ * back to the shared GMAIL_CLIENT_ID/GMAIL_CLIENT_SECRET.
+ */
+function loadExtraAccounts(shared: { clientId?: string; clientSecret?: string }): AccountConfig[] {
+  const accounts: AccountConfig[] = [];
+
+  const toAccount = (raw: Record<string, unknown>, source: string): AccountConfig => {
+    const account = {
+      id: String(raw.id ?? '').trim(),
+      email: String(raw.email ?? '').trim(),
+      displayName: raw.displayName ? String(raw.displayName) : undefined,
+      replyTo: raw.replyTo ? String(raw.replyTo) : undefined,
+      clientId: String(raw.clientId ?? shared.clientId ?? ''),
+      clientSecret: String(raw.clientSecret ?? shared.clientSecret ?? ''),
+      refreshToken: String(raw.refreshToken ?? ''),
+      maxPerHour: parseOptionalInt(raw.maxPerHour),
+      maxPerDay: parseOptionalInt(raw.maxPerDay)
+    };
+
+    const missing = (['id', 'email', 'clientId', 'clientSecret', 'refreshToken'] as const).filter((key) => !account[key]);
+    if (missing.length > 0) {
+      throw new Error(`Account "${account.id || '?'}" from ${source} is missing: ${missing.join(', ')}`);
+    }
+    return account;
+  };
+
+  const accountsFile = process.env.GMAIL_ACCOUNTS_FILE;
+  if (accountsFile) {
+    const filePath = path.resolve(accountsFile);
+    const entries = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, unknown>[];
+    if (!Array.isArray(entries)) {
+      throw new Error(`${filePath} must contain a JSON array of accounts`);
+    }
+    accounts.push(...entries.map((entry) => toAccount(entry, filePath)));
+  }
+
+  for (const id of (process.env.GMAIL_ACCOUNTS || '').split(',').map((value) => value.trim()).filter(Boolean)) {
+    const prefix = `GMAIL_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const env = (name: string) => process.env[prefix + name];
+
+    accounts.push(toAccount({
+      id,
+      email: env('USER_EMAIL'),
+      displayName: env('DISPLAY_NAME'),
+      replyTo: env('REPLY_TO'),
+      clientId: env('CLIENT_ID'),
+      clientSecret: env('CLIENT_SECRET'),
+      refreshToken: env('REFRESH_TOKEN'),
+      maxPerHour: env('MAX_PER_HOUR'),
+      maxPerDay: env('MAX_PER_DAY')
+    }, `${prefix}* environment variables`));
+  }
+
+  return accounts;
+}
+
 /**
  * Get configuration from environment variables or Apify input
  */
@@ -128,11 +355,14 @@ export function getConfig(): Config {
   // Try to load from Apify input first
   const input = loadApifyInputSync();
   
-  // Get credentials - prioritize Apify input, then env vars
-  const clientId = (input?.gmailClientId as string) || process.env.GMAIL_CLIENT_ID;
-  const clientSecret = (input?.gmailClientSecret as string) || process.env.GMAIL_CLIENT_SECRET;
-  const refreshToken = (input?.gmailRefreshToken as string) || process.env.GMAIL_REFRESH_TOKEN;
-  const userEmail = (input?.gmailUserEmail as string) || process.env.GMAIL_USER_EMAIL;
+  // Encrypted credentials written by `npm run auth -- --output encrypted`
+  const stored = loadTokenFile();
+
+  // Get credentials - prioritize Apify input, then env vars, then the token file
+  const clientId = (input?.gmailClientId as string) || process.env.GMAIL_CLIENT_ID || stored?.clientId;
+  const clientSecret = (input?.gmailClientSecret as string) || process.env.GMAIL_CLIENT_SECRET || stored?.clientSecret;
+  const refreshToken = (input?.gmailRefreshToken as string) || process.env.GMAIL_REFRESH_TOKEN || stored?.refreshToken;
+  const userEmail = (input?.gmailUserEmail as string) || process.env.GMAIL_USER_EMAIL || stored?.email;
 
   console.log('[Config] Credentials loaded:', {
     hasClientId: !!clientId,
@@ -142,25 +372,106 @@ export function getConfig(): Config {
     userEmail: userEmail ? userEmail.substring(0, 5) + '***' : 'none'
   });
 
-  if (!clientId || !clientSecret || !refreshToken || !userEmail) {
+  const accounts: AccountConfig[] = [];
+
+  if (clientId && clientSecret && refreshToken && userEmail) {
+    accounts.push({
+      id: process.env.GMAIL_ACCOUNT_ID || 'default',
+      email: userEmail,
+      displayName: (input?.gmailDisplayName as string) || process.env.GMAIL_DISPLAY_NAME || undefined,
+      replyTo: (input?.gmailReplyTo as string) || process.env.GMAIL_REPLY_TO || undefined,
+      clientId,
+      clientSecret,
+      refreshToken
+    });
+  }
+
+  accounts.push(...loadExtraAccounts({ clientId, clientSecret }));
+
+  if (accounts.length === 0) {
     throw new Error(
       'Missing required Gmail credentials. Please configure them in Apify Actor Input or set GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET, GMAIL_REFRESH_TOKEN, and GMAIL_USER_EMAIL environment variables.'
     );
   }
 
+  const duplicate = accounts.find((account, index) => accounts.findIndex((a) => a.id === account.id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate account id: ${duplicate.id}`);
+  }
+
+  const defaultAccountId = process.env.GMAIL_DEFAULT_ACCOUNT || accounts[0].id;
+  const defaultAccount = accounts.find((account) => account.id === defaultAccountId);
+  if (!defaultAccount) {
+    throw new Error(`GMAIL_DEFAULT_ACCOUNT "${defaultAccountId}" is not a configured account`);
+  }
+
+  // Domains that count as internal for the 'external' approval policy (default: the accounts' domains)
+  const configuredDomains = splitList(process.env.APPROVAL_INTERNAL_DOMAINS).map((domain) => domain.toLowerCase());
+  const internalDomains = configuredDomains.length > 0
+    ? configuredDomains
+    : [...new Set(accounts.map((account) => account.email.split('@')[1].toLowerCase()))];
+
+  const dataDir = path.resolve(process.env.GMAIL_MCP_DATA_DIR || path.join(process.cwd(), 'data'));
+  const attachmentMaxBytes = Math.round(parseFloat(process.env.ATTACHMENT_MAX_MB || '10') * 1024 * 1024);
+
   config = {
     gmail: {
-      clientId,
-      clientSecret,
-      refreshToken,
-      userEmail
+      clientId: defaultAccount.clientId,
+      clientSecret: defaultAccount.clientSecret,
+      refreshToken: defaultAccount.refreshToken,
+      userEmail: defaultAccount.email
     },
+    accounts,
+    defaultAccount: defaultAccount.id,
     rateLimit: {
       maxPerHour: parseInt((input?.maxEmailsPerHour as string) || process.env.MAX_EMAILS_PER_HOUR || '20', 10),
-      maxPerDay: parseInt((input?.maxEmailsPerDay as string) || process.env.MAX_EMAILS_PER_DAY || '50', 10)
+      maxPerDay: parseInt((input?.maxEmailsPerDay as string) || process.env.MAX_EMAILS_PER_DAY || '50', 10),
+      store: resolveRateLimitStore(),
+      apifyStoreName: process.env.RATE_LIMIT_APIFY_STORE || 'gmail-mcp-state'
     },
     server: {
       port: parseInt(process.env.PORT || '3000', 10)
+    },
+    storage: {
+      dataDir
+    },
+    scheduler: {
+      pollIntervalSeconds: parseInt(process.env.SCHEDULER_POLL_SECONDS || '30', 10),
+      // Jobs more than the grace period overdue at startup are either sent late or expired
+      missedJobPolicy: process.env.SCHEDULER_MISSED_JOB_POLICY === 'expire' ? 'expire' : 'send',
+      missedJobGraceMinutes: parseInt(process.env.SCHEDULER_MISSED_JOB_GRACE_MINUTES || '60', 10)
+    },
+    dryRun: ['1', 'true', 'yes'].includes((process.env.GMAIL_MCP_DRY_RUN || '').toLowerCase()),
+    approval: {
+      policies: parseApprovalPolicies(process.env.APPROVAL_POLICY),
+      internalDomains,
+      recipientThreshold: parseInt(process.env.APPROVAL_RECIPIENT_THRESHOLD || '10', 10),
+      expiryHours: parseInt(process.env.APPROVAL_EXPIRY_HOURS || '72', 10),
+      notifyEmail: process.env.APPROVAL_NOTIFY_EMAIL || undefined,
+      approverKeys: splitList(process.env.APPROVAL_APPROVER_KEYS),
+      linkSecret: process.env.APPROVAL_LINK_SECRET || undefined
+    },
+    recipientPolicy: {
+      allow: splitList(process.env.RECIPIENT_ALLOWLIST),
+      block: splitList(process.env.RECIPIENT_BLOCKLIST),
+      maxRecipientsPerMessage: parseInt(process.env.MAX_RECIPIENTS_PER_MESSAGE || '0', 10),
+      blockSelf: ['1', 'true', 'yes'].includes((process.env.BLOCK_SELF_SEND || '').toLowerCase()),
+      file: process.env.RECIPIENT_POLICY_FILE ? path.resolve(process.env.RECIPIENT_POLICY_FILE) : undefined,
+      suppressionFile: process.env.SUPPRESSION_LIST_FILE ? path.resolve(process.env.SUPPRESSION_LIST_FILE) : undefined
+    },
+    attachments: {
+      downloadDir: path.resolve(process.env.ATTACHMENT_DOWNLOAD_DIR || path.join(dataDir, 'attachments')),
+      maxBytes: attachmentMaxBytes,
+      maxExtractedBytes: process.env.ATTACHMENT_MAX_EXTRACTED_MB
+        ? Math.round(parseFloat(process.env.ATTACHMENT_MAX_EXTRACTED_MB) * 1024 * 1024)
+        : attachmentMaxBytes * 5,
+      textTypes: splitList(process.env.ATTACHMENT_TEXT_TYPES).length > 0
+        ? splitList(process.env.ATTACHMENT_TEXT_TYPES).map((type) => type.toLowerCase())
+        : DEFAULT_TEXT_TYPES
+    },
+    idempotency: {
+      keyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+      duplicateWindowMinutes: parseInt(process.env.DUPLICATE_WINDOW_MINUTES || '10', 10)
     }
   };
 
@@ -179,3 +490,51 @@ export function validateConfig(): boolean {
     return false;
   }
 }
+
+/**
+ * Parse API_KEYS: comma-separated "label:sha256hex[:maxPerHour[:maxPerDay]]" entries
+ */
+export function parseApiKeys(value: string | undefined): ApiKeyConfig[] {
+  if (!value) return [];
+
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [label, hash, maxPerHour, maxPerDay] = entry.split(':').map((part) => part.trim());
+
+    if (!label || !/^[0-9a-f]{64}$/i.test(hash ?? '')) {
+      throw new Error(`Invalid API_KEYS entry "${label || entry}": expected label:sha256hex[:maxPerHour[:maxPerDay]]`);
+    }
+
+    return {
+      label,
+      hash: hash.toLowerCase(),
+      maxPerHour: maxPerHour ? parseInt(maxPerHour, 10) : undefined,
+      maxPerDay: maxPerDay ? parseInt(maxPerDay, 10) : undefined
+    };
+  });
+}
+
+/**
+ * HTTP server settings (API keys, CORS, OAuth). Separate from getConfig() so the HTTP
+ * servers can enforce them even when Gmail credentials are missing.
+ */
+export function getHttpConfig(): HttpConfig {
+  if (httpConfig) {
+    return httpConfig;
+  }
+
+  loadEnvFile();
+
+  httpConfig = {
+    apiKeys: parseApiKeys(process.env.API_KEYS),
+    corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean),
+    publicUrl: process.env.PUBLIC_URL?.replace(/\/+$/, '') || undefined,
+    oauth: {
+      operatorPassword: process.env.OAUTH_OPERATOR_PASSWORD || undefined,
+      accessTokenTtlSeconds: parseInt(process.env.OAUTH_ACCESS_TOKEN_TTL_SECONDS || '3600', 10),
+      refreshTokenTtlDays: parseInt(process.env.OAUTH_REFRESH_TOKEN_TTL_DAYS || '30', 10)
+    },
+    approvalPassword: process.env.APPROVAL_PASSWORD || process.env.OAUTH_OPERATOR_PASSWORD || undefined
+  };
+
+  return httpConfig;
+}
@@ -0,0 +1,180 @@
+import { getAccount, formatFromAddress } from './accounts.js';
+import { createRawEmail, getGmailClient } from './gmail.js';
+import { parseMessage, getAttachmentData, EmailMessage } from './inbox.js';
+import { EmailAttachment } from './attachments.js';
+
+export interface DraftContent {
+  to?: string;
+  subject?: string;
+  body?: string;
+  html?: string;
+  cc?: string[];
+  bcc?: string[];
+  attachments?: EmailAttachment[];
+}
+
+export interface Draft {
+  id: string;
+  message: EmailMessage;
+}
+
+/**
+ * Create a draft in the Gmail Drafts folder
+ */
+export async function createDraft(content: DraftContent & { to: string; subject: string }, accountId?: string): Promise<Draft> {
+  const account = getAccount(accountId);
+  const gmail = getGmailClient(account.id);
+
+  const raw = createRawEmail({
+    ...content,
+    from: formatFromAddress(account),
+    replyTo: account.replyTo
+  });
+
+  const response = await gmail.users.drafts.create({
+    userId: 'me',
+    requestBody: { message: { raw } }
+  });
+
+  return getDraft(response.data.id as string, account.id);
+}
+
+/**
+ * List drafts, newest first, with their headers and snippet
+ */
+export async function listDrafts(options: {
+  query?: string;
+  maxResults?: number;
+  pageToken?: string;
+  account?: string;
+}): Promise<{
+  drafts: Array<{ id: string; messageId?: string; threadId?: string; to?: string; subject?: string; date?: string; snippet?: string }>;
+  nextPageToken?: string;
+}> {
+  const gmail = getGmailClient(options.account);
+
+  const list = await gmail.users.drafts.list({
+    userId: 'me',
+    q: options.query,
+    maxResults: options.maxResults ?? 10,
+    pageToken: options.pageToken
+  });
+
+  const drafts = await Promise.all(
+    (list.data.drafts ?? []).map(async ({ id }) => {
+      const { message } = await getDraft(id as string, options.account);
+      return {
+        id: id as string,
+        messageId: message.id,
+        threadId: message.threadId,
+        to: message.headers.to,
+        subject: message.headers.subject,
+        date: message.headers.date,
+        snippet: message.snippet
+      };
+    })
+  );
+
+  return {
+    drafts,
+    nextPageToken: list.data.nextPageToken ?? undefined
+  };
+}
+
+/**
+ * Fetch a draft with its decoded message
+ */
+export async function getDraft(draftId: string, account?: string): Promise<Draft> {
+  const gmail = getGmailClient(account);
+
+  const response = await gmail.users.drafts.get({
+    userId: 'me',
+    id: draftId,
+    format: 'full'
+  });
+
+  return {
+    id: response.data.id as string,
+    message: parseMessage(response.data.message ?? {})
+  };
+}
+
+/**
+ * Update a draft. Fields that are not given keep their current values,
+ * including existing attachments and threading headers.
+ */
+export async function updateDraft(draftId: string, changes: DraftContent, accountId?: string): Promise<Draft> {
+  const account = getAccount(accountId);
+  const gmail = getGmailClient(account.id);
+  const { message } = await getDraft(draftId, account.id);
+
+  let attachments = changes.attachments;
+  if (!attachments) {
+    attachments = [];
+    for (const attachment of message.attachments) {
+      if (!attachment.attachmentId) continue;
+      attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        data: await getAttachmentData(message.id, attachment.attachmentId, account.id)
+      });
+    }
+  }
+
+  // A new plain-text body replaces the whole body, so only carry HTML over when text wasn't changed
+  const html = changes.html ?? (changes.body === undefined ? message.body.html : undefined);
+
+  const raw = createRawEmail({
+    from: formatFromAddress(account),
+    to: changes.to ?? message.headers.to ?? '',
+    subject: changes.subject ?? message.headers.subject ?? '',
+    body: changes.body ?? message.body.text,
+    html,
+    // Existing headers are passed whole; the message builder parses quoted names with commas
+    cc: changes.cc ?? (message.headers.cc ? [message.headers.cc] : []),
+    bcc: changes.bcc ?? (message.headers.bcc ? [message.headers.bcc] : []),
+    attachments,
+    replyTo: account.replyTo,
+    inReplyTo: message.headers.inReplyTo,
+    references: message.headers.references
+  });
+
+  await gmail.users.drafts.update({
+    userId: 'me',
+    id: draftId,
+    requestBody: {
+      message: { raw, threadId: message.threadId }
+    }
+  });
+
+  return getDraft(draftId, account.id);
+}
+
+/**
+ * Send an existing draft
+ */
+export async function sendDraft(draftId: string, account?: string): Promise<{ messageId?: string; threadId?: string }> {
+  const gmail = getGmailClient(account);
+
+  const response = await gmail.users.drafts.send({
+    userId: 'me',
+    requestBody: { id: draftId }
+  });
+
+  return {
+    messageId: response.data.id ?? undefined,
+    threadId: response.data.threadId ?? undefined
+  };
+}
+
+/**
+ * Permanently delete a draft
+ */
+export async function deleteDraft(draftId: string, account?: string): Promise<void> {
+  const gmail = getGmailClient(account);
+
+  await gmail.users.drafts.delete({
+    userId: 'me',
+    id: draftId
+  });
+}
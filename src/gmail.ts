@@ -1,119 +1,129 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { getAccount, formatFromAddress } from './accounts.js';
+import { EmailAttachment } from './attachments.js';
 import { getConfig } from './config.js';
+import { buildMessage, describeMessage, MessageOptions, MessagePreview } from './messageBuilder.js';
 
-let oauth2Client: OAuth2Client | null = null;
+// One client per account so each keeps its own cached access token
+const oauth2Clients = new Map<string, OAuth2Client>();
 
 /**
- * Initialize and get the OAuth2 client for Gmail API
+ * Initialize and get the OAuth2 client for an account (default account when omitted)
  */
-export function getOAuth2Client(): OAuth2Client {
-  if (oauth2Client) {
-    return oauth2Client;
+export function getOAuth2Client(accountId?: string): OAuth2Client {
+  const account = getAccount(accountId);
+  const cached = oauth2Clients.get(account.id);
+  if (cached) {
+    return cached;
   }
 
-  const config = getConfig();
-
-  oauth2Client = new google.auth.OAuth2(
-    config.gmail.clientId,
-    config.gmail.clientSecret,
-    'https://developers.google.com/oauthplayground' // Redirect URI for getting refresh token
-  );
+  // Only refreshes tokens, so no redirect URI is needed (npm run auth handles the consent flow)
+  const oauth2Client = new google.auth.OAuth2(account.clientId, account.clientSecret);
 
   oauth2Client.setCredentials({
-    refresh_token: config.gmail.refreshToken
+    refresh_token: account.refreshToken
   });
 
+  oauth2Clients.set(account.id, oauth2Client);
   return oauth2Client;
 }
 
 /**
- * Get Gmail API client
+ * Get Gmail API client for an account (default account when omitted)
  */
-export function getGmailClient() {
-  const auth = getOAuth2Client();
+export function getGmailClient(accountId?: string) {
+  const auth = getOAuth2Client(accountId);
   return google.gmail({ version: 'v1', auth });
 }
 
 /**
- * Create a raw email in base64 format for Gmail API
+ * Create a raw email in base64url format for the Gmail API (see buildMessage)
  */
-export function createRawEmail(options: {
-  to: string;
-  from: string;
-  subject: string;
-  body: string;
-  cc?: string[];
-  bcc?: string[];
-}): string {
-  const { to, from, subject, body, cc, bcc } = options;
-
-  const messageParts = [
-    `From: ${from}`,
-    `To: ${to}`,
-  ];
-
-  if (cc && cc.length > 0) {
-    messageParts.push(`Cc: ${cc.join(', ')}`);
-  }
-
-  if (bcc && bcc.length > 0) {
-    messageParts.push(`Bcc: ${bcc.join(', ')}`);
-  }
-
-  messageParts.push(
-    `Subject: ${subject}`,
-    'MIME-Version: 1.0',
-    'Content-Type: text/plain; charset="UTF-8"',
-    '',
-    body
-  );
-
-  const message = messageParts.join('\r\n');
-
-  // Encode to base64 URL-safe format
-  const encodedMessage = Buffer.from(message)
+export function createRawEmail(options: MessageOptions): string {
+  return Buffer.from(buildMessage(options))
     .toString('base64')
     .replace(/\+/g, '-')
     .replace(/\//g, '_')
     .replace(/=+$/, '');
+}
 
-  return encodedMessage;
+export type SendResult = {
+  success: boolean;
+  messageId?: string;
+  threadId?: string;
+  error?: string;
+  // Set when the message was only built (dry_run or GMAIL_MCP_DRY_RUN), not sent
+  dryRun?: boolean;
+  preview?: MessagePreview;
+};
+
+/**
+ * Whether sends are globally disabled (GMAIL_MCP_DRY_RUN)
+ */
+export function isDryRunMode(): boolean {
+  return getConfig().dryRun;
 }
 
 /**
- * Send an email using Gmail API
+ * Send an email using Gmail API. `from` must already be validated (see
+ * resolveSender); the account's default From and Reply-To are used otherwise.
+ * In a dry run the exact message is built and returned decoded instead of sent.
  */
 export async function sendEmail(options: {
   to: string;
   subject: string;
-  body: string;
+  body?: string;
+  html?: string;
   cc?: string[];
   bcc?: string[];
-}): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  attachments?: EmailAttachment[];
+  inReplyTo?: string;
+  references?: string;
+  threadId?: string;
+  account?: string;
+  from?: string;
+  replyTo?: string;
+  dryRun?: boolean;
+}): Promise<SendResult> {
   try {
-    const config = getConfig();
-    const gmail = getGmailClient();
+    const account = getAccount(options.account);
 
     const raw = createRawEmail({
       to: options.to,
-      from: config.gmail.userEmail,
+      from: options.from ?? formatFromAddress(account),
       subject: options.subject,
       body: options.body,
+      html: options.html,
       cc: options.cc,
-      bcc: options.bcc
+      bcc: options.bcc,
+      attachments: options.attachments,
+      replyTo: options.replyTo ?? account.replyTo,
+      inReplyTo: options.inReplyTo,
+      references: options.references
     });
 
+    if (options.dryRun || isDryRunMode()) {
+      return {
+        success: true,
+        dryRun: true,
+        preview: describeMessage(Buffer.from(raw, 'base64url').toString('utf-8'))
+      };
+    }
+
+    const gmail = getGmailClient(account.id);
     const response = await gmail.users.messages.send({
       userId: 'me',
       requestBody: {
-        raw
+        raw,
+        threadId: options.threadId
       }
     });
 
     return {
       success: true,
-      messageId: response.data.id ?? undefined
+      messageId: response.data.id ?? undefined,
+      threadId: response.data.threadId ?? undefined
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -128,9 +138,9 @@ export async function sendEmail(options: {
 /**
  * Verify Gmail API connection
  */
-export async function verifyGmailConnection(): Promise<boolean> {
+export async function verifyGmailConnection(accountId?: string): Promise<boolean> {
   try {
-    const gmail = getGmailClient();
+    const gmail = getGmailClient(accountId);
     await gmail.users.getProfile({ userId: 'me' });
     return true;
   } catch (error) {
@@ -0,0 +1,135 @@
+import { getConfig } from './config.js';
+import { getOAuth2Client } from './gmail.js';
+
+/**
+ * Gmail API access, grouped into feature sets. `npm run auth` requests the
+ * scopes for GMAIL_SCOPES (default: send,read,compose), and at startup the server
+ * looks up what each account's refresh token was actually granted so tools
+ * the token can't use are hidden instead of failing with a 403.
+ */
+
+export const GMAIL_FEATURES = ['send', 'read', 'compose', 'modify'] as const;
+export type GmailFeature = (typeof GMAIL_FEATURES)[number];
+
+const GMAIL_SCOPE_PREFIX = 'https://www.googleapis.com/auth/';
+const FULL_ACCESS_SCOPE = 'https://mail.google.com/';
+
+// The scope each feature set requests
+export const GMAIL_FEATURE_SCOPES: Record<GmailFeature, string> = {
+  send: `${GMAIL_SCOPE_PREFIX}gmail.send`,
+  read: `${GMAIL_SCOPE_PREFIX}gmail.readonly`,
+  compose: `${GMAIL_SCOPE_PREFIX}gmail.compose`,
+  modify: `${GMAIL_SCOPE_PREFIX}gmail.modify`
+};
+
+// Broader scopes also cover a feature (gmail.modify can read, send and manage drafts)
+const SCOPES_COVERING: Record<GmailFeature, string[]> = {
+  send: ['gmail.send', 'gmail.compose', 'gmail.modify'].map((scope) => GMAIL_SCOPE_PREFIX + scope),
+  read: ['gmail.readonly', 'gmail.modify'].map((scope) => GMAIL_SCOPE_PREFIX + scope),
+  compose: ['gmail.compose', 'gmail.modify'].map((scope) => GMAIL_SCOPE_PREFIX + scope),
+  modify: [`${GMAIL_SCOPE_PREFIX}gmail.modify`]
+};
+
+export const DEFAULT_GMAIL_FEATURES: GmailFeature[] = ['send', 'read', 'compose'];
+
+/**
+ * Parse GMAIL_SCOPES: a comma-separated list of feature sets, or "all"
+ */
+export function parseGmailFeatures(value: string | undefined): GmailFeature[] {
+  const requested = (value || '').split(',').map((feature) => feature.trim().toLowerCase()).filter(Boolean);
+  if (requested.length === 0) {
+    return [...DEFAULT_GMAIL_FEATURES];
+  }
+  if (requested.length === 1 && requested[0] === 'all') {
+    return [...GMAIL_FEATURES];
+  }
+
+  const unknown = requested.filter((feature) => !(GMAIL_FEATURES as readonly string[]).includes(feature));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown GMAIL_SCOPES feature: ${unknown.join(', ')} (use ${GMAIL_FEATURES.join(', ')} or all)`);
+  }
+  return [...new Set(requested)] as GmailFeature[];
+}
+
+/**
+ * OAuth scopes to request for a set of features
+ */
+export function gmailScopesFor(features: GmailFeature[]): string[] {
+  return [...new Set(features.map((feature) => GMAIL_FEATURE_SCOPES[feature]))];
+}
+
+/**
+ * Whether a set of granted OAuth scopes covers a feature
+ */
+export function scopesAllow(granted: string[], feature: GmailFeature): boolean {
+  return granted.includes(FULL_ACCESS_SCOPE) || SCOPES_COVERING[feature].some((scope) => granted.includes(scope));
+}
+
+// Granted scopes per account id, filled in by loadGrantedScopes()
+const grantedScopes = new Map<string, string[]>();
+
+/**
+ * Look up the scopes each account's refresh token was granted. Accounts whose
+ * token can't be refreshed stay unknown, and unknown accounts are assumed to
+ * allow everything.
+ */
+export async function loadGrantedScopes(): Promise<void> {
+  for (const account of getConfig().accounts) {
+    try {
+      const client = getOAuth2Client(account.id);
+      const { token } = await client.getAccessToken();
+      // The token endpoint returns the granted scopes with each access token
+      let scope = client.credentials.scope;
+      if (!scope && token) {
+        scope = (await client.getTokenInfo(token)).scopes.join(' ');
+      }
+      if (scope) {
+        grantedScopes.set(account.id, scope.split(/\s+/).filter(Boolean));
+        console.error(`[Scopes] ${account.id}: ${grantedFeatures(account.id)?.join(', ') || 'no Gmail features'}`);
+      }
+    } catch (error) {
+      console.error(`[Scopes] Could not check the scopes granted to ${account.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+function grantedTo(accountId?: string): string[] | undefined {
+  if (grantedScopes.size === 0) {
+    return undefined;
+  }
+  return grantedScopes.get(accountId || getConfig().defaultAccount);
+}
+
+/**
+ * Features an account's token allows, or undefined when not known
+ */
+export function grantedFeatures(accountId?: string): GmailFeature[] | undefined {
+  const granted = grantedTo(accountId);
+  return granted ? GMAIL_FEATURES.filter((feature) => scopesAllow(granted, feature)) : undefined;
+}
+
+/**
+ * Features an account is known to lack (empty when its scopes are unknown)
+ */
+export function missingFeatures(features: GmailFeature[], accountId?: string): GmailFeature[] {
+  const granted = grantedTo(accountId);
+  return granted ? features.filter((feature) => !scopesAllow(granted, feature)) : [];
+}
+
+/**
+ * Whether any configured account can use these features (tools that no
+ * account can use are hidden)
+ */
+export function isFeatureAvailable(features: GmailFeature[]): boolean {
+  if (features.length === 0 || grantedScopes.size === 0) {
+    return true;
+  }
+
+  let accounts: string[];
+  try {
+    accounts = getConfig().accounts.map((account) => account.id);
+  } catch {
+    return true;
+  }
+  return accounts.some((accountId) => missingFeatures(features, accountId).length === 0);
+}
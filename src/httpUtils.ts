@@ -0,0 +1,26 @@
+import http from 'http';
+
+// Large enough for a request carrying base64 attachments up to Gmail's 25 MB limit
+const MAX_BODY_BYTES = 40 * 1024 * 1024;
+
+/**
+ * Read a request body as text
+ */
+export function readRequestBody(req: http.IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
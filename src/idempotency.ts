@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import { getConfig } from './config.js';
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from './storage.js';
+
+/**
+ * Protection against sending the same email twice when a client retries a
+ * tool call. A request with an idempotency key is answered from the stored
+ * result of the first successful call with that key; a request without one is
+ * flagged when an identical request succeeded within the duplicate window.
+ * A key is reserved in the store while its first request runs, so processes
+ * sharing the store can't both send it.
+ */
+
+export type StoredResult = { success: boolean; [key: string]: unknown };
+
+export interface IdempotencyRecord {
+  // 'key': an idempotency key's result; 'pending': a key whose first request is
+  // still running; 'recent': fingerprint of a recent send
+  kind: 'key' | 'pending' | 'recent';
+  // Caller (API key label, '' for local callers) so keys can't collide across callers
+  owner: string;
+  id: string;
+  tool: string;
+  requestHash: string;
+  result: StoredResult;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Persistence for idempotency records (same backends as the rate limiter)
+ */
+export interface IdempotencyStore {
+  load(): Promise<IdempotencyRecord[]>;
+  // Load, change and save as one step (under a lock where the store is shared)
+  update(change: (records: IdempotencyRecord[]) => IdempotencyRecord[]): Promise<void>;
+}
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  let records: IdempotencyRecord[] = [];
+
+  return {
+    async load() {
+      return [...records];
+    },
+    async update(change) {
+      records = [...change([...records])];
+    }
+  };
+}
+
+export function createFileIdempotencyStore(filePath: string = getDataPath('idempotency.json')): IdempotencyStore {
+  return {
+    async load() {
+      return readJsonFile<IdempotencyRecord[]>(filePath, []);
+    },
+    async update(change) {
+      withFileLock(filePath, () => {
+        writeJsonFile(filePath, change(readJsonFile<IdempotencyRecord[]>(filePath, [])));
+      });
+    }
+  };
+}
+
+/**
+ * Apify key-value store, so keys survive across Actor runs
+ */
+export function createApifyIdempotencyStore(storeName: string, key = 'IDEMPOTENCY_STATE'): IdempotencyStore {
+  const openStore = async () => {
+    const { Actor } = await import('apify');
+    return Actor.openKeyValueStore(storeName);
+  };
+
+  return {
+    async load() {
+      const store = await openStore();
+      return (await store.getValue<IdempotencyRecord[]>(key)) ?? [];
+    },
+    async update(change) {
+      const store = await openStore();
+      await store.setValue(key, change((await store.getValue<IdempotencyRecord[]>(key)) ?? []));
+    }
+  };
+}
+
+// A reservation outlives any real send; after it, the reserving process is assumed gone
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+let store: IdempotencyStore | null = null;
+// Serializes read-modify-write cycles within this process
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Override the store (e.g. in tests or custom deployments)
+ */
+export function setIdempotencyStore(next: IdempotencyStore): void {
+  store = next;
+}
+
+function getStore(): IdempotencyStore {
+  if (!store) {
+    const config = getConfig();
+    switch (config.rateLimit.store) {
+      case 'memory':
+        store = createMemoryIdempotencyStore();
+        break;
+      case 'apify':
+        store = createApifyIdempotencyStore(config.rateLimit.apifyStoreName);
+        break;
+      default:
+        store = createFileIdempotencyStore();
+    }
+  }
+  return store;
+}
+
+async function loadActive(): Promise<IdempotencyRecord[]> {
+  const now = Date.now();
+  return (await getStore().load()).filter((record) => record.expiresAt > now);
+}
+
+/**
+ * Change the unexpired records as one step (expired ones are dropped)
+ */
+function changeRecords<T>(change: (records: IdempotencyRecord[]) => { records: IdempotencyRecord[]; result: T }): Promise<T> {
+  let result: T | undefined;
+  const write = pendingWrite.then(() => getStore().update((records) => {
+    const now = Date.now();
+    const next = change(records.filter((record) => record.expiresAt > now));
+    result = next.result;
+    return next.records;
+  }));
+  pendingWrite = write.catch(() => undefined);
+  return write.then(() => result as T);
+}
+
+/**
+ * JSON with sorted object keys, so argument order doesn't change the hash
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of a tool call's content (the retry-control arguments are left out)
+ */
+export function hashRequest(tool: string, args: Record<string, unknown>): string {
+  const { idempotency_key, confirm_duplicate, ...content } = args;
+  return crypto.createHash('sha256').update(`${tool}\n${stableStringify(content)}`).digest('hex');
+}
+
+export type SendCheck =
+  | { status: 'new' }
+  | { status: 'replay'; result: StoredResult }
+  | { status: 'blocked'; result: StoredResult };
+
+/**
+ * Decide whether a send request should run. Call finishSend() afterwards when it does.
+ */
+export async function checkSend(request: {
+  owner: string;
+  tool: string;
+  args: Record<string, unknown>;
+}): Promise<SendCheck> {
+  const key = request.args.idempotency_key as string | undefined;
+  const requestHash = hashRequest(request.tool, request.args);
+
+  if (key) {
+    // Checked and reserved in one step, so only one caller gets to send
+    return changeRecords((records): { records: IdempotencyRecord[]; result: SendCheck } => {
+      const existing = records.find((r) => r.kind !== 'recent' && r.owner === request.owner && r.id === key);
+
+      if (existing?.kind === 'pending') {
+        return {
+          records,
+          result: {
+            status: 'blocked',
+            result: {
+              success: false,
+              error: `A request with idempotency_key "${key}" is still being processed. Retry shortly to get its result.`
+            }
+          }
+        };
+      }
+      if (existing && existing.requestHash !== requestHash) {
+        return {
+          records,
+          result: {
+            status: 'blocked',
+            result: {
+              success: false,
+              error: `idempotency_key "${key}" was already used for a different request (${existing.tool}). Use a new key for a new email.`
+            }
+          }
+        };
+      }
+      if (existing) {
+        return { records, result: { status: 'replay', result: existing.result } };
+      }
+
+      const now = Date.now();
+      const reservation: IdempotencyRecord = {
+        kind: 'pending', owner: request.owner, id: key, tool: request.tool, requestHash, result: { success: false },
+        createdAt: now, expiresAt: now + PENDING_TTL_MS
+      };
+      return { records: [...records, reservation], result: { status: 'new' } };
+    });
+  }
+
+  if (request.args.confirm_duplicate !== true) {
+    const records = await loadActive();
+    const duplicate = records.find((r) => r.kind === 'recent' && r.owner === request.owner && r.requestHash === requestHash);
+
+    if (duplicate) {
+      const minutesAgo = Math.max(1, Math.round((Date.now() - duplicate.createdAt) / 60000));
+      return {
+        status: 'blocked',
+        result: {
+          success: false,
+          duplicate: true,
+          error: `An identical ${request.tool} request succeeded ${minutesAgo} minute(s) ago. ` +
+            'Nothing was sent. Call again with confirm_duplicate: true to send it anyway; pass an idempotency_key to make retries safe.',
+          original: {
+            sent_at: new Date(duplicate.createdAt).toISOString(),
+            result: duplicate.result
+          }
+        }
+      };
+    }
+  }
+
+  return { status: 'new' };
+}
+
+/**
+ * Record the outcome of a request that checkSend() let through and release its
+ * key. Only successful results are stored, so a failed send can be retried
+ * with the same key.
+ */
+export async function finishSend(
+  request: { owner: string; tool: string; args: Record<string, unknown> },
+  result: StoredResult
+): Promise<void> {
+  const key = request.args.idempotency_key as string | undefined;
+
+  try {
+    const { idempotency } = getConfig();
+    const now = Date.now();
+    const requestHash = hashRequest(request.tool, request.args);
+    const entries: IdempotencyRecord[] = [];
+
+    if (result.success && key) {
+      entries.push({
+        kind: 'key', owner: request.owner, id: key, tool: request.tool, requestHash, result,
+        createdAt: now, expiresAt: now + idempotency.keyTtlHours * 60 * 60 * 1000
+      });
+    }
+    if (result.success && idempotency.duplicateWindowMinutes > 0) {
+      entries.push({
+        kind: 'recent', owner: request.owner, id: requestHash, tool: request.tool, requestHash, result,
+        createdAt: now, expiresAt: now + idempotency.duplicateWindowMinutes * 60 * 1000
+      });
+    }
+    if (entries.length === 0 && !key) return;
+
+    // The key's reservation is replaced by its result (or released after a failure)
+    const reserved = (r: IdempotencyRecord) => r.kind === 'pending' && r.owner === request.owner && r.id === key;
+    await changeRecords((records) => ({
+      records: [...records.filter((r) => !reserved(r)), ...entries],
+      result: undefined
+    }));
+  } catch (error) {
+    // The email went out; failing to remember it must not turn the call into an error
+    console.error('[Idempotency] Failed to record send:', error);
+  }
+}
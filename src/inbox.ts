@@ -0,0 +1,306 @@
+import { gmail_v1 } from 'googleapis';
+import { getGmailClient } from './gmail.js';
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+export interface EmailSummary {
+  id: string;
+  threadId?: string;
+  from?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+  snippet?: string;
+  labelIds?: string[];
+}
+
+export interface AttachmentInfo {
+  attachmentId?: string;
+  partId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface EmailMessage {
+  id: string;
+  threadId?: string;
+  labelIds?: string[];
+  snippet?: string;
+  headers: {
+    from?: string;
+    to?: string;
+    cc?: string;
+    bcc?: string;
+    replyTo?: string;
+    subject?: string;
+    date?: string;
+    messageId?: string;
+    inReplyTo?: string;
+    references?: string;
+  };
+  body: {
+    text?: string;
+    html?: string;
+  };
+  attachments: AttachmentInfo[];
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?...?=) in a header value
+ */
+export function decodeMimeWords(value: string): string {
+  // Whitespace between adjacent encoded words is not significant
+  const joined = value.replace(/(\?=)\s+(=\?)/g, '$1$2');
+
+  return joined.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+    try {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+            text
+              .replace(/_/g, ' ')
+              .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+            'latin1'
+          );
+      return new TextDecoder(charset.split('*')[0]).decode(bytes);
+    } catch {
+      return match;
+    }
+  });
+}
+
+/**
+ * Get a decoded header value from a message part (case-insensitive)
+ */
+export function getHeader(part: MessagePart | undefined, name: string): string | undefined {
+  const header = part?.headers?.find((h) => h.name?.toLowerCase() === name.toLowerCase());
+  return header?.value ? decodeMimeWords(header.value) : undefined;
+}
+
+/**
+ * Decode a base64url part body using the charset from its Content-Type
+ */
+function decodePartBody(part: MessagePart): string {
+  const data = Buffer.from(part.body?.data ?? '', 'base64url');
+  const contentType = getHeader(part, 'Content-Type') ?? '';
+  const charset = /charset="?([^";\s]+)"?/i.exec(contentType)?.[1] ?? 'utf-8';
+
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    return data.toString('utf-8');
+  }
+}
+
+/**
+ * Walk the MIME tree collecting the first text/plain and text/html bodies and all attachments
+ */
+export function extractMessageContent(payload: MessagePart | undefined): {
+  text?: string;
+  html?: string;
+  attachments: AttachmentInfo[];
+} {
+  const result: { text?: string; html?: string; attachments: AttachmentInfo[] } = { attachments: [] };
+
+  const walk = (part: MessagePart | undefined): void => {
+    if (!part) return;
+
+    const mimeType = part.mimeType ?? '';
+    const disposition = getHeader(part, 'Content-Disposition') ?? '';
+    const isAttachment = !!part.filename || !!part.body?.attachmentId || /^attachment/i.test(disposition);
+
+    if (isAttachment && !mimeType.startsWith('multipart/')) {
+      result.attachments.push({
+        attachmentId: part.body?.attachmentId ?? undefined,
+        partId: part.partId ?? undefined,
+        filename: part.filename || 'unnamed',
+        mimeType: mimeType || 'application/octet-stream',
+        size: part.body?.size ?? 0
+      });
+      return;
+    }
+
+    if (mimeType === 'text/plain' && result.text === undefined && part.body?.data) {
+      result.text = decodePartBody(part);
+    } else if (mimeType === 'text/html' && result.html === undefined && part.body?.data) {
+      result.html = decodePartBody(part);
+    }
+
+    for (const child of part.parts ?? []) {
+      walk(child);
+    }
+  };
+
+  walk(payload);
+  return result;
+}
+
+/**
+ * Search the mailbox using Gmail query syntax
+ */
+export async function searchEmails(options: {
+  query?: string;
+  labelIds?: string[];
+  maxResults?: number;
+  pageToken?: string;
+  account?: string;
+}): Promise<{ messages: EmailSummary[]; nextPageToken?: string; resultSizeEstimate?: number }> {
+  const gmail = getGmailClient(options.account);
+
+  const list = await gmail.users.messages.list({
+    userId: 'me',
+    q: options.query,
+    labelIds: options.labelIds,
+    maxResults: options.maxResults ?? 10,
+    pageToken: options.pageToken
+  });
+
+  const messages = await Promise.all(
+    (list.data.messages ?? []).map(async ({ id }) => {
+      const response = await gmail.users.messages.get({
+        userId: 'me',
+        id: id as string,
+        format: 'metadata',
+        metadataHeaders: ['From', 'To', 'Subject', 'Date']
+      });
+      const message = response.data;
+
+      return {
+        id: message.id as string,
+        threadId: message.threadId ?? undefined,
+        from: getHeader(message.payload, 'From'),
+        to: getHeader(message.payload, 'To'),
+        subject: getHeader(message.payload, 'Subject'),
+        date: getHeader(message.payload, 'Date'),
+        snippet: message.snippet ?? undefined,
+        labelIds: message.labelIds ?? undefined
+      };
+    })
+  );
+
+  return {
+    messages,
+    nextPageToken: list.data.nextPageToken ?? undefined,
+    resultSizeEstimate: list.data.resultSizeEstimate ?? undefined
+  };
+}
+
+/**
+ * Convert a full-format Gmail message into an EmailMessage
+ */
+export function parseMessage(message: gmail_v1.Schema$Message): EmailMessage {
+  const { payload } = message;
+  const content = extractMessageContent(payload);
+
+  return {
+    id: message.id as string,
+    threadId: message.threadId ?? undefined,
+    labelIds: message.labelIds ?? undefined,
+    snippet: message.snippet ?? undefined,
+    headers: {
+      from: getHeader(payload, 'From'),
+      to: getHeader(payload, 'To'),
+      cc: getHeader(payload, 'Cc'),
+      bcc: getHeader(payload, 'Bcc'),
+      replyTo: getHeader(payload, 'Reply-To'),
+      subject: getHeader(payload, 'Subject'),
+      date: getHeader(payload, 'Date'),
+      messageId: getHeader(payload, 'Message-ID'),
+      inReplyTo: getHeader(payload, 'In-Reply-To'),
+      references: getHeader(payload, 'References')
+    },
+    body: {
+      text: content.text,
+      html: content.html
+    },
+    attachments: content.attachments
+  };
+}
+
+/**
+ * Download an attachment's content
+ */
+export async function getAttachmentData(messageId: string, attachmentId: string, account?: string): Promise<Buffer> {
+  const gmail = getGmailClient(account);
+
+  const response = await gmail.users.messages.attachments.get({
+    userId: 'me',
+    messageId,
+    id: attachmentId
+  });
+
+  return Buffer.from(response.data.data ?? '', 'base64url');
+}
+
+function findPart(part: MessagePart | undefined, partId: string): MessagePart | undefined {
+  if (!part) return undefined;
+  if (part.partId === partId) return part;
+  for (const child of part.parts ?? []) {
+    const found = findPart(child, partId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Find an attachment of a message by attachment id, part id or filename and
+ * download it. Small attachments that Gmail sends inline (no attachment id)
+ * are read from the message itself. Attachments over maxBytes are refused
+ * before downloading.
+ */
+export async function getAttachment(
+  messageId: string,
+  selector: { attachmentId?: string; partId?: string; filename?: string },
+  options: { maxBytes?: number; account?: string } = {}
+): Promise<{ attachment: AttachmentInfo; data: Buffer }> {
+  const { account } = options;
+  const gmail = getGmailClient(account);
+  const response = await gmail.users.messages.get({ userId: 'me', id: messageId, format: 'full' });
+  const { attachments } = extractMessageContent(response.data.payload);
+
+  const attachment = selector.attachmentId
+    ? attachments.find((candidate) => candidate.attachmentId === selector.attachmentId) ??
+      // Attachment ids change between fetches, so an id from an earlier read_email may not match
+      { attachmentId: selector.attachmentId, filename: selector.filename ?? 'attachment', mimeType: 'application/octet-stream', size: 0 }
+    : attachments.find((candidate) =>
+        selector.partId ? candidate.partId === selector.partId : candidate.filename === selector.filename
+      );
+
+  if (!attachment) {
+    const available = attachments.map((candidate) => candidate.filename).join(', ') || 'none';
+    throw new Error(`No attachment ${selector.partId ? `with part id ${selector.partId}` : `named "${selector.filename}"`} (attachments: ${available})`);
+  }
+
+  const checkSize = (size: number) => {
+    if (options.maxBytes !== undefined && size > options.maxBytes) {
+      const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+      throw new Error(`${attachment.filename} is ${mb(size)} MB, over the ${mb(options.maxBytes)} MB limit`);
+    }
+  };
+  checkSize(attachment.size);
+
+  if (attachment.attachmentId) {
+    const data = await getAttachmentData(messageId, attachment.attachmentId, account);
+    checkSize(data.length);
+    return { attachment, data };
+  }
+
+  const part = findPart(response.data.payload, attachment.partId ?? '');
+  return { attachment, data: Buffer.from(part?.body?.data ?? '', 'base64url') };
+}
+
+/**
+ * Fetch and decode a single message by id
+ */
+export async function readEmail(messageId: string, account?: string): Promise<EmailMessage> {
+  const gmail = getGmailClient(account);
+
+  const response = await gmail.users.messages.get({
+    userId: 'me',
+    id: messageId,
+    format: 'full'
+  });
+
+  return parseMessage(response.data);
+}
@@ -0,0 +1,238 @@
+import { gmail_v1 } from 'googleapis';
+import { getGmailClient } from './gmail.js';
+
+/**
+ * Organizing mail: labels, and the label changes behind read/unread, archive,
+ * star and trash. Needs the gmail.modify scope (listing labels only needs
+ * read access).
+ */
+
+export interface LabelInfo {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+  messageListVisibility?: string;
+  labelListVisibility?: string;
+  color?: { textColor?: string; backgroundColor?: string };
+}
+
+// Everyday actions, expressed as label changes (trash and untrash have their own endpoints)
+export const MESSAGE_ACTIONS = [
+  'mark_read', 'mark_unread', 'archive', 'move_to_inbox', 'star', 'unstar', 'trash', 'untrash'
+] as const;
+export type MessageAction = (typeof MESSAGE_ACTIONS)[number];
+
+const ACTION_LABELS: Record<Exclude<MessageAction, 'trash' | 'untrash'>, { add?: string[]; remove?: string[] }> = {
+  mark_read: { remove: ['UNREAD'] },
+  mark_unread: { add: ['UNREAD'] },
+  archive: { remove: ['INBOX'] },
+  move_to_inbox: { add: ['INBOX'] },
+  star: { add: ['STARRED'] },
+  unstar: { remove: ['STARRED'] }
+};
+
+// batchModify takes at most 1000 ids per call
+const BATCH_SIZE = 1000;
+
+function toLabelInfo(label: gmail_v1.Schema$Label): LabelInfo {
+  return {
+    id: label.id as string,
+    name: label.name as string,
+    type: label.type === 'system' ? 'system' : 'user',
+    messageListVisibility: label.messageListVisibility ?? undefined,
+    labelListVisibility: label.labelListVisibility ?? undefined,
+    color: label.color
+      ? { textColor: label.color.textColor ?? undefined, backgroundColor: label.color.backgroundColor ?? undefined }
+      : undefined
+  };
+}
+
+/**
+ * All labels of an account, system labels first
+ */
+export async function listLabels(account?: string): Promise<LabelInfo[]> {
+  const gmail = getGmailClient(account);
+  const response = await gmail.users.labels.list({ userId: 'me' });
+
+  return (response.data.labels ?? [])
+    .map(toLabelInfo)
+    .sort((a, b) => Number(a.type === 'user') - Number(b.type === 'user') || a.name.localeCompare(b.name));
+}
+
+/**
+ * Resolve label names or ids to ids. Names match case-insensitively; unknown
+ * labels are an error that lists them.
+ */
+export async function resolveLabelIds(labels: string[], account?: string): Promise<string[]> {
+  if (labels.length === 0) return [];
+
+  const known = await listLabels(account);
+  const unknown: string[] = [];
+  const ids = labels.map((label) => {
+    const match = known.find((candidate) => candidate.id === label) ??
+      known.find((candidate) => candidate.name.toLowerCase() === label.toLowerCase());
+    if (!match) unknown.push(label);
+    return match?.id as string;
+  });
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown label: ${unknown.join(', ')} (see list_labels, or create it with create_label)`);
+  }
+  return [...new Set(ids)];
+}
+
+async function findLabel(label: string, account?: string): Promise<LabelInfo> {
+  const [id] = await resolveLabelIds([label], account);
+  const match = (await listLabels(account)).find((candidate) => candidate.id === id) as LabelInfo;
+
+  if (match.type === 'system') {
+    throw new Error(`${match.name} is a system label and can't be changed`);
+  }
+  return match;
+}
+
+/**
+ * Create a user label. Nested labels use "/" in the name, e.g. "Clients/Acme".
+ */
+export async function createLabel(options: {
+  name: string;
+  showInLabelList?: boolean;
+  showInMessageList?: boolean;
+  textColor?: string;
+  backgroundColor?: string;
+  account?: string;
+}): Promise<LabelInfo> {
+  const gmail = getGmailClient(options.account);
+
+  const response = await gmail.users.labels.create({
+    userId: 'me',
+    requestBody: {
+      name: options.name,
+      labelListVisibility: options.showInLabelList === false ? 'labelHide' : 'labelShow',
+      messageListVisibility: options.showInMessageList === false ? 'hide' : 'show',
+      color: options.textColor || options.backgroundColor
+        ? { textColor: options.textColor, backgroundColor: options.backgroundColor }
+        : undefined
+    }
+  });
+
+  return toLabelInfo(response.data);
+}
+
+/**
+ * Rename a user label (by name or id)
+ */
+export async function renameLabel(label: string, newName: string, account?: string): Promise<LabelInfo> {
+  const gmail = getGmailClient(account);
+  const existing = await findLabel(label, account);
+
+  const response = await gmail.users.labels.patch({
+    userId: 'me',
+    id: existing.id,
+    requestBody: { name: newName }
+  });
+
+  return toLabelInfo(response.data);
+}
+
+/**
+ * Delete a user label. Messages keep everything else; only the label is removed from them.
+ */
+export async function deleteLabel(label: string, account?: string): Promise<LabelInfo> {
+  const gmail = getGmailClient(account);
+  const existing = await findLabel(label, account);
+
+  await gmail.users.labels.delete({ userId: 'me', id: existing.id });
+  return existing;
+}
+
+/**
+ * Which messages or threads a change applies to
+ */
+export interface ModifyTarget {
+  messageIds?: string[];
+  threadIds?: string[];
+  account?: string;
+}
+
+/**
+ * Add and remove labels (by id) on messages and threads
+ */
+export async function modifyLabels(
+  target: ModifyTarget,
+  change: { add?: string[]; remove?: string[] }
+): Promise<{ messages: number; threads: number }> {
+  const gmail = getGmailClient(target.account);
+  const messageIds = target.messageIds ?? [];
+  const threadIds = target.threadIds ?? [];
+  const requestBody = {
+    addLabelIds: change.add?.length ? change.add : undefined,
+    removeLabelIds: change.remove?.length ? change.remove : undefined
+  };
+
+  for (let start = 0; start < messageIds.length; start += BATCH_SIZE) {
+    await gmail.users.messages.batchModify({
+      userId: 'me',
+      requestBody: { ids: messageIds.slice(start, start + BATCH_SIZE), ...requestBody }
+    });
+  }
+
+  for (const id of threadIds) {
+    await gmail.users.threads.modify({ userId: 'me', id, requestBody });
+  }
+
+  return { messages: messageIds.length, threads: threadIds.length };
+}
+
+/**
+ * Apply an everyday action to messages and threads
+ */
+export async function applyMessageAction(
+  target: ModifyTarget,
+  action: MessageAction
+): Promise<{ messages: number; threads: number }> {
+  if (action !== 'trash' && action !== 'untrash') {
+    return modifyLabels(target, ACTION_LABELS[action]);
+  }
+
+  // Trash has no batch endpoint
+  const gmail = getGmailClient(target.account);
+  for (const id of target.messageIds ?? []) {
+    await gmail.users.messages[action]({ userId: 'me', id });
+  }
+  for (const id of target.threadIds ?? []) {
+    await gmail.users.threads[action]({ userId: 'me', id });
+  }
+
+  return { messages: target.messageIds?.length ?? 0, threads: target.threadIds?.length ?? 0 };
+}
+
+/**
+ * Ids of the messages matching a Gmail search, up to a limit. Trash and spam
+ * are only searched when the query asks for them (in:trash, in:spam).
+ */
+export async function findMessageIds(options: {
+  query: string;
+  limit: number;
+  account?: string;
+}): Promise<{ ids: string[]; truncated: boolean }> {
+  const gmail = getGmailClient(options.account);
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      q: options.query,
+      maxResults: Math.min(500, options.limit - ids.length + 1),
+      pageToken
+    });
+    ids.push(...(response.data.messages ?? []).map((message) => message.id as string));
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken && ids.length <= options.limit);
+
+  return {
+    ids: ids.slice(0, options.limit),
+    truncated: ids.length > options.limit
+  };
+}
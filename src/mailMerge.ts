@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import { parseTemplate, plainTemplate, renderTemplate, templateFields, Template, TemplateRow } from './template.js';
+import { parseAddressList, flattenAddresses } from './messageBuilder.js';
+
+/**
+ * Largest CSV file read from disk
+ */
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF line endings)
+ * into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let quoteLine = 0;
+  let line = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      line++;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`CSV: unterminated quoted field starting on line ${quoteLine}`);
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Turn CSV text with a header row into records keyed by column name
+ */
+export function csvToRows(text: string): TemplateRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new Error('CSV is empty');
+  }
+
+  const columns = header.map((name) => name.trim());
+  const duplicate = columns.find((name, index) => name && columns.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`CSV has duplicate column "${duplicate}"`);
+  }
+
+  return records.map((cells, index) => {
+    if (cells.length > columns.length) {
+      throw new Error(`CSV row ${index + 1} has ${cells.length} fields but the header has ${columns.length}`);
+    }
+    const row: TemplateRow = {};
+    columns.forEach((column, i) => {
+      if (column) row[column] = cells[i] ?? '';
+    });
+    return row;
+  });
+}
+
+/**
+ * Load merge rows from exactly one source: inline JSON rows, CSV text or a
+ * local CSV file (stdio only)
+ */
+export function loadMergeRows(
+  source: { rows?: TemplateRow[]; csv?: string; csvPath?: string },
+  options: { allowLocalPaths: boolean }
+): TemplateRow[] {
+  const given = [source.rows, source.csv, source.csvPath].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    throw new Error('Provide exactly one of rows, csv or csv_path');
+  }
+
+  if (source.rows) {
+    return source.rows;
+  }
+
+  if (source.csv !== undefined) {
+    return csvToRows(source.csv);
+  }
+
+  if (!options.allowLocalPaths) {
+    throw new Error('csv_path is only supported when running locally (stdio); pass csv or rows instead');
+  }
+
+  const filePath = path.resolve(source.csvPath as string);
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    throw new Error(`CSV file not found: ${source.csvPath}`);
+  }
+  if (fs.statSync(filePath).size > MAX_CSV_BYTES) {
+    throw new Error(`CSV file is larger than ${MAX_CSV_BYTES / 1024 / 1024} MB`);
+  }
+
+  return csvToRows(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * One row rendered and ready to send
+ */
+export interface MergeMessage {
+  row: number;
+  to: string;
+  subject: string;
+  body?: string;
+  html?: string;
+}
+
+export interface MergeProblem {
+  row: number;
+  to?: string;
+  error: string;
+}
+
+export interface MergeTemplates {
+  subject: string;
+  body?: string;
+  html?: string;
+  // Plain text rather than templates, with only single-brace placeholders
+  // such as {name} filled in (send_bulk_emails)
+  plainText?: boolean;
+  placeholders?: string[];
+}
+
+/**
+ * Parsed subject/body/html templates, reusable across rows
+ */
+export interface CompiledMerge {
+  subject: Template;
+  body?: Template;
+  html?: Template;
+  fields: string[];
+}
+
+/**
+ * Parse the merge templates once (throws TemplateError on syntax errors)
+ */
+export function compileMergeTemplates(templates: MergeTemplates): CompiledMerge {
+  if (!templates.body && !templates.html) {
+    throw new Error('Either body or html is required');
+  }
+
+  const parse = templates.plainText ? (text: string) => plainTemplate(text, templates.placeholders) : parseTemplate;
+  const subject = parse(templates.subject);
+  const body = templates.body ? parse(templates.body) : undefined;
+  const html = templates.html ? parse(templates.html) : undefined;
+  const fields = [...new Set([subject, body, html].flatMap((template) => (template ? templateFields(template) : [])))];
+
+  return { subject, body, html, fields };
+}
+
+/**
+ * Render one row; `missing` lists fields used without a value or fallback
+ */
+export function renderMergeRow(
+  compiled: CompiledMerge,
+  row: TemplateRow
+): { subject: string; body?: string; html?: string; missing: string[] } {
+  const subject = renderTemplate(compiled.subject, row);
+  const body = compiled.body ? renderTemplate(compiled.body, row) : undefined;
+  const html = compiled.html ? renderTemplate(compiled.html, row, { html: true }) : undefined;
+
+  return {
+    subject: subject.text,
+    body: body?.text,
+    html: html?.text,
+    missing: [...new Set([...subject.missing, ...(body?.missing ?? []), ...(html?.missing ?? [])])]
+  };
+}
+
+/**
+ * The recipient address of a row (email field matched case-insensitively)
+ */
+export function rowRecipient(row: TemplateRow, emailField: string): string {
+  const value = row[emailField] ?? Object.entries(row)
+    .find(([key]) => key.toLowerCase() === emailField.toLowerCase())?.[1];
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Render every row and collect problems (missing variables, bad or duplicate
+ * addresses) so nothing is sent unless all rows are valid
+ */
+export function prepareMailMerge(
+  rows: TemplateRow[],
+  templates: MergeTemplates & { emailField: string }
+): { messages: MergeMessage[]; problems: MergeProblem[]; fields: string[] } {
+  const compiled = compileMergeTemplates(templates);
+  const messages: MergeMessage[] = [];
+  const problems: MergeProblem[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const to = rowRecipient(row, templates.emailField);
+
+    if (!to) {
+      problems.push({ row: rowNumber, error: `Missing "${templates.emailField}" column value` });
+      return;
+    }
+
+    try {
+      const addresses = flattenAddresses(parseAddressList(to, `row ${rowNumber} address`));
+      if (addresses.length !== 1) {
+        throw new Error(`Row ${rowNumber} must have exactly one address in "${templates.emailField}"`);
+      }
+      const key = addresses[0].address.toLowerCase();
+      if (seen.has(key)) {
+        throw new Error(`Duplicate recipient (same as row ${seen.get(key)})`);
+      }
+      seen.set(key, rowNumber);
+    } catch (error) {
+      problems.push({ row: rowNumber, to, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const rendered = renderMergeRow(compiled, row);
+    if (rendered.missing.length > 0) {
+      problems.push({ row: rowNumber, to, error: `Missing values for: ${rendered.missing.join(', ')}` });
+      return;
+    }
+
+    if (!rendered.subject.trim()) {
+      problems.push({ row: rowNumber, to, error: 'Subject renders empty' });
+      return;
+    }
+
+    messages.push({ row: rowNumber, to, subject: rendered.subject, body: rendered.body, html: rendered.html });
+  });
+
+  return { messages, problems, fields: compiled.fields };
+}
@@ -0,0 +1,329 @@
+/**
+ * MCP over HTTP: the Streamable HTTP transport on /mcp plus the legacy
+ * SSE transport (/sse + /message) for older clients. Shared by the Apify
+ * standby server and the Railway/Render server.
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  StreamableHTTPServerTransport,
+  EventStore
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+import { createMcpServer, ToolContext } from './tools/index.js';
+import { authenticateRequest, sendAuthError, ApiKeyIdentity } from './apiKeys.js';
+import { readRequestBody } from './httpUtils.js';
+
+interface Session {
+  kind: 'streamable' | 'sse';
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastActivity: number;
+  // Label of the API key that opened the session; later requests must use the same key
+  apiKey?: string;
+}
+
+export interface McpHttpHandler {
+  /** Handle /mcp, /sse and /message requests (API key required when configured). Returns false for any other path. */
+  handle(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<boolean>;
+  /** Number of open sessions by transport */
+  sessionCounts(): { streamable: number; sse: number };
+  /** Close every session and stop the idle sweep */
+  close(): Promise<void>;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const MAX_STORED_EVENTS = 1000;
+
+/**
+ * Bounded in-memory event log so Streamable HTTP clients can resume a dropped
+ * stream with Last-Event-ID. One store per session, discarded with it.
+ */
+function createMemoryEventStore(maxEvents = MAX_STORED_EVENTS): EventStore {
+  const events: Array<{ eventId: string; streamId: string; message: JSONRPCMessage }> = [];
+  let counter = 0;
+
+  return {
+    async storeEvent(streamId, message) {
+      const eventId = `${Date.now().toString(36)}-${(++counter).toString(36)}`;
+      events.push({ eventId, streamId, message });
+      if (events.length > maxEvents) {
+        events.shift();
+      }
+      return eventId;
+    },
+    async getStreamIdForEventId(eventId) {
+      return events.find((event) => event.eventId === eventId)?.streamId;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const index = events.findIndex((event) => event.eventId === lastEventId);
+      if (index === -1) {
+        return '';
+      }
+
+      const { streamId } = events[index];
+      for (const event of events.slice(index + 1)) {
+        if (event.streamId === streamId) {
+          await send(event.eventId, event.message);
+        }
+      }
+      return streamId;
+    }
+  };
+}
+
+/**
+ * Write a JSON-RPC error response (id is null when the request couldn't be read)
+ */
+export function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  id: string | number | null = null
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } }));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const text = await readRequestBody(req);
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Parse error: request body is not valid JSON');
+  }
+}
+
+/**
+ * Create the MCP HTTP handler. Each session gets its own McpServer; sessions
+ * with no requests for `idleTimeoutMs` are closed.
+ */
+export function createMcpHttpHandler(
+  context: ToolContext,
+  options: { idleTimeoutMs?: number } = {}
+): McpHttpHandler {
+  const idleTimeoutMs = options.idleTimeoutMs
+    ?? parseFloat(process.env.MCP_SESSION_IDLE_MINUTES || '30') * 60 * 1000;
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string, reason: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+
+    sessions.delete(sessionId);
+    console.log(`MCP session closed (${reason}):`, sessionId);
+
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      console.error('Error closing MCP session:', error);
+    }
+  };
+
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        void closeSession(sessionId, 'idle');
+      }
+    }
+  }, Math.min(60 * 1000, idleTimeoutMs));
+  sweepTimer.unref();
+
+  const touch = (sessionId: string): Session | undefined => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  };
+
+  const sessionContext = (apiKey: ApiKeyIdentity | undefined): ToolContext => ({ ...context, apiKey });
+
+  /**
+   * A session may only be used with the key that opened it
+   */
+  const checkOwner = (res: http.ServerResponse, session: Session, apiKey: ApiKeyIdentity | undefined): boolean => {
+    if (session.apiKey !== apiKey?.label) {
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: session belongs to a different API key');
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Streamable HTTP: POST carries client messages, GET opens the server stream,
+   * DELETE ends the session
+   */
+  const handleStreamable = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    apiKey: ApiKeyIdentity | undefined
+  ): Promise<void> => {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    if (sessionId) {
+      const session = touch(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (!checkOwner(res, session, apiKey)) {
+        return;
+      }
+      if (session.kind !== 'streamable') {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: session belongs to the SSE transport; use /message');
+        return;
+      }
+
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = createMcpServer(sessionContext(apiKey));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: createMemoryEventStore(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { kind: 'streamable', transport, server, lastActivity: Date.now(), apiKey: apiKey?.label });
+        console.log('MCP session opened (streamable HTTP):', newSessionId);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.get(transport.sessionId)?.transport === transport) {
+        sessions.delete(transport.sessionId);
+        console.log('MCP session closed (client):', transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Legacy SSE: GET /sse opens the stream and announces /message?sessionId=...
+   */
+  const handleSseStream = async (res: http.ServerResponse, apiKey: ApiKeyIdentity | undefined): Promise<void> => {
+    const server = createMcpServer(sessionContext(apiKey));
+    const transport = new SSEServerTransport('/message', res);
+    const { sessionId } = transport;
+
+    sessions.set(sessionId, { kind: 'sse', transport, server, lastActivity: Date.now(), apiKey: apiKey?.label });
+
+    res.on('close', () => {
+      if (sessions.has(sessionId)) {
+        sessions.delete(sessionId);
+        console.log('MCP session closed (client):', sessionId);
+      }
+    });
+
+    await server.connect(transport);
+    console.log('MCP session opened (SSE):', sessionId);
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    apiKey: ApiKeyIdentity | undefined
+  ): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId');
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: sessionId query parameter is required');
+      return;
+    }
+
+    const session = touch(sessionId);
+    if (!session || session.kind !== 'sse') {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (!checkOwner(res, session, apiKey)) {
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  };
+
+  return {
+    async handle(req, res, url) {
+      const route = `${req.method} ${url.pathname}`;
+      const isMcpRoute = (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method ?? ''))
+        || route === 'GET /sse'
+        || route === 'POST /message';
+
+      if (!isMcpRoute) {
+        return false;
+      }
+
+      const auth = authenticateRequest(req);
+      if (!auth.ok) {
+        sendAuthError(res, auth);
+        return true;
+      }
+
+      try {
+        if (url.pathname === '/mcp') {
+          await handleStreamable(req, res, auth.apiKey);
+        } else if (route === 'GET /sse') {
+          await handleSseStream(res, auth.apiKey);
+        } else {
+          await handleSseMessage(req, res, url, auth.apiKey);
+        }
+      } catch (error) {
+        console.error('MCP request error:', error);
+        if (!res.headersSent) {
+          const message = error instanceof Error ? error.message : 'Internal server error';
+          if (message.startsWith('Parse error')) {
+            sendJsonRpcError(res, 400, -32700, message);
+          } else if (message === 'Request body too large') {
+            sendJsonRpcError(res, 413, -32600, message);
+          } else {
+            sendJsonRpcError(res, 500, -32603, 'Internal server error');
+          }
+        }
+      }
+
+      return true;
+    },
+
+    sessionCounts() {
+      let streamable = 0;
+      let sse = 0;
+      for (const session of sessions.values()) {
+        if (session.kind === 'streamable') streamable++;
+        else sse++;
+      }
+      return { streamable, sse };
+    },
+
+    async close() {
+      clearInterval(sweepTimer);
+      await Promise.all([...sessions.keys()].map((sessionId) => closeSession(sessionId, 'shutdown')));
+    }
+  };
+}
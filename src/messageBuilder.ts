@@ -0,0 +1,799 @@
+import { randomBytes } from 'crypto';
+import { domainToASCII } from 'url';
+import { EmailAttachment } from './attachments.js';
+
+/**
+ * RFC 5322 message construction. Every user-supplied header value goes through
+ * here: line breaks are stripped or rejected, non-ASCII text is RFC 2047
+ * encoded, long lines are folded and addresses are parsed and validated, so a
+ * model-generated subject or recipient can't inject extra headers.
+ */
+
+/**
+ * A header value that can't be sent safely (bad address, line break in an address, ...)
+ */
+export class MessageValidationError extends Error {
+  constructor(public field: string, message: string) {
+    super(`Invalid ${field}: ${message}`);
+    this.name = 'MessageValidationError';
+  }
+}
+
+export interface Mailbox {
+  name?: string;
+  address: string;
+}
+
+export interface AddressGroup {
+  group: string;
+  members: Mailbox[];
+}
+
+export type Address = Mailbox | AddressGroup;
+
+// Header lines should stay within 78 characters (RFC 5322 section 2.1.1)
+const MAX_LINE_LENGTH = 78;
+// Unbreakable runs longer than this are encoded so they can be split
+const MAX_WORD_LENGTH = 900;
+// Bytes of UTF-8 per encoded-word so "=?UTF-8?B?...?=" stays within 75 characters
+const ENCODED_WORD_BYTES = 45;
+
+const ATEXT = "A-Za-z0-9!#$%&'*+\\-/=?^_`{|}~";
+const DOT_ATOM = new RegExp(`^[${ATEXT}]+(\\.[${ATEXT}]+)*$`);
+const PHRASE_SAFE = new RegExp(`^[${ATEXT} ]+$`);
+const QUOTED_LOCAL = /^"([\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])*"$/;
+const DOMAIN_LABEL = /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+const MIME_TYPE = /^[A-Za-z0-9][A-Za-z0-9!#$&^_.+-]*\/[A-Za-z0-9][A-Za-z0-9!#$&^_.+-]*$/;
+
+// ============================================================================
+// Header text
+// ============================================================================
+
+/**
+ * Make free text safe for a header: line breaks become spaces and other
+ * control characters are dropped
+ */
+export function sanitizeHeaderText(value: string): string {
+  return value
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '')
+    .trim();
+}
+
+function isPlainAscii(text: string): boolean {
+  return /^[\x20-\x7e\t]*$/.test(text);
+}
+
+/**
+ * Encode text as RFC 2047 B encoded-words, never splitting a character across words
+ */
+export function encodeWords(text: string): string[] {
+  const words: string[] = [];
+  let chunk = '';
+
+  for (const char of text) {
+    if (chunk && Buffer.byteLength(chunk + char, 'utf-8') > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) {
+    words.push(chunk);
+  }
+
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`);
+}
+
+/**
+ * Encode unstructured text (e.g. Subject). Plain ASCII is kept as is unless it
+ * could be mistaken for an encoded-word or is too long to fold.
+ */
+export function encodeHeaderText(value: string): string {
+  const text = sanitizeHeaderText(value);
+  const needsEncoding = !isPlainAscii(text)
+    || text.includes('=?')
+    || text.split(' ').some((word) => word.length > MAX_WORD_LENGTH);
+
+  return needsEncoding ? encodeWords(text).join(' ') : text;
+}
+
+/**
+ * Fold a header onto continuation lines at spaces so lines stay within 78 characters
+ */
+export function foldHeader(name: string, value: string): string {
+  const lines: string[] = [];
+  let line = `${name}:`;
+
+  for (const word of value.split(' ')) {
+    if (line.length + 1 + word.length > MAX_LINE_LENGTH && line.trim().length > name.length + 1 && word) {
+      lines.push(line);
+      line = '';
+    }
+    line += ` ${word}`;
+  }
+
+  lines.push(line);
+  return lines.join('\r\n');
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+type Token =
+  | { type: 'quoted'; value: string; spaceBefore: boolean }
+  | { type: 'angle'; value: string; spaceBefore: boolean }
+  | { type: 'text'; value: string; spaceBefore: boolean }
+  | { type: 'special'; value: ',' | ';' | ':'; spaceBefore: boolean };
+
+/**
+ * Split an address list into quoted strings, <angle addresses>, atoms and the
+ * separators , ; : (comments are skipped)
+ */
+function tokenizeAddresses(input: string, field: string): Token[] {
+  const tokens: Token[] = [];
+  let spaceBefore = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ' ' || char === '\t') {
+      spaceBefore = true;
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new MessageValidationError(field, 'unterminated quoted string');
+      }
+      i++;
+      tokens.push({ type: 'quoted', value, spaceBefore });
+    } else if (char === '(') {
+      let depth = 0;
+      do {
+        if (input[i] === '\\') i++;
+        else if (input[i] === '(') depth++;
+        else if (input[i] === ')') depth--;
+        i++;
+      } while (depth > 0 && i < input.length);
+      if (depth > 0) {
+        throw new MessageValidationError(field, 'unterminated comment');
+      }
+    } else if (char === '<') {
+      const end = input.indexOf('>', i);
+      if (end === -1) {
+        throw new MessageValidationError(field, 'missing ">"');
+      }
+      // Drop an obsolete source route (<@relay:user@example.com>)
+      const value = input.slice(i + 1, end).trim().replace(/^@[^:]*:/, '');
+      tokens.push({ type: 'angle', value, spaceBefore });
+      i = end + 1;
+    } else if (char === ',' || char === ';' || char === ':') {
+      tokens.push({ type: 'special', value: char, spaceBefore });
+      i++;
+    } else if (char === '>' || char === ')') {
+      throw new MessageValidationError(field, `unexpected "${char}"`);
+    } else {
+      let value = '';
+      while (i < input.length && !/[\s"(<>),;:]/.test(input[i])) {
+        value += input[i++];
+      }
+      tokens.push({ type: 'text', value, spaceBefore });
+    }
+
+    spaceBefore = false;
+  }
+
+  return tokens;
+}
+
+/**
+ * Validate an addr-spec and normalize its domain (IDNs become punycode)
+ */
+export function validateAddress(address: string, field = 'address'): string {
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || at === address.length - 1) {
+    throw new MessageValidationError(field, `"${address}" is not an email address`);
+  }
+
+  const local = address.slice(0, at);
+  const domain = address.slice(at + 1);
+
+  if (local.length > 64 || !(DOT_ATOM.test(local) || QUOTED_LOCAL.test(local))) {
+    throw new MessageValidationError(field, `"${address}" has an invalid local part`);
+  }
+
+  let asciiDomain: string;
+  if (/^\[[^\[\]\\\s]+\]$/.test(domain)) {
+    asciiDomain = domain;
+  } else {
+    asciiDomain = domainToASCII(domain);
+    const labels = asciiDomain.split('.');
+    if (!asciiDomain || labels.length < 2 || !labels.every((label) => DOMAIN_LABEL.test(label))) {
+      throw new MessageValidationError(field, `"${address}" has an invalid domain`);
+    }
+  }
+
+  const normalized = `${local}@${asciiDomain}`;
+  if (normalized.length > 254) {
+    throw new MessageValidationError(field, `"${address}" is too long`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse an address list: "Name" <addr>, Name <addr>, bare addr and groups
+ * ("Team: a@example.com, b@example.com;"). Throws MessageValidationError on
+ * malformed input, including line breaks that aren't header folding.
+ */
+export function parseAddressList(input: string | string[], field = 'address'): Address[] {
+  const values = Array.isArray(input) ? input : [input];
+  const addresses: Address[] = [];
+
+  for (const raw of values) {
+    const value = raw.replace(/\r?\n(?=[ \t])/g, '');
+    if (/[\r\n]/.test(value)) {
+      throw new MessageValidationError(field, 'line breaks are not allowed in addresses');
+    }
+    if (/[\x00-\x08\x0b-\x1f\x7f]/.test(value)) {
+      throw new MessageValidationError(field, 'control characters are not allowed in addresses');
+    }
+
+    let phrase: Token[] = [];
+    let angle: string | undefined;
+    let group: AddressGroup | undefined;
+
+    const flush = () => {
+      let mailbox: Mailbox | undefined;
+
+      if (angle !== undefined) {
+        const name = phrase.map((token) => token.value).join(' ').trim();
+        mailbox = { name: name || undefined, address: validateAddress(angle, field) };
+      } else if (phrase.length > 0) {
+        // A bare addr-spec: rebuild it, re-quoting a quoted local part
+        const spec = phrase
+          .map((token, index) => (index > 0 && token.spaceBefore ? ' ' : '') +
+            (token.type === 'quoted' ? `"${token.value.replace(/["\\]/g, '\\$&')}"` : token.value))
+          .join('');
+        mailbox = { address: validateAddress(spec, field) };
+      }
+
+      if (mailbox) {
+        (group ? group.members : addresses).push(mailbox);
+      }
+      phrase = [];
+      angle = undefined;
+    };
+
+    for (const token of tokenizeAddresses(value, field)) {
+      if (token.type === 'special') {
+        if (token.value === ',') {
+          flush();
+        } else if (token.value === ':') {
+          if (group || angle !== undefined) {
+            throw new MessageValidationError(field, 'unexpected ":"');
+          }
+          const name = phrase.map((t) => t.value).join(' ').trim();
+          if (!name) {
+            throw new MessageValidationError(field, 'group without a name');
+          }
+          group = { group: name, members: [] };
+          phrase = [];
+        } else {
+          if (!group) {
+            throw new MessageValidationError(field, 'unexpected ";"');
+          }
+          flush();
+          addresses.push(group);
+          group = undefined;
+        }
+      } else if (token.type === 'angle') {
+        if (angle !== undefined) {
+          throw new MessageValidationError(field, 'two addresses without a separating comma');
+        }
+        angle = token.value;
+      } else {
+        if (angle !== undefined) {
+          throw new MessageValidationError(field, `unexpected "${token.value}" after <${angle}>`);
+        }
+        phrase.push(token);
+      }
+    }
+
+    flush();
+    if (group) {
+      throw new MessageValidationError(field, `group "${group.group}" is missing the closing ";"`);
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Split an address list into its entries without validating them. Commas
+ * inside quoted display names, <angle addresses> and comments don't split,
+ * so "Doe, John" <j@example.com> stays one address.
+ */
+export function splitAddressList(value: string | undefined): string[] {
+  if (!value) return [];
+
+  const addresses: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  let commentDepth = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === '\\' && (inQuotes || commentDepth > 0) && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (char === '"' && commentDepth === 0) inQuotes = !inQuotes;
+    if (!inQuotes && char === '(') commentDepth++;
+    if (!inQuotes && char === ')' && commentDepth > 0) commentDepth--;
+    if (!inQuotes && commentDepth === 0 && char === '<') inAngle = true;
+    if (!inQuotes && commentDepth === 0 && char === '>') inAngle = false;
+
+    if (char === ',' && !inQuotes && !inAngle && commentDepth === 0) {
+      if (current.trim()) addresses.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) addresses.push(current.trim());
+  return addresses;
+}
+
+/**
+ * Parse exactly one mailbox (e.g. a From address)
+ */
+export function parseMailbox(input: string, field = 'address'): Mailbox {
+  const addresses = parseAddressList(input, field);
+  if (addresses.length !== 1 || 'group' in addresses[0]) {
+    throw new MessageValidationError(field, 'expected a single address');
+  }
+  return addresses[0];
+}
+
+/**
+ * The individual mailboxes of an address list (group members flattened)
+ */
+export function flattenAddresses(addresses: Address[]): Mailbox[] {
+  return addresses.flatMap((address) => ('group' in address ? address.members : [address]));
+}
+
+/**
+ * Encode a display name or group name: atoms as is, quoted when it has
+ * specials, RFC 2047 encoded-words when it isn't plain ASCII
+ */
+function formatPhrase(value: string): string {
+  const text = sanitizeHeaderText(value);
+  if (!isPlainAscii(text) || text.includes('=?')) {
+    return encodeWords(text).join(' ');
+  }
+  return PHRASE_SAFE.test(text) ? text : `"${text.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Format a mailbox, e.g. "Support Team <support@example.com>"
+ */
+export function formatMailbox(mailbox: Mailbox): string {
+  const address = validateAddress(mailbox.address);
+  const name = mailbox.name ? sanitizeHeaderText(mailbox.name) : '';
+  return name ? `${formatPhrase(name)} <${address}>` : address;
+}
+
+/**
+ * Format a mailbox as readable input for buildMessage (e.g. a From option).
+ * The name is quoted rather than encoded; encoding happens once, when the
+ * message is built.
+ */
+export function displayMailbox(mailbox: Mailbox): string {
+  const address = validateAddress(mailbox.address);
+  const name = mailbox.name ? sanitizeHeaderText(mailbox.name) : '';
+  return name ? `"${name.replace(/["\\]/g, '\\$&')}" <${address}>` : address;
+}
+
+/**
+ * Format an address list for a header value
+ */
+export function formatAddressList(addresses: Address[]): string {
+  return addresses
+    .map((address) => ('group' in address
+      ? `${formatPhrase(address.group)}: ${address.members.map(formatMailbox).join(', ')};`
+      : formatMailbox(address)))
+    .join(', ');
+}
+
+// ============================================================================
+// Date and Message-ID
+// ============================================================================
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * RFC 5322 date-time in UTC, e.g. "Mon, 19 Oct 2026 09:30:00 +0000"
+ */
+export function formatDate(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${DAYS[date.getUTCDay()]}, ${pad(date.getUTCDate())} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * A new unique Message-ID in the sender's domain
+ */
+export function createMessageId(fromAddress: string): string {
+  const domain = fromAddress.slice(fromAddress.lastIndexOf('@') + 1) || 'localhost';
+  return `<${Date.now().toString(36)}.${randomBytes(12).toString('hex')}@${domain}>`;
+}
+
+/**
+ * Keep only well-formed <msg-id> tokens (for In-Reply-To / References)
+ */
+function formatMessageIds(value: string | undefined): string | undefined {
+  const ids = sanitizeHeaderText(value ?? '').match(/<[^<>\s]+@[^<>\s]+>/g);
+  return ids ? ids.join(' ') : undefined;
+}
+
+// ============================================================================
+// MIME body
+// ============================================================================
+
+/**
+ * Encode a single line as quoted-printable (RFC 2045), with soft line breaks
+ */
+function encodeQuotedPrintableLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  let encoded = '';
+  let current = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    const isLast = i === bytes.length - 1;
+    const isPrintable = byte >= 33 && byte <= 126 && byte !== 61;
+    const isInnerWhitespace = (byte === 32 || byte === 9) && !isLast;
+
+    const token = isPrintable || isInnerWhitespace
+      ? String.fromCharCode(byte)
+      : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+    // Keep encoded lines within 76 characters including the trailing "="
+    if (current.length + token.length > 75) {
+      encoded += `${current}=\r\n`;
+      current = '';
+    }
+    current += token;
+  }
+
+  return encoded + current;
+}
+
+/**
+ * Encode text as quoted-printable, normalizing line endings to CRLF
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map(encodeQuotedPrintableLine)
+    .join('\r\n');
+}
+
+/**
+ * Derive a plain-text fallback from an HTML body
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|tr|table|blockquote)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/li>/gi, '\n')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Generate a unique MIME boundary
+ */
+function createBoundary(): string {
+  return `----=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Build a quoted-printable text part (headers + encoded content)
+ */
+function createTextPart(subtype: 'plain' | 'html', content: string): string[] {
+  return [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(content)
+  ];
+}
+
+/**
+ * Build the body entity: text/plain, or multipart/alternative when HTML is given
+ */
+function createBodyPart(body: string | undefined, html: string | undefined): string[] {
+  if (!html) {
+    return createTextPart('plain', body as string);
+  }
+
+  const boundary = createBoundary();
+  const text = body || htmlToText(html);
+
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...createTextPart('plain', text),
+    `--${boundary}`,
+    ...createTextPart('html', html),
+    `--${boundary}--`
+  ];
+}
+
+/**
+ * Build a base64-encoded attachment part
+ */
+function createAttachmentPart(attachment: EmailAttachment, index: number): string[] {
+  if (!MIME_TYPE.test(attachment.mimeType)) {
+    throw new MessageValidationError(`attachment ${index + 1} MIME type`, `"${sanitizeHeaderText(attachment.mimeType)}"`);
+  }
+
+  const filename = sanitizeHeaderText(attachment.filename);
+  const isAscii = /^[\x20-\x7e]*$/.test(filename);
+  const quotedName = filename.replace(/["\\]/g, '_');
+  // RFC 2231 for the disposition, plus the RFC 2047 form older clients read from `name`
+  const filenameParam = isAscii
+    ? `filename="${quotedName}"`
+    : `filename*=UTF-8''${encodeURIComponent(filename).replace(/['()*!]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+  const nameParam = isAscii ? quotedName : encodeWords(filename).join(' ');
+
+  return [
+    foldHeader('Content-Type', `${attachment.mimeType}; name="${nameParam}"`),
+    foldHeader('Content-Disposition', `attachment; ${filenameParam}`),
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(attachment.data.toString('base64').match(/.{1,76}/g) ?? [])
+  ];
+}
+
+// ============================================================================
+// Message
+// ============================================================================
+
+export interface MessageOptions {
+  from: string;
+  to: string | string[];
+  subject: string;
+  body?: string;
+  html?: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+  inReplyTo?: string;
+  references?: string;
+  date?: Date;
+  messageId?: string;
+}
+
+/**
+ * Build a complete RFC 5322 message (CRLF line endings).
+ * Sends text/plain when only `body` is given, otherwise multipart/alternative
+ * with a plain-text fallback derived from `html` when `body` is omitted.
+ * Attachments wrap the body in multipart/mixed.
+ */
+export function buildMessage(options: MessageOptions): string {
+  const { body, html, attachments } = options;
+
+  if (!body && !html) {
+    throw new MessageValidationError('body', 'email must have a body or an html body');
+  }
+
+  const from = parseMailbox(options.from, 'From address');
+  const to = parseAddressList(options.to, 'To address');
+  const cc = parseAddressList(options.cc ?? [], 'Cc address');
+  const bcc = parseAddressList(options.bcc ?? [], 'Bcc address');
+  const replyTo = options.replyTo ? parseAddressList(options.replyTo, 'Reply-To address') : [];
+
+  if (flattenAddresses([...to, ...cc, ...bcc]).length === 0) {
+    throw new MessageValidationError('recipients', 'at least one To, Cc or Bcc address is required');
+  }
+
+  const lines: string[] = [
+    foldHeader('From', formatMailbox(from)),
+    ...(to.length > 0 ? [foldHeader('To', formatAddressList(to))] : []),
+    ...(cc.length > 0 ? [foldHeader('Cc', formatAddressList(cc))] : []),
+    ...(bcc.length > 0 ? [foldHeader('Bcc', formatAddressList(bcc))] : []),
+    ...(replyTo.length > 0 ? [foldHeader('Reply-To', formatAddressList(replyTo))] : []),
+    foldHeader('Subject', encodeHeaderText(options.subject)),
+    `Date: ${formatDate(options.date)}`,
+    `Message-ID: ${formatMessageIds(options.messageId) ?? createMessageId(from.address)}`
+  ];
+
+  // Threading headers so mail clients group replies with the original
+  const inReplyTo = formatMessageIds(options.inReplyTo);
+  if (inReplyTo) {
+    lines.push(foldHeader('In-Reply-To', inReplyTo));
+  }
+
+  const references = formatMessageIds(options.references);
+  if (references) {
+    lines.push(foldHeader('References', references));
+  }
+
+  lines.push('MIME-Version: 1.0');
+
+  if (attachments && attachments.length > 0) {
+    const boundary = createBoundary();
+
+    lines.push(
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...createBodyPart(body, html)
+    );
+
+    attachments.forEach((attachment, index) => {
+      lines.push(`--${boundary}`, ...createAttachmentPart(attachment, index));
+    });
+
+    lines.push(`--${boundary}--`);
+  } else {
+    lines.push(...createBodyPart(body, html));
+  }
+
+  return lines.join('\r\n');
+}
+
+// ============================================================================
+// Preview (dry runs)
+// ============================================================================
+
+/**
+ * A built message decoded back into readable form
+ */
+export interface MessagePreview {
+  headers: Array<{ name: string; value: string }>;
+  text?: string;
+  html?: string;
+  attachments: Array<{ filename: string; mimeType: string; size: number }>;
+  // Size of the RFC 5322 message in bytes
+  size: number;
+}
+
+/**
+ * Decode RFC 2047 B/Q encoded-words (adjacent words are joined without the space between them)
+ */
+function decodeWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, _charset, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64').toString('utf-8')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '))
+    );
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, '');
+
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(input.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(input.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(input[i], 'utf-8'));
+    }
+  }
+
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Split a MIME entity into unfolded headers and its body
+ */
+function parseEntity(entity: string): { headers: Array<{ name: string; value: string }>; body: string } {
+  const end = entity.indexOf('\r\n\r\n');
+  const head = end === -1 ? entity : entity.slice(0, end);
+  const body = end === -1 ? '' : entity.slice(end + 4);
+
+  const headers = head
+    .replace(/\r\n(?=[ \t])/g, '')
+    .split('\r\n')
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(':');
+      return { name: line.slice(0, colon), value: line.slice(colon + 1).trim() };
+    });
+
+  return { headers, body };
+}
+
+function headerParam(value: string, param: string): string | undefined {
+  const extended = new RegExp(`${param}\\*=UTF-8''([^;\\s]+)`, 'i').exec(value);
+  if (extended) return decodeURIComponent(extended[1]);
+  const quoted = new RegExp(`${param}="([^"]*)"`, 'i').exec(value);
+  return quoted ? decodeWords(quoted[1]) : undefined;
+}
+
+/**
+ * Decode a message produced by buildMessage into headers, text/HTML bodies and
+ * attachment summaries, e.g. to show what a dry run would have sent
+ */
+export function describeMessage(message: string): MessagePreview {
+  const preview: MessagePreview = { headers: [], attachments: [], size: Buffer.byteLength(message, 'utf-8') };
+
+  const walk = (entity: string, top: boolean) => {
+    const { headers, body } = parseEntity(entity);
+    const get = (name: string) => headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value ?? '';
+    const contentType = get('Content-Type');
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+    if (top) {
+      preview.headers = headers.map(({ name, value }) => ({ name, value: decodeWords(value) }));
+    }
+
+    if (mimeType.startsWith('multipart/')) {
+      const boundary = headerParam(contentType, 'boundary');
+      if (!boundary) return;
+      const parts = body.split(`--${boundary}`).slice(1);
+      // Everything after the closing delimiter is the epilogue
+      parts.pop();
+      parts.forEach((part) => walk(part.replace(/^\r\n/, '').replace(/\r\n$/, ''), false));
+      return;
+    }
+
+    const disposition = get('Content-Disposition');
+    if (disposition.toLowerCase().startsWith('attachment')) {
+      preview.attachments.push({
+        filename: headerParam(disposition, 'filename') ?? headerParam(contentType, 'name') ?? 'attachment',
+        mimeType,
+        size: Buffer.from(body.replace(/\s/g, ''), 'base64').length
+      });
+      return;
+    }
+
+    const content = get('Content-Transfer-Encoding').toLowerCase() === 'quoted-printable'
+      ? decodeQuotedPrintable(body).replace(/\r\n/g, '\n')
+      : body.replace(/\r\n/g, '\n');
+    if (mimeType === 'text/html') {
+      preview.html = content;
+    } else {
+      preview.text = content;
+    }
+  };
+
+  walk(message, true);
+  return preview;
+}
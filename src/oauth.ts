@@ -0,0 +1,621 @@
+/**
+ * Minimal OAuth 2.1 authorization server for remote MCP clients:
+ * protected-resource and authorization-server metadata, dynamic client
+ * registration, and authorize/token endpoints (authorization code + PKCE,
+ * refresh tokens). Consent is a local HTML page approved with the operator password.
+ */
+
+import http from 'http';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { getHttpConfig } from './config.js';
+import { getDataPath, readJsonFile, writeJsonFile } from './storage.js';
+import { readRequestBody } from './httpUtils.js';
+
+export const OAUTH_SCOPES = ['mail.send', 'mail.read', 'mail.draft', 'mail.modify', 'mail.approve'] as const;
+export type OAuthScope = (typeof OAUTH_SCOPES)[number];
+
+const SCOPE_DESCRIPTIONS: Record<OAuthScope, string> = {
+  'mail.send': 'Send, reply to, forward and schedule email as you',
+  'mail.read': 'Search and read messages in your mailbox',
+  'mail.draft': 'Create, edit and delete drafts',
+  'mail.modify': 'Organize your mail: labels, read/unread, archive, star and trash',
+  'mail.approve': 'Approve or reject sends waiting for human approval'
+};
+
+// Approving sends is never granted unless explicitly requested
+const DEFAULT_SCOPES = OAUTH_SCOPES.filter((scope) => scope !== 'mail.approve');
+
+interface OAuthClient {
+  client_id: string;
+  client_secret_hash?: string;
+  client_name?: string;
+  redirect_uris: string[];
+  token_endpoint_auth_method: 'none' | 'client_secret_post' | 'client_secret_basic';
+  created_at: string;
+}
+
+interface StoredToken {
+  hash: string;
+  type: 'access' | 'refresh';
+  clientId: string;
+  scopes: OAuthScope[];
+  resource?: string;
+  expiresAt: number;
+}
+
+interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: OAuthScope[];
+  state?: string;
+  resource?: string;
+  expiresAt: number;
+}
+
+/**
+ * A verified access token
+ */
+export interface OAuthGrant {
+  clientId: string;
+  clientName?: string;
+  scopes: OAuthScope[];
+}
+
+const CLIENTS_FILE = 'oauth-clients.json';
+const TOKENS_FILE = 'oauth-tokens.json';
+const CODE_TTL_MS = 10 * 60 * 1000;
+const CONSENT_TTL_MS = 15 * 60 * 1000;
+
+// Short-lived state only needs to survive one browser round trip
+const pendingRequests = new Map<string, AuthorizationRequest>();
+const authorizationCodes = new Map<string, AuthorizationRequest>();
+
+class OAuthError extends Error {
+  constructor(public code: string, message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Drop abandoned consent requests and unused codes
+ */
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const map of [pendingRequests, authorizationCodes]) {
+    for (const [key, request] of map) {
+      if (request.expiresAt < now) map.delete(key);
+    }
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value, 'utf-8').digest('hex');
+}
+
+function randomToken(prefix: string): string {
+  return `${prefix}_${randomBytes(32).toString('base64url')}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(sha256(a), 'hex');
+  const right = Buffer.from(sha256(b), 'hex');
+  return timingSafeEqual(left, right);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function loadClients(): OAuthClient[] {
+  return readJsonFile<OAuthClient[]>(getDataPath(CLIENTS_FILE), []);
+}
+
+function findClient(clientId: string | undefined): OAuthClient | undefined {
+  return clientId ? loadClients().find((client) => client.client_id === clientId) : undefined;
+}
+
+function loadTokens(): StoredToken[] {
+  const now = Date.now();
+  return readJsonFile<StoredToken[]>(getDataPath(TOKENS_FILE), []).filter((token) => token.expiresAt > now);
+}
+
+function saveTokens(tokens: StoredToken[]): void {
+  writeJsonFile(getDataPath(TOKENS_FILE), tokens);
+}
+
+/**
+ * Parse a space-separated scope string, defaulting to every scope except mail.approve
+ */
+function parseScopes(value: string | undefined): OAuthScope[] {
+  if (!value || !value.trim()) {
+    return [...DEFAULT_SCOPES];
+  }
+
+  const requested = value.trim().split(/\s+/);
+  const unknown = requested.filter((scope) => !(OAUTH_SCOPES as readonly string[]).includes(scope));
+  if (unknown.length > 0) {
+    throw new OAuthError('invalid_scope', `Unknown scope: ${unknown.join(' ')}`);
+  }
+
+  return [...new Set(requested)] as OAuthScope[];
+}
+
+/**
+ * Whether the authorization server is enabled (OAUTH_OPERATOR_PASSWORD is set)
+ */
+export function isOAuthEnabled(): boolean {
+  return !!getHttpConfig().oauth.operatorPassword;
+}
+
+/**
+ * Base URL clients use to reach this server
+ */
+export function getBaseUrl(req: http.IncomingMessage): string {
+  const { publicUrl } = getHttpConfig();
+  if (publicUrl) {
+    return publicUrl;
+  }
+
+  const host = req.headers.host || 'localhost';
+  const forwardedProto = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0].trim();
+  const protocol = forwardedProto || (/^(localhost|127\.0\.0\.1)(:|$)/.test(host) ? 'http' : 'https');
+  return `${protocol}://${host}`;
+}
+
+/**
+ * URL of the protected-resource metadata, advertised in WWW-Authenticate
+ */
+export function getResourceMetadataUrl(req: http.IncomingMessage): string {
+  return `${getBaseUrl(req)}/.well-known/oauth-protected-resource`;
+}
+
+/**
+ * Look up an access token. Returns undefined when unknown or expired.
+ */
+export function verifyAccessToken(token: string): OAuthGrant | undefined {
+  if (!isOAuthEnabled()) return undefined;
+
+  const hash = sha256(token);
+  const stored = loadTokens().find((t) => t.type === 'access' && t.hash === hash);
+  if (!stored) return undefined;
+
+  return {
+    clientId: stored.clientId,
+    clientName: findClient(stored.clientId)?.client_name,
+    scopes: stored.scopes
+  };
+}
+
+/**
+ * Issue a new access/refresh token pair
+ */
+function issueTokens(clientId: string, scopes: OAuthScope[], resource?: string) {
+  const { oauth } = getHttpConfig();
+  const accessToken = randomToken('gmat');
+  const refreshToken = randomToken('gmrt');
+  const now = Date.now();
+
+  const tokens = loadTokens();
+  tokens.push(
+    { hash: sha256(accessToken), type: 'access', clientId, scopes, resource, expiresAt: now + oauth.accessTokenTtlSeconds * 1000 },
+    { hash: sha256(refreshToken), type: 'refresh', clientId, scopes, resource, expiresAt: now + oauth.refreshTokenTtlDays * 24 * 60 * 60 * 1000 }
+  );
+  saveTokens(tokens);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: oauth.accessTokenTtlSeconds,
+    refresh_token: refreshToken,
+    scope: scopes.join(' ')
+  };
+}
+
+// ============================================================================
+// Request helpers
+// ============================================================================
+
+async function readParams(req: http.IncomingMessage): Promise<Record<string, string>> {
+  const text = await readRequestBody(req, 64 * 1024);
+  const contentType = req.headers['content-type'] ?? '';
+
+  if (contentType.includes('application/json')) {
+    try {
+      const parsed = JSON.parse(text || '{}') as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, value as string]));
+    } catch {
+      throw new OAuthError('invalid_request', 'Request body is not valid JSON');
+    }
+  }
+
+  return Object.fromEntries(new URLSearchParams(text));
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function sendHtml(res: http.ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'X-Frame-Options': 'DENY',
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'"
+  });
+  res.end(html);
+}
+
+function redirectWithParams(res: http.ServerResponse, redirectUri: string, params: Record<string, string | undefined>): void {
+  const target = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) target.searchParams.set(key, value);
+  }
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+function isAllowedRedirectUri(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    if (url.hash) return false;
+    if (url.protocol === 'https:') return true;
+    // Plain HTTP only for loopback redirects (native and CLI clients)
+    return url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+function protectedResourceMetadata(req: http.IncomingMessage) {
+  const baseUrl = getBaseUrl(req);
+  return {
+    resource: `${baseUrl}/mcp`,
+    authorization_servers: [baseUrl],
+    scopes_supported: OAUTH_SCOPES,
+    bearer_methods_supported: ['header'],
+    resource_name: 'Gmail MCP Server'
+  };
+}
+
+function authorizationServerMetadata(req: http.IncomingMessage) {
+  const baseUrl = getBaseUrl(req);
+  return {
+    issuer: baseUrl,
+    authorization_endpoint: `${baseUrl}/oauth/authorize`,
+    token_endpoint: `${baseUrl}/oauth/token`,
+    registration_endpoint: `${baseUrl}/oauth/register`,
+    scopes_supported: OAUTH_SCOPES,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+    code_challenge_methods_supported: ['S256']
+  };
+}
+
+/**
+ * POST /oauth/register — dynamic client registration (RFC 7591)
+ */
+async function handleRegister(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const body = JSON.parse((await readRequestBody(req, 64 * 1024)) || '{}') as {
+    redirect_uris?: unknown;
+    client_name?: unknown;
+    token_endpoint_auth_method?: unknown;
+  };
+
+  const redirectUris = Array.isArray(body.redirect_uris) ? body.redirect_uris.map(String) : [];
+  if (redirectUris.length === 0 || !redirectUris.every(isAllowedRedirectUri)) {
+    sendJson(res, 400, {
+      error: 'invalid_redirect_uri',
+      error_description: 'redirect_uris must be HTTPS URLs (or http://localhost for native clients)'
+    });
+    return;
+  }
+
+  const authMethod = body.token_endpoint_auth_method ?? 'none';
+  if (authMethod !== 'none' && authMethod !== 'client_secret_post' && authMethod !== 'client_secret_basic') {
+    sendJson(res, 400, { error: 'invalid_client_metadata', error_description: `Unsupported token_endpoint_auth_method: ${authMethod}` });
+    return;
+  }
+
+  const clientSecret = authMethod === 'none' ? undefined : randomToken('gmcs');
+  const client: OAuthClient = {
+    client_id: randomUUID(),
+    client_secret_hash: clientSecret ? sha256(clientSecret) : undefined,
+    client_name: typeof body.client_name === 'string' ? body.client_name.slice(0, 100) : undefined,
+    redirect_uris: redirectUris,
+    token_endpoint_auth_method: authMethod,
+    created_at: new Date().toISOString()
+  };
+
+  const clients = loadClients();
+  clients.push(client);
+  writeJsonFile(getDataPath(CLIENTS_FILE), clients);
+
+  console.log('OAuth client registered:', client.client_id, client.client_name ?? '');
+
+  sendJson(res, 201, {
+    client_id: client.client_id,
+    client_secret: clientSecret,
+    client_id_issued_at: Math.floor(Date.parse(client.created_at) / 1000),
+    client_secret_expires_at: clientSecret ? 0 : undefined,
+    client_name: client.client_name,
+    redirect_uris: client.redirect_uris,
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    token_endpoint_auth_method: client.token_endpoint_auth_method
+  });
+}
+
+function renderConsentPage(requestId: string, client: OAuthClient, request: AuthorizationRequest, error?: string): string {
+  const redirectHost = new URL(request.redirectUri).host;
+  const scopeRows = request.scopes
+    .map((scope) => `<label><input type="checkbox" name="scope" value="${scope}" checked> <b>${scope}</b> — ${escapeHtml(SCOPE_DESCRIPTIONS[scope])}</label>`)
+    .join('<br>');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Authorize ${escapeHtml(client.client_name ?? 'MCP client')}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 3rem auto; padding: 0 1rem; color: #222; }
+  .error { color: #b00020; }
+  label { line-height: 2; }
+  input[type=password] { width: 100%; padding: .4rem; margin: .5rem 0 1rem; }
+  button { padding: .5rem 1.2rem; margin-right: .5rem; }
+</style>
+</head>
+<body>
+<h2>Authorize access to Gmail</h2>
+<p><b>${escapeHtml(client.client_name ?? client.client_id)}</b> wants access to this Gmail MCP server.
+After approval you will be sent back to <code>${escapeHtml(redirectHost)}</code>.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post" action="/oauth/authorize">
+  <input type="hidden" name="request_id" value="${escapeHtml(requestId)}">
+  <p>${scopeRows}</p>
+  <label for="password">Operator password</label>
+  <input type="password" id="password" name="password" autocomplete="current-password">
+  <button type="submit" name="decision" value="approve">Approve</button>
+  <button type="submit" name="decision" value="deny">Deny</button>
+</form>
+</body>
+</html>`;
+}
+
+/**
+ * GET /oauth/authorize — validate the request and show the consent page
+ */
+function handleAuthorizeRequest(res: http.ServerResponse, url: URL): void {
+  const params = url.searchParams;
+  const client = findClient(params.get('client_id') ?? undefined);
+  const redirectUri = params.get('redirect_uri') ?? client?.redirect_uris[0];
+
+  // Without a valid client and redirect URI we must not redirect anywhere
+  if (!client || !redirectUri || !client.redirect_uris.includes(redirectUri)) {
+    sendHtml(res, 400, '<p>Invalid authorization request: unknown client_id or unregistered redirect_uri.</p>');
+    return;
+  }
+
+  const state = params.get('state') ?? undefined;
+  const fail = (error: string, description: string) =>
+    redirectWithParams(res, redirectUri, { error, error_description: description, state });
+
+  if (params.get('response_type') !== 'code') {
+    fail('unsupported_response_type', 'Only response_type=code is supported');
+    return;
+  }
+
+  const codeChallenge = params.get('code_challenge');
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+    fail('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    return;
+  }
+
+  let scopes: OAuthScope[];
+  try {
+    scopes = parseScopes(params.get('scope') ?? undefined);
+  } catch (error) {
+    fail('invalid_scope', (error as Error).message);
+    return;
+  }
+
+  pruneExpired();
+
+  const requestId = randomToken('req');
+  const request: AuthorizationRequest = {
+    clientId: client.client_id,
+    redirectUri,
+    codeChallenge,
+    scopes,
+    state,
+    resource: params.get('resource') ?? undefined,
+    expiresAt: Date.now() + CONSENT_TTL_MS
+  };
+  pendingRequests.set(requestId, request);
+
+  sendHtml(res, 200, renderConsentPage(requestId, client, request));
+}
+
+/**
+ * POST /oauth/authorize — the operator approved or denied the consent page
+ */
+async function handleAuthorizeDecision(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const text = await readRequestBody(req, 64 * 1024);
+  const form = new URLSearchParams(text);
+  const requestId = form.get('request_id') ?? '';
+  const request = pendingRequests.get(requestId);
+
+  if (!request || request.expiresAt < Date.now()) {
+    pendingRequests.delete(requestId);
+    sendHtml(res, 400, '<p>This authorization request has expired. Start again from your MCP client.</p>');
+    return;
+  }
+
+  if (form.get('decision') !== 'approve') {
+    pendingRequests.delete(requestId);
+    redirectWithParams(res, request.redirectUri, { error: 'access_denied', state: request.state });
+    return;
+  }
+
+  const client = findClient(request.clientId);
+  const password = getHttpConfig().oauth.operatorPassword ?? '';
+  if (!client || !safeEqual(form.get('password') ?? '', password)) {
+    console.warn('OAuth consent rejected: wrong operator password for client', request.clientId);
+    sendHtml(res, 401, renderConsentPage(requestId, client ?? { client_id: request.clientId } as OAuthClient, request, 'Wrong operator password.'));
+    return;
+  }
+
+  // The operator may untick scopes; never grant more than was requested
+  const granted = form.getAll('scope').filter((scope): scope is OAuthScope => request.scopes.includes(scope as OAuthScope));
+  if (granted.length === 0) {
+    pendingRequests.delete(requestId);
+    redirectWithParams(res, request.redirectUri, { error: 'access_denied', error_description: 'No scopes granted', state: request.state });
+    return;
+  }
+
+  pendingRequests.delete(requestId);
+  const code = randomToken('gmac');
+  authorizationCodes.set(code, { ...request, scopes: granted, expiresAt: Date.now() + CODE_TTL_MS });
+
+  console.log('OAuth authorization approved:', request.clientId, granted.join(' '));
+  redirectWithParams(res, request.redirectUri, { code, state: request.state });
+}
+
+/**
+ * Authenticate the client at the token endpoint (public clients only send client_id)
+ */
+function authenticateClient(req: http.IncomingMessage, params: Record<string, string>): OAuthClient {
+  let clientId = params.client_id;
+  let clientSecret = params.client_secret;
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString('utf-8').split(':');
+    clientId = decodeURIComponent(id ?? '');
+    clientSecret = decodeURIComponent(secret ?? '');
+  }
+
+  const client = findClient(clientId);
+  if (!client) {
+    throw new OAuthError('invalid_client', 'Unknown client', 401);
+  }
+
+  if (client.client_secret_hash) {
+    if (!clientSecret || !safeEqual(sha256(clientSecret), client.client_secret_hash)) {
+      throw new OAuthError('invalid_client', 'Invalid client credentials', 401);
+    }
+  }
+
+  return client;
+}
+
+/**
+ * POST /oauth/token — exchange an authorization code or refresh token
+ */
+async function handleToken(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const params = await readParams(req);
+  const client = authenticateClient(req, params);
+
+  if (params.grant_type === 'authorization_code') {
+    const request = authorizationCodes.get(params.code ?? '');
+    // Codes are single-use
+    authorizationCodes.delete(params.code ?? '');
+
+    if (!request || request.expiresAt < Date.now() || request.clientId !== client.client_id) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired');
+    }
+    if (params.redirect_uri && params.redirect_uri !== request.redirectUri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (!params.code_verifier || createHash('sha256').update(params.code_verifier).digest('base64url') !== request.codeChallenge) {
+      throw new OAuthError('invalid_grant', 'PKCE verification failed');
+    }
+
+    sendJson(res, 200, issueTokens(client.client_id, request.scopes, request.resource));
+    return;
+  }
+
+  if (params.grant_type === 'refresh_token') {
+    const hash = sha256(params.refresh_token ?? '');
+    const tokens = loadTokens();
+    const stored = tokens.find((t) => t.type === 'refresh' && t.hash === hash);
+
+    if (!stored || stored.clientId !== client.client_id) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired');
+    }
+
+    // A refresh may narrow the scopes but never widen them
+    const scopes = params.scope ? parseScopes(params.scope) : stored.scopes;
+    if (scopes.some((scope) => !stored.scopes.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'Requested scope exceeds the original grant');
+    }
+
+    // Rotate: the old refresh token is revoked
+    saveTokens(tokens.filter((t) => t !== stored));
+    sendJson(res, 200, issueTokens(client.client_id, scopes, stored.resource));
+    return;
+  }
+
+  throw new OAuthError('unsupported_grant_type', `Unsupported grant_type: ${params.grant_type ?? '(none)'}`);
+}
+
+/**
+ * Handle the OAuth metadata and endpoints. Returns false for any other path.
+ */
+export async function handleOAuthRequest(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<boolean> {
+  const route = `${req.method} ${url.pathname}`;
+  const isOAuthRoute = url.pathname.startsWith('/.well-known/oauth-') || url.pathname.startsWith('/oauth/');
+
+  if (!isOAuthRoute) {
+    return false;
+  }
+
+  if (!isOAuthEnabled()) {
+    sendJson(res, 404, { error: 'not_found', error_description: 'OAuth is not enabled on this server' });
+    return true;
+  }
+
+  try {
+    // The resource path may be appended to the metadata URL (RFC 9728)
+    if (req.method === 'GET' && url.pathname.startsWith('/.well-known/oauth-protected-resource')) {
+      sendJson(res, 200, protectedResourceMetadata(req));
+    } else if (req.method === 'GET' && url.pathname.startsWith('/.well-known/oauth-authorization-server')) {
+      sendJson(res, 200, authorizationServerMetadata(req));
+    } else if (route === 'POST /oauth/register') {
+      await handleRegister(req, res);
+    } else if (route === 'GET /oauth/authorize') {
+      handleAuthorizeRequest(res, url);
+    } else if (route === 'POST /oauth/authorize') {
+      await handleAuthorizeDecision(req, res);
+    } else if (route === 'POST /oauth/token') {
+      await handleToken(req, res);
+    } else {
+      sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      const headers: http.OutgoingHttpHeaders = {};
+      if (error.status === 401) headers['WWW-Authenticate'] = 'Basic realm="gmail-mcp-server"';
+      res.writeHead(error.status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+      res.end(JSON.stringify({ error: error.code, error_description: error.message }));
+    } else if (error instanceof SyntaxError) {
+      sendJson(res, 400, { error: 'invalid_request', error_description: 'Request body is not valid JSON' });
+    } else {
+      console.error('OAuth request error:', error);
+      sendJson(res, 500, { error: 'server_error' });
+    }
+  }
+
+  return true;
+}
@@ -1,166 +1,48 @@
 /**
  * Gmail MCP Server for Railway/Render Deployment
  * 
- * This is a simple HTTP server that exposes MCP tools via SSE.
+ * This is a simple HTTP server that exposes MCP tools via Streamable HTTP
+ * (/mcp) and legacy SSE (/sse).
  * Deploy to Railway (free) for personal use!
  */
 
 import http from 'http';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { google } from 'googleapis';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { loadEnvFile, validateConfig } from './config.js';
+import { startScheduler } from './scheduler.js';
+import { startCampaignRunner } from './campaigns.js';
+import { ToolContext, canAccessRecord, describeTools, findTool, runTool } from './tools/index.js';
+import { createMcpHttpHandler } from './mcpHttp.js';
+import { applyCors, authenticateRequest, isAuthEnabled, sendAuthError } from './apiKeys.js';
+import { getBaseUrl, handleOAuthRequest, isOAuthEnabled, OAUTH_SCOPES } from './oauth.js';
+import { handleApprovalRequest } from './approvalPage.js';
+import { handleSendHistoryExport } from './sendLog.js';
+import { readRequestBody } from './httpUtils.js';
+import { loadGrantedScopes } from './gmailScopes.js';
 
 // Load .env file
-const envPath = path.resolve(__dirname, '..', '.env');
-if (fs.existsSync(envPath)) {
-  const envContent = fs.readFileSync(envPath, 'utf-8');
-  for (const line of envContent.split('\n')) {
-    const trimmed = line.trim();
-    if (trimmed && !trimmed.startsWith('#')) {
-      const [key, ...rest] = trimmed.split('=');
-      if (key && rest.length) {
-        process.env[key.trim()] = rest.join('=').trim();
-      }
-    }
-  }
-}
+loadEnvFile();
 
 // Load environment variables
 const config = {
-  clientId: process.env.GMAIL_CLIENT_ID || '',
-  clientSecret: process.env.GMAIL_CLIENT_SECRET || '',
-  refreshToken: process.env.GMAIL_REFRESH_TOKEN || '',
   userEmail: process.env.GMAIL_USER_EMAIL || '',
   port: parseInt(process.env.PORT || '3000', 10),
 };
 
-// Rate limiting
-let emailsSentThisHour = 0;
-let emailsSentToday = 0;
-const MAX_PER_HOUR = 20;
-const MAX_PER_DAY = 50;
-
-// Reset counters periodically
-setInterval(() => { emailsSentThisHour = 0; }, 60 * 60 * 1000); // Reset hourly
-setInterval(() => { emailsSentToday = 0; }, 24 * 60 * 60 * 1000); // Reset daily
-
-function getOAuth2Client() {
-  const oauth2Client = new google.auth.OAuth2(
-    config.clientId,
-    config.clientSecret,
-    'https://developers.google.com/oauthplayground'
-  );
-  oauth2Client.setCredentials({ refresh_token: config.refreshToken });
-  return oauth2Client;
-}
-
-async function sendEmail(to: string, subject: string, body: string, cc?: string, bcc?: string) {
-  if (emailsSentThisHour >= MAX_PER_HOUR) {
-    return { success: false, error: 'Hourly rate limit reached' };
-  }
-  if (emailsSentToday >= MAX_PER_DAY) {
-    return { success: false, error: 'Daily rate limit reached' };
-  }
-
-  try {
-    const oauth2Client = getOAuth2Client();
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-
-    const headers = [
-      `From: ${config.userEmail}`,
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      'MIME-Version: 1.0',
-      'Content-Type: text/plain; charset=utf-8',
-    ];
-    if (cc) headers.push(`Cc: ${cc}`);
-    if (bcc) headers.push(`Bcc: ${bcc}`);
-
-    const email = headers.join('\r\n') + '\r\n\r\n' + body;
-    const encodedEmail = Buffer.from(email)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-
-    const response = await gmail.users.messages.send({
-      userId: 'me',
-      requestBody: { raw: encodedEmail },
-    });
+// Remote callers must not be able to read files from the server's disk
+const mcpContext: ToolContext = { transport: 'http', allowLocalPaths: false };
+const restContext: ToolContext = { transport: 'rest', allowLocalPaths: false };
 
-    emailsSentThisHour++;
-    emailsSentToday++;
-
-    return { success: true, messageId: response.data.id };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-}
-
-async function verifyConnection() {
-  try {
-    const oauth2Client = getOAuth2Client();
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-    const profile = await gmail.users.getProfile({ userId: 'me' });
-    return { connected: true, email: profile.data.emailAddress };
-  } catch (error: any) {
-    return { connected: false, error: error.message };
-  }
-}
-
-// MCP Tool definitions
-const TOOLS = [
-  {
-    name: 'send_email',
-    description: 'Send an email via Gmail. Just provide recipient, subject, and body.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        to: { type: 'string', description: 'Recipient email address' },
-        subject: { type: 'string', description: 'Email subject' },
-        body: { type: 'string', description: 'Email body content' },
-        cc: { type: 'string', description: 'CC recipients (optional)' },
-        bcc: { type: 'string', description: 'BCC recipients (optional)' },
-      },
-      required: ['to', 'subject', 'body'],
-    },
-  },
-  {
-    name: 'verify_connection',
-    description: 'Check if Gmail connection is working',
-    inputSchema: { type: 'object', properties: {} },
-  },
-  {
-    name: 'check_status',
-    description: 'Check email rate limit status',
-    inputSchema: { type: 'object', properties: {} },
-  },
-];
-
-// SSE connection management
-const sseConnections = new Map<string, http.ServerResponse>();
-let messageIdCounter = 0;
-
-function sendSSE(res: http.ServerResponse, event: string, data: any) {
-  res.write(`event: ${event}\n`);
-  res.write(`data: ${JSON.stringify(data)}\n\n`);
-}
+const mcpHandler = createMcpHttpHandler(mcpContext);
 
 // HTTP Server
 const server = http.createServer(async (req, res) => {
   const url = new URL(req.url || '/', `http://localhost:${config.port}`);
   
-  // CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS (only origins listed in CORS_ORIGINS)
+  const originAllowed = applyCors(req, res);
 
   if (req.method === 'OPTIONS') {
-    res.writeHead(200);
+    res.writeHead(originAllowed ? 200 : 403);
     res.end();
     return;
   }
@@ -172,6 +54,7 @@ const server = http.createServer(async (req, res) => {
       status: 'ok', 
       version: '2.1.0',
       server: 'gmail-mcp-server',
+      sessions: mcpHandler.sessionCounts(),
       email: config.userEmail ? config.userEmail.substring(0, 5) + '***' : 'not configured'
     }));
     return;
@@ -179,13 +62,33 @@ const server = http.createServer(async (req, res) => {
 
   // ChatGPT OpenAPI Spec
   if (url.pathname === '/openapi.json' && req.method === 'GET') {
-    const host = req.headers.host || `localhost:${config.port}`;
-    const protocol = host.includes('localhost') ? 'http' : 'https';
+    const baseUrl = getBaseUrl(req);
     
+    // Generated from the shared send_email tool so the REST API can't drift from MCP
+    const [{ inputSchema: sendEmailSchema }] = describeTools([findTool('send_email')!]);
+
     const spec = {
       openapi: '3.1.0',
       info: { title: 'Gmail AI Assistant', version: '1.0.0', description: 'API for sending emails via Gmail' },
-      servers: [{ url: `${protocol}://${host}` }],
+      servers: [{ url: baseUrl }],
+      components: {
+        securitySchemes: {
+          apiKey: { type: 'http', scheme: 'bearer', description: 'API key configured in API_KEYS' },
+          ...(isOAuthEnabled() && {
+            oauth: {
+              type: 'oauth2',
+              flows: {
+                authorizationCode: {
+                  authorizationUrl: `${baseUrl}/oauth/authorize`,
+                  tokenUrl: `${baseUrl}/oauth/token`,
+                  scopes: Object.fromEntries(OAUTH_SCOPES.map((scope) => [scope, scope]))
+                }
+              }
+            }
+          })
+        }
+      },
+      security: isOAuthEnabled() ? [{ apiKey: [] }, { oauth: ['mail.send'] }] : [{ apiKey: [] }],
       paths: {
         '/api/send-email': {
           post: {
@@ -193,15 +96,7 @@ const server = http.createServer(async (req, res) => {
             summary: 'Send an email',
             requestBody: {
               required: true,
-              content: { 'application/json': { schema: {
-                type: 'object',
-                properties: {
-                  to: { type: 'string', description: 'Recipient email' },
-                  subject: { type: 'string', description: 'Email subject' },
-                  body: { type: 'string', description: 'Email body' }
-                },
-                required: ['to', 'subject', 'body']
-              }}}
+              content: { 'application/json': { schema: sendEmailSchema } }
             },
             responses: { '200': { description: 'Success' } }
           }
@@ -213,114 +108,57 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
-  // REST API for ChatGPT
-  if (url.pathname === '/api/send-email' && req.method === 'POST') {
-    let body = '';
-    req.on('data', chunk => { body += chunk; });
-    req.on('end', async () => {
-      try {
-        const data = JSON.parse(body);
-        const result = await sendEmail(data.to, data.subject, data.body);
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(result));
-      } catch (e: any) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: e.message }));
-      }
-    });
+  // OAuth 2.1 metadata, client registration, consent and token endpoints
+  if (await handleOAuthRequest(req, res, url)) {
     return;
   }
 
-  // SSE endpoint for MCP
-  if (url.pathname === '/sse' && req.method === 'GET') {
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    });
-
-    sseConnections.set(sessionId, res);
-    
-    // Send endpoint info
-    sendSSE(res, 'endpoint', `/message?sessionId=${sessionId}`);
-
-    req.on('close', () => {
-      sseConnections.delete(sessionId);
-      console.log('SSE connection closed:', sessionId);
-    });
-
-    console.log('SSE connection opened:', sessionId);
+  // Approval queue page and signed approval links
+  if (await handleApprovalRequest(req, res, url)) {
     return;
   }
 
-  // Message endpoint for MCP JSON-RPC
-  if (url.pathname === '/message' && req.method === 'POST') {
-    let body = '';
-    req.on('data', chunk => { body += chunk; });
-    req.on('end', async () => {
-      try {
-        const message = JSON.parse(body);
-        const { id, method, params } = message;
-
-        let result: any;
+  // REST API for ChatGPT (every /api/* route requires an API key when keys are configured)
+  let apiContext = restContext;
+  if (url.pathname.startsWith('/api/')) {
+    const auth = authenticateRequest(req);
+    if (!auth.ok) {
+      sendAuthError(res, auth);
+      return;
+    }
+    apiContext = { ...restContext, apiKey: auth.apiKey };
+  }
 
-        if (method === 'initialize') {
-          result = {
-            protocolVersion: '2024-11-05',
-            capabilities: { tools: {} },
-            serverInfo: { name: 'gmail-mcp-server', version: '2.0.0' },
-          };
-        } else if (method === 'tools/list') {
-          result = { tools: TOOLS };
-        } else if (method === 'tools/call') {
-          const { name, arguments: args } = params;
-          
-          if (name === 'send_email') {
-            const emailResult = await sendEmail(args.to, args.subject, args.body, args.cc, args.bcc);
-            result = {
-              content: [{ type: 'text', text: JSON.stringify(emailResult, null, 2) }],
-            };
-          } else if (name === 'verify_connection') {
-            const connResult = await verifyConnection();
-            result = {
-              content: [{ type: 'text', text: JSON.stringify(connResult, null, 2) }],
-            };
-          } else if (name === 'check_status') {
-            result = {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  emailsSentThisHour,
-                  emailsSentToday,
-                  remainingThisHour: MAX_PER_HOUR - emailsSentThisHour,
-                  remainingToday: MAX_PER_DAY - emailsSentToday,
-                }, null, 2),
-              }],
-            };
-          } else {
-            result = { content: [{ type: 'text', text: `Unknown tool: ${name}` }] };
-          }
-        } else {
-          result = {};
-        }
+  if (url.pathname === '/api/send-email' && req.method === 'POST') {
+    try {
+      const data = JSON.parse(await readRequestBody(req));
+      // Standard Idempotency-Key header, equivalent to the idempotency_key field
+      const idempotencyKey = req.headers['idempotency-key'];
+      if (typeof idempotencyKey === 'string' && data.idempotency_key === undefined) {
+        data.idempotency_key = idempotencyKey;
+      }
+      const result = await runTool('send_email', data, apiContext);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+    return;
+  }
 
-        const response = { jsonrpc: '2.0', id, result };
-        
-        // Send response to SSE if session exists
-        const sessionId = url.searchParams.get('sessionId');
-        if (sessionId && sseConnections.has(sessionId)) {
-          sendSSE(sseConnections.get(sessionId)!, 'message', response);
-        }
+  // Send log export: ?format=jsonl (default) or csv, filtered like get_send_history
+  if (url.pathname === '/api/send-history' && req.method === 'GET') {
+    if (apiContext.apiKey?.scopes && !apiContext.apiKey.scopes.includes('mail.read')) {
+      sendAuthError(res, { status: 403, error: 'Insufficient scope: the send history requires mail.read' });
+      return;
+    }
+    handleSendHistoryExport(res, url, (entry) => canAccessRecord(apiContext, entry.apiKey));
+    return;
+  }
 
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(response));
-      } catch (error: any) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: error.message }));
-      }
-    });
+  // MCP endpoints: /mcp (Streamable HTTP), /sse + /message (legacy SSE)
+  if (await mcpHandler.handle(req, res, url)) {
     return;
   }
 
@@ -335,6 +173,18 @@ server.listen(config.port, () => {
   console.log(`\n📧 Email: ${config.userEmail || 'NOT CONFIGURED'}`);
   console.log(`\n🔗 Endpoints:`);
   console.log(`   Health: http://localhost:${config.port}/`);
-  console.log(`   SSE:    http://localhost:${config.port}/sse`);
+  console.log(`   MCP:    http://localhost:${config.port}/mcp`);
+  console.log(`   SSE:    http://localhost:${config.port}/sse (legacy)`);
   console.log(`\n✅ Ready for MCP connections!`);
+
+  if (!isAuthEnabled()) {
+    console.warn(`\n⚠️  No API_KEYS configured: anyone who can reach this URL can send email as you.`);
+  }
+
+  if (validateConfig()) {
+    startScheduler();
+    startCampaignRunner();
+    // Sessions opened after this only see the tools the Gmail token was authorized for
+    void loadGrantedScopes();
+  }
 });
@@ -1,124 +1,358 @@
+import crypto from 'crypto';
 import { getConfig } from './config.js';
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from './storage.js';
+import { ApiKeyIdentity } from './apiKeys.js';
+import { getAccount } from './accounts.js';
 
-interface RateLimitRecord {
-  timestamp: number;
+/**
+ * Persistence for the sliding-window send logs (timestamps in ms). Each bucket
+ * is an independent window: one per Gmail account ('global' for the default
+ * account), plus one per API key.
+ */
+export interface RateLimitStore {
+  load(bucket: string): Promise<number[]>;
+  // Load, change and save a bucket as one step (under a lock where the store is shared)
+  update(bucket: string, change: (timestamps: number[]) => number[]): Promise<void>;
 }
 
-interface RateLimitState {
-  hourlyRecords: RateLimitRecord[];
-  dailyRecords: RateLimitRecord[];
+/**
+ * An extra window checked alongside the account's (e.g. an API key's own limits)
+ */
+export interface RateLimitScope {
+  bucket: string;
+  label: string;
+  maxPerHour: number;
+  maxPerDay: number;
 }
 
-const state: RateLimitState = {
-  hourlyRecords: [],
-  dailyRecords: []
-};
+/**
+ * What a send counts against: the sending account (default account when
+ * omitted) and optionally the caller's own scope
+ */
+export interface RateLimitTarget {
+  account?: string;
+  scope?: RateLimitScope;
+}
+
+type WindowCheck = { allowed: boolean; reason?: string; hourlyRemaining: number; dailyRemaining: number };
+
+export const GLOBAL_BUCKET = 'global';
 
 const ONE_HOUR_MS = 60 * 60 * 1000;
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Clean up old records outside the time window
+ * Make a bucket name safe for file names and key-value store keys. The
+ * readable part alone could map different labels ("a b", "a_b") to one
+ * window, so a hash of the exact name keeps them apart.
+ */
+function bucketSuffix(bucket: string): string {
+  const readable = bucket.replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 64);
+  const hash = crypto.createHash('sha256').update(bucket).digest('hex').slice(0, 16);
+  return `${readable}-${hash}`;
+}
+
+/**
+ * In-process store (resets on restart; useful for tests)
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, number[]>();
+
+  return {
+    async load(bucket) {
+      return [...(buckets.get(bucket) ?? [])];
+    },
+    async update(bucket, change) {
+      buckets.set(bucket, [...change([...(buckets.get(bucket) ?? [])])]);
+    }
+  };
+}
+
+/**
+ * JSON file store, shared by every process using the same data directory
+ * (updates hold the file lock, so concurrent sends are all counted).
+ * The global window lives in rate-limit.json, other buckets in rate-limit.<bucket>.json.
+ */
+export function createFileRateLimitStore(filePath: string = getDataPath('rate-limit.json')): RateLimitStore {
+  const pathFor = (bucket: string) =>
+    bucket === GLOBAL_BUCKET ? filePath : filePath.replace(/\.json$/, '') + `.${bucketSuffix(bucket)}.json`;
+
+  return {
+    async load(bucket) {
+      return readJsonFile<{ timestamps: number[] }>(pathFor(bucket), { timestamps: [] }).timestamps;
+    },
+    async update(bucket, change) {
+      const bucketPath = pathFor(bucket);
+      withFileLock(bucketPath, () => {
+        const { timestamps } = readJsonFile<{ timestamps: number[] }>(bucketPath, { timestamps: [] });
+        writeJsonFile(bucketPath, { timestamps: change(timestamps) });
+      });
+    }
+  };
+}
+
+/**
+ * Apify key-value store. Uses a named store so counts survive across Actor runs
+ * (the default store is created fresh for every run).
+ */
+export function createApifyRateLimitStore(storeName: string, key = 'RATE_LIMIT_STATE'): RateLimitStore {
+  const openStore = async () => {
+    const { Actor } = await import('apify');
+    return Actor.openKeyValueStore(storeName);
+  };
+
+  const keyFor = (bucket: string) => (bucket === GLOBAL_BUCKET ? key : `${key}-${bucketSuffix(bucket)}`);
+
+  return {
+    async load(bucket) {
+      const store = await openStore();
+      const value = await store.getValue<{ timestamps: number[] }>(keyFor(bucket));
+      return value?.timestamps ?? [];
+    },
+    async update(bucket, change) {
+      const store = await openStore();
+      const value = await store.getValue<{ timestamps: number[] }>(keyFor(bucket));
+      await store.setValue(keyFor(bucket), { timestamps: change(value?.timestamps ?? []) });
+    }
+  };
+}
+
+/**
+ * The API key's own rate-limit window; keys without explicit limits get the global ones
+ */
+export function rateLimitScopeFor(apiKey: ApiKeyIdentity | undefined): RateLimitScope | undefined {
+  if (!apiKey) return undefined;
+
+  const { rateLimit } = getConfig();
+  return {
+    bucket: `key-${apiKey.label}`,
+    label: `API key "${apiKey.label}"`,
+    maxPerHour: apiKey.maxPerHour ?? rateLimit.maxPerHour,
+    maxPerDay: apiKey.maxPerDay ?? rateLimit.maxPerDay
+  };
+}
+
+let store: RateLimitStore | null = null;
+// Serializes read-modify-write cycles within this process
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Override the store (e.g. in tests or custom deployments)
  */
-function cleanupRecords(): void {
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    const config = getConfig();
+    switch (config.rateLimit.store) {
+      case 'memory':
+        store = createMemoryRateLimitStore();
+        break;
+      case 'apify':
+        store = createApifyRateLimitStore(config.rateLimit.apifyStoreName);
+        break;
+      default:
+        store = createFileRateLimitStore();
+    }
+  }
+  return store;
+}
+
+/**
+ * Send timestamps from the last 24 hours
+ */
+function inWindow(timestamps: number[], now: number = Date.now()): number[] {
+  return timestamps.filter((timestamp) => now - timestamp < ONE_DAY_MS);
+}
+
+/**
+ * Load a bucket's send timestamps from the last 24 hours
+ */
+async function loadWindow(bucket: string): Promise<number[]> {
+  return inWindow(await getStore().load(bucket));
+}
+
+/**
+ * Count sends in a bucket's current hourly and daily windows
+ */
+async function getCounts(bucket: string): Promise<{ hourlyCount: number; dailyCount: number }> {
   const now = Date.now();
+  const timestamps = await loadWindow(bucket);
+
+  return {
+    hourlyCount: timestamps.filter((timestamp) => now - timestamp < ONE_HOUR_MS).length,
+    dailyCount: timestamps.length
+  };
+}
+
+/**
+ * The account's own window. The default account keeps the original 'global'
+ * bucket so existing counts carry over.
+ */
+function accountScope(accountId?: string): RateLimitScope {
+  const config = getConfig();
+  const account = getAccount(accountId);
 
-  // Remove records older than 1 hour
-  state.hourlyRecords = state.hourlyRecords.filter(
-    (record) => now - record.timestamp < ONE_HOUR_MS
-  );
+  return {
+    bucket: account.id === config.defaultAccount ? GLOBAL_BUCKET : `account-${account.id}`,
+    label: config.accounts.length > 1 ? `account "${account.id}"` : '',
+    maxPerHour: account.maxPerHour ?? config.rateLimit.maxPerHour,
+    maxPerDay: account.maxPerDay ?? config.rateLimit.maxPerDay
+  };
+}
 
-  // Remove records older than 24 hours
-  state.dailyRecords = state.dailyRecords.filter(
-    (record) => now - record.timestamp < ONE_DAY_MS
-  );
+/**
+ * Check one window
+ */
+async function checkWindow(scope: RateLimitScope): Promise<WindowCheck & { hourlyCount: number; dailyCount: number }> {
+  const { hourlyCount, dailyCount } = await getCounts(scope.bucket);
+  const hourlyRemaining = Math.max(0, scope.maxPerHour - hourlyCount);
+  const dailyRemaining = Math.max(0, scope.maxPerDay - dailyCount);
+  const subject = scope.label ? ` for ${scope.label}` : '';
+
+  let reason: string | undefined;
+  if (hourlyCount >= scope.maxPerHour) {
+    reason = `Hourly limit${subject} reached (${scope.maxPerHour}/hour). Please wait before sending more emails.`;
+  } else if (dailyCount >= scope.maxPerDay) {
+    reason = `Daily limit${subject} reached (${scope.maxPerDay}/day). Please try again tomorrow.`;
+  }
+
+  return { allowed: !reason, reason, hourlyRemaining, dailyRemaining, hourlyCount, dailyCount };
 }
 
 /**
- * Check if we can send more emails
+ * Check if we can send more emails. The account's limits and the scope's own
+ * limits (if any) must both allow it.
  */
-export function canSendEmail(): {
+export async function canSendEmail(target: RateLimitTarget = {}): Promise<{
   allowed: boolean;
   reason?: string;
   hourlyRemaining: number;
   dailyRemaining: number;
-} {
-  cleanupRecords();
-
-  const config = getConfig();
-  const hourlyCount = state.hourlyRecords.length;
-  const dailyCount = state.dailyRecords.length;
-
-  const hourlyRemaining = Math.max(0, config.rateLimit.maxPerHour - hourlyCount);
-  const dailyRemaining = Math.max(0, config.rateLimit.maxPerDay - dailyCount);
-
-  if (hourlyCount >= config.rateLimit.maxPerHour) {
-    return {
-      allowed: false,
-      reason: `Hourly limit reached (${config.rateLimit.maxPerHour}/hour). Please wait before sending more emails.`,
-      hourlyRemaining,
-      dailyRemaining
-    };
-  }
-
-  if (dailyCount >= config.rateLimit.maxPerDay) {
-    return {
-      allowed: false,
-      reason: `Daily limit reached (${config.rateLimit.maxPerDay}/day). Please try again tomorrow.`,
-      hourlyRemaining,
-      dailyRemaining
-    };
-  }
+}> {
+  const scopes = target.scope ? [accountScope(target.account), target.scope] : [accountScope(target.account)];
+  const checks = await Promise.all(scopes.map(checkWindow));
+  const blocked = checks.find((check) => !check.allowed);
 
   return {
-    allowed: true,
-    hourlyRemaining,
-    dailyRemaining
+    allowed: !blocked,
+    reason: blocked?.reason,
+    hourlyRemaining: Math.min(...checks.map((check) => check.hourlyRemaining)),
+    dailyRemaining: Math.min(...checks.map((check) => check.dailyRemaining))
   };
 }
 
 /**
- * Record an email being sent
+ * Record an email being sent (in the account's window and the scope's, if any)
  */
-export function recordEmailSent(): void {
-  const now = Date.now();
-  const record: RateLimitRecord = { timestamp: now };
+export async function recordEmailSent(target: RateLimitTarget = {}): Promise<void> {
+  const buckets = [accountScope(target.account).bucket, ...(target.scope ? [target.scope.bucket] : [])];
+
+  const write = pendingWrite.then(async () => {
+    const now = Date.now();
+    for (const bucket of buckets) {
+      await getStore().update(bucket, (timestamps) => [...inWindow(timestamps, now), now]);
+    }
+  });
 
-  state.hourlyRecords.push(record);
-  state.dailyRecords.push(record);
+  // Keep the chain alive even if this write fails
+  pendingWrite = write.catch((error) => {
+    console.error('[RateLimiter] Failed to persist send record:', error);
+  });
+
+  return pendingWrite;
 }
 
 /**
- * Get current rate limit status
+ * Get current rate limit status. Counts and limits are the account's; the
+ * remaining figures also account for the scope, whose own usage is reported separately.
  */
-export function getRateLimitStatus(): {
+export async function getRateLimitStatus(target: RateLimitTarget = {}): Promise<{
+  account: string;
   hourlyCount: number;
   hourlyLimit: number;
   hourlyRemaining: number;
   dailyCount: number;
   dailyLimit: number;
   dailyRemaining: number;
-} {
-  cleanupRecords();
+  scope?: {
+    label: string;
+    hourlyCount: number;
+    hourlyLimit: number;
+    dailyCount: number;
+    dailyLimit: number;
+  };
+}> {
+  const account = accountScope(target.account);
+  const accountCheck = await checkWindow(account);
 
-  const config = getConfig();
+  const status = {
+    account: getAccount(target.account).id,
+    hourlyCount: accountCheck.hourlyCount,
+    hourlyLimit: account.maxPerHour,
+    hourlyRemaining: accountCheck.hourlyRemaining,
+    dailyCount: accountCheck.dailyCount,
+    dailyLimit: account.maxPerDay,
+    dailyRemaining: accountCheck.dailyRemaining
+  };
+
+  if (!target.scope) {
+    return status;
+  }
+
+  const scoped = await checkWindow(target.scope);
 
   return {
-    hourlyCount: state.hourlyRecords.length,
-    hourlyLimit: config.rateLimit.maxPerHour,
-    hourlyRemaining: Math.max(0, config.rateLimit.maxPerHour - state.hourlyRecords.length),
-    dailyCount: state.dailyRecords.length,
-    dailyLimit: config.rateLimit.maxPerDay,
-    dailyRemaining: Math.max(0, config.rateLimit.maxPerDay - state.dailyRecords.length)
+    ...status,
+    hourlyRemaining: Math.min(status.hourlyRemaining, scoped.hourlyRemaining),
+    dailyRemaining: Math.min(status.dailyRemaining, scoped.dailyRemaining),
+    scope: {
+      label: target.scope.label,
+      hourlyCount: scoped.hourlyCount,
+      hourlyLimit: target.scope.maxPerHour,
+      dailyCount: scoped.dailyCount,
+      dailyLimit: target.scope.maxPerDay
+    }
   };
 }
 
+/**
+ * When a window next has room: now if it isn't full, otherwise when enough of
+ * its oldest sends age out
+ */
+async function windowOpensAt(scope: RateLimitScope): Promise<number> {
+  const now = Date.now();
+  const daily = (await loadWindow(scope.bucket)).sort((a, b) => a - b);
+  const hourly = daily.filter((timestamp) => now - timestamp < ONE_HOUR_MS);
+  let opensAt = now;
+
+  if (hourly.length >= scope.maxPerHour) {
+    opensAt = Math.max(opensAt, (hourly[hourly.length - scope.maxPerHour] ?? now) + ONE_HOUR_MS);
+  }
+  if (daily.length >= scope.maxPerDay) {
+    opensAt = Math.max(opensAt, (daily[daily.length - scope.maxPerDay] ?? now) + ONE_DAY_MS);
+  }
+
+  return opensAt;
+}
+
+/**
+ * Earliest time the target can send again (now when it isn't rate limited)
+ */
+export async function getNextSendTime(target: RateLimitTarget = {}): Promise<Date> {
+  const scopes = target.scope ? [accountScope(target.account), target.scope] : [accountScope(target.account)];
+  const times = await Promise.all(scopes.map(windowOpensAt));
+  return new Date(Math.max(...times));
+}
+
 /**
  * Check how many emails can be sent from a batch
  */
-export function getMaxBatchSize(requested: number): number {
-  const status = canSendEmail();
-  
+export async function getMaxBatchSize(requested: number, target: RateLimitTarget = {}): Promise<number> {
+  const status = await canSendEmail(target);
+
   if (!status.allowed) {
     return 0;
   }
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import { getConfig } from './config.js';
+import { getAccount } from './accounts.js';
+import { flattenAddresses, parseAddressList } from './messageBuilder.js';
+
+/**
+ * Who mail may be sent to. Every send path checks recipients here before
+ * anything goes out: allow and block lists of addresses or domains (with *
+ * wildcards), a per-message recipient limit, the sender's own address, and a
+ * suppression list of people who asked not to be contacted.
+ *
+ * The base policy comes from the environment; RECIPIENT_POLICY_FILE and
+ * SUPPRESSION_LIST_FILE are re-read whenever they change, so lists can be
+ * updated without restarting the server.
+ */
+
+export interface RecipientPolicy {
+  // When non-empty, only matching recipients are allowed
+  allow: string[];
+  block: string[];
+  // 0: no limit
+  maxRecipientsPerMessage: number;
+  blockSelf: boolean;
+  suppressed: string[];
+}
+
+export type PolicyRule = 'invalid_address' | 'suppressed' | 'self' | 'blocked' | 'not_allowed' | 'max_recipients';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  recipient?: string;
+  // The allow/block entry that decided it
+  pattern?: string;
+  message: string;
+}
+
+interface CachedFile<T> {
+  path: string;
+  mtimeMs: number;
+  value: T;
+}
+
+let policyFile: CachedFile<Partial<RecipientPolicy>> | null = null;
+let suppressionFile: CachedFile<string[]> | null = null;
+
+/**
+ * Read a file through a cache that is refreshed when its modification time
+ * changes. A file that becomes unreadable or is removed keeps its last good
+ * contents (and is reported); one that can't be read the first time fails the check.
+ */
+function readWatched<T>(
+  filePath: string,
+  cached: CachedFile<T> | null,
+  parse: (text: string) => T
+): CachedFile<T> {
+  let mtimeMs: number | undefined;
+
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+    if (cached && cached.path === filePath && cached.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    const value = parse(fs.readFileSync(filePath, 'utf-8'));
+    if (cached) {
+      console.error(`[RecipientPolicy] Reloaded ${filePath}`);
+    }
+    return { path: filePath, mtimeMs, value };
+  } catch (error) {
+    const message = `Could not load ${filePath}: ${error instanceof Error ? error.message : error}`;
+    if (cached && cached.path === filePath) {
+      console.error(`[RecipientPolicy] ${message}; keeping the previous version`);
+      // A file that was removed is read again as soon as it is back
+      return mtimeMs === undefined ? cached : { ...cached, mtimeMs };
+    }
+    throw new Error(message);
+  }
+}
+
+function parsePolicyFile(text: string): Partial<RecipientPolicy> {
+  const raw = JSON.parse(text) as Record<string, unknown>;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('expected a JSON object');
+  }
+
+  const list = (key: string): string[] | undefined => {
+    if (raw[key] === undefined) return undefined;
+    if (!Array.isArray(raw[key])) throw new Error(`"${key}" must be an array of strings`);
+    return (raw[key] as unknown[]).map(String);
+  };
+
+  return {
+    allow: list('allow'),
+    block: list('block'),
+    suppressed: list('suppressed'),
+    maxRecipientsPerMessage: raw.maxRecipientsPerMessage === undefined ? undefined : Number(raw.maxRecipientsPerMessage),
+    blockSelf: raw.blockSelf === undefined ? undefined : raw.blockSelf === true
+  };
+}
+
+/**
+ * One address per line (or comma-separated); # starts a comment
+ */
+function parseSuppressionList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*/, ''))
+    .flatMap((line) => line.split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The current policy: environment settings overridden by the policy file
+ */
+export function getRecipientPolicy(): RecipientPolicy {
+  const base = getConfig().recipientPolicy;
+  let fromFile: Partial<RecipientPolicy> = {};
+  let suppressed: string[] = [];
+
+  if (base.file) {
+    policyFile = readWatched(base.file, policyFile, parsePolicyFile);
+    fromFile = policyFile.value;
+  }
+  if (base.suppressionFile) {
+    suppressionFile = readWatched(base.suppressionFile, suppressionFile, parseSuppressionList);
+    suppressed = suppressionFile.value;
+  }
+
+  return {
+    allow: fromFile.allow ?? base.allow,
+    block: fromFile.block ?? base.block,
+    maxRecipientsPerMessage: fromFile.maxRecipientsPerMessage ?? base.maxRecipientsPerMessage,
+    blockSelf: fromFile.blockSelf ?? base.blockSelf,
+    suppressed: [...(fromFile.suppressed ?? []), ...suppressed].map((address) => address.toLowerCase())
+  };
+}
+
+/**
+ * Whether any recipient rule is configured (sends skip the check otherwise)
+ */
+export function isRecipientPolicyActive(): boolean {
+  const base = getConfig().recipientPolicy;
+  return !!(base.file || base.suppressionFile || base.allow.length || base.block.length ||
+    base.maxRecipientsPerMessage > 0 || base.blockSelf);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Match an address against a list entry. Entries with an @ match the whole
+ * address ("*@acme.com", "ceo@*"); other entries are domains and also match
+ * their subdomains ("acme.com" matches mail.acme.com, "*.io" any .io domain).
+ */
+export function matchesRecipientPattern(address: string, pattern: string): boolean {
+  const entry = pattern.trim().toLowerCase();
+  if (entry.includes('@')) {
+    return globToRegExp(entry).test(address);
+  }
+
+  const domain = address.slice(address.lastIndexOf('@') + 1);
+  return globToRegExp(entry).test(domain) || globToRegExp(`*.${entry}`).test(domain);
+}
+
+/**
+ * Bare, lower-cased addresses of each input ("Name <a@b.com>", groups, comma lists)
+ */
+function normalizeRecipients(recipients: string[]): { addresses: string[]; violations: PolicyViolation[] } {
+  const addresses: string[] = [];
+  const violations: PolicyViolation[] = [];
+
+  for (const recipient of recipients) {
+    try {
+      addresses.push(...flattenAddresses(parseAddressList(recipient, 'recipient')).map((mailbox) => mailbox.address.toLowerCase()));
+    } catch (error) {
+      violations.push({
+        rule: 'invalid_address',
+        recipient,
+        message: error instanceof Error ? error.message : `"${recipient}" is not a valid address`
+      });
+    }
+  }
+
+  return { addresses: [...new Set(addresses)], violations };
+}
+
+/**
+ * Check recipients against the policy. perMessage is the largest number of
+ * recipients on a single message (defaults to all of them, e.g. one message
+ * with To/Cc/Bcc); bulk sends pass 1 plus any shared Cc/Bcc.
+ */
+export function checkRecipients(options: {
+  recipients: string[];
+  perMessage?: number;
+  account?: string;
+}): PolicyViolation[] {
+  const policy = getRecipientPolicy();
+  const { addresses, violations } = normalizeRecipients(options.recipients);
+  const self = getAccount(options.account).email.toLowerCase();
+
+  for (const address of addresses) {
+    if (policy.suppressed.includes(address)) {
+      violations.push({ rule: 'suppressed', recipient: address, message: `${address} is on the suppression list (asked not to be contacted)` });
+      continue;
+    }
+    if (policy.blockSelf && address === self) {
+      violations.push({ rule: 'self', recipient: address, message: `${address} is the sending account's own address` });
+      continue;
+    }
+
+    const blockedBy = policy.block.find((pattern) => matchesRecipientPattern(address, pattern));
+    if (blockedBy) {
+      violations.push({ rule: 'blocked', recipient: address, pattern: blockedBy, message: `${address} is blocked by "${blockedBy}"` });
+      continue;
+    }
+    if (policy.allow.length > 0 && !policy.allow.some((pattern) => matchesRecipientPattern(address, pattern))) {
+      violations.push({ rule: 'not_allowed', recipient: address, message: `${address} is not on the allowlist` });
+    }
+  }
+
+  const perMessage = options.perMessage ?? addresses.length;
+  if (policy.maxRecipientsPerMessage > 0 && perMessage > policy.maxRecipientsPerMessage) {
+    violations.push({
+      rule: 'max_recipients',
+      message: `A message would have ${perMessage} recipients; the limit is ${policy.maxRecipientsPerMessage}`
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Tool result for a refused send: the error names each rule that was broken
+ */
+export function recipientPolicyError(violations: PolicyViolation[]): { success: false; error: string; policy_violations: PolicyViolation[] } {
+  const shown = violations.slice(0, 5).map((violation) => violation.message);
+  const more = violations.length > 5 ? ` (and ${violations.length - 5} more)` : '';
+
+  return {
+    success: false,
+    error: `Recipient policy: ${shown.join('; ')}${more}. Nothing was sent.`,
+    policy_violations: violations
+  };
+}
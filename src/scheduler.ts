@@ -0,0 +1,468 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfig } from './config.js';
+import { sendEmail, isDryRunMode } from './gmail.js';
+import { getAccount } from './accounts.js';
+import { canSendEmail, recordEmailSent, rateLimitScopeFor } from './rateLimiter.js';
+import { findApiKey } from './apiKeys.js';
+import { hashBody, logSend } from './sendLog.js';
+import { checkRecipients, isRecipientPolicyActive, recipientPolicyError } from './recipientPolicy.js';
+import { EmailAttachment } from './attachments.js';
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from './storage.js';
+
+// 'sending': claimed by one process, which is sending it right now
+export type ScheduledStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'expired';
+
+export interface ScheduledEmail {
+  to: string;
+  subject: string;
+  body?: string;
+  html?: string;
+  cc?: string[];
+  bcc?: string[];
+  // Sending account id (default account when unset)
+  account?: string;
+  // Stored as base64 so the job doesn't depend on local files still existing
+  attachments?: Array<{ filename: string; mime_type: string; content: string }>;
+}
+
+export interface ScheduledJob {
+  id: string;
+  status: ScheduledStatus;
+  sendAt: string;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  // Set when the job is postponed by rate limits or a transient failure
+  nextAttemptAt?: string;
+  lastError?: string;
+  // Process that claimed the job for sending, and until when the claim holds
+  claimedBy?: string;
+  leaseUntil?: string;
+  messageId?: string;
+  threadId?: string;
+  // Label of the API key that scheduled the job; its limits apply when sending
+  apiKey?: string;
+  email: ScheduledEmail;
+}
+
+const JOBS_FILE = 'scheduled-emails.json';
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+const RATE_LIMIT_DEFER_MS = 10 * 60 * 1000;
+// A claim outlives any real send; after it, the claiming process is assumed gone
+const SEND_LEASE_MS = 10 * 60 * 1000;
+// Identifies this process in claims (the stdio and HTTP servers may share a data directory)
+const WORKER_ID = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+function loadJobs(): ScheduledJob[] {
+  return readJsonFile<ScheduledJob[]>(getDataPath(JOBS_FILE), []);
+}
+
+/**
+ * Load, change and save the jobs under the file lock, so processes sharing
+ * the data directory can't overwrite each other's changes
+ */
+function changeJobs<T>(change: (jobs: ScheduledJob[]) => T): T {
+  const filePath = getDataPath(JOBS_FILE);
+  return withFileLock(filePath, () => {
+    const jobs = readJsonFile<ScheduledJob[]>(filePath, []);
+    const result = change(jobs);
+    writeJsonFile(filePath, jobs);
+    return result;
+  });
+}
+
+/**
+ * Update a single job in the store
+ */
+function updateJob(id: string, update: (job: ScheduledJob) => void): ScheduledJob {
+  return changeJobs((jobs) => {
+    const job = jobs.find((j) => j.id === id);
+
+    if (!job) {
+      throw new Error(`Scheduled email not found: ${id}`);
+    }
+
+    update(job);
+    job.updatedAt = new Date().toISOString();
+    return job;
+  });
+}
+
+function isDue(job: ScheduledJob, now: number): boolean {
+  return job.status === 'scheduled' &&
+    new Date(job.sendAt).getTime() <= now &&
+    (!job.nextAttemptAt || new Date(job.nextAttemptAt).getTime() <= now);
+}
+
+/**
+ * Resolve an absolute ISO timestamp or a relative delay ("90s", "15m", "2h", "1d12h") to a Date
+ */
+export function parseSendTime(options: { sendAt?: string; delay?: string }, now: Date = new Date()): Date {
+  if (options.sendAt && options.delay) {
+    throw new Error('Provide either send_at or delay, not both');
+  }
+
+  if (options.sendAt) {
+    const date = new Date(options.sendAt);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid send_at timestamp: ${options.sendAt}. Use ISO 8601, e.g. 2025-01-31T09:00:00Z`);
+    }
+    return date;
+  }
+
+  if (options.delay) {
+    const match = /^\s*(?:(\d+)\s*d)?\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+)\s*s)?\s*$/i.exec(options.delay);
+    if (!match || !match.slice(1).some(Boolean)) {
+      throw new Error(`Invalid delay: ${options.delay}. Use a duration like "30m", "2h" or "1d6h"`);
+    }
+
+    const [days, hours, minutes, seconds] = match.slice(1).map((part) => parseInt(part || '0', 10));
+    const delayMs = (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+    return new Date(now.getTime() + delayMs);
+  }
+
+  throw new Error('Either send_at or delay is required');
+}
+
+/**
+ * Queue an email to be sent at a later time
+ */
+export function scheduleEmail(
+  email: Omit<ScheduledEmail, 'attachments'> & { attachments?: EmailAttachment[] },
+  sendAt: Date,
+  options: { apiKey?: string } = {}
+): ScheduledJob {
+  if (!email.body && !email.html) {
+    throw new Error('Either body or html is required');
+  }
+
+  if (sendAt.getTime() < Date.now() - 60 * 1000) {
+    throw new Error('Scheduled time is in the past');
+  }
+
+  // Fail now rather than when the job comes due
+  getAccount(email.account);
+
+  const now = new Date().toISOString();
+  const job: ScheduledJob = {
+    id: uuidv4(),
+    status: 'scheduled',
+    sendAt: sendAt.toISOString(),
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+    apiKey: options.apiKey,
+    email: {
+      ...email,
+      attachments: email.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        mime_type: attachment.mimeType,
+        content: attachment.data.toString('base64')
+      }))
+    }
+  };
+
+  changeJobs((jobs) => {
+    jobs.push(job);
+  });
+
+  return job;
+}
+
+/**
+ * Get a scheduled job by id
+ */
+export function getScheduled(id: string): ScheduledJob {
+  const job = loadJobs().find((j) => j.id === id);
+  if (!job) {
+    throw new Error(`Scheduled email not found: ${id}`);
+  }
+  return job;
+}
+
+/**
+ * List scheduled jobs, soonest first
+ */
+export function listScheduled(status?: ScheduledStatus): ScheduledJob[] {
+  return loadJobs()
+    .filter((job) => !status || job.status === status)
+    .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+}
+
+/**
+ * Cancel a job that hasn't been sent yet
+ */
+export function cancelScheduled(id: string): ScheduledJob {
+  return updateJob(id, (job) => {
+    if (job.status !== 'scheduled') {
+      throw new Error(`Cannot cancel a job that is already ${job.status}`);
+    }
+    job.status = 'cancelled';
+  });
+}
+
+/**
+ * Move a pending job to a new send time
+ */
+export function reschedule(id: string, sendAt: Date): ScheduledJob {
+  if (sendAt.getTime() < Date.now() - 60 * 1000) {
+    throw new Error('Scheduled time is in the past');
+  }
+
+  return updateJob(id, (job) => {
+    if (job.status !== 'scheduled' && job.status !== 'expired') {
+      throw new Error(`Cannot reschedule a job that is already ${job.status}`);
+    }
+    job.status = 'scheduled';
+    job.sendAt = sendAt.toISOString();
+    job.nextAttemptAt = undefined;
+  });
+}
+
+/**
+ * Apply the missed-job policy to jobs that came due while the process was down
+ */
+function recoverMissedJobs(): void {
+  const config = getConfig();
+  const graceMs = config.scheduler.missedJobGraceMinutes * 60 * 1000;
+  const now = Date.now();
+
+  changeJobs((jobs) => {
+    for (const job of jobs) {
+      if (job.status !== 'scheduled' || now - new Date(job.sendAt).getTime() <= graceMs) {
+        continue;
+      }
+
+      if (config.scheduler.missedJobPolicy === 'expire') {
+        job.status = 'expired';
+        job.lastError = 'Missed while the server was not running';
+        job.updatedAt = new Date().toISOString();
+      }
+      // With the 'send' policy the job is simply picked up by the next tick
+    }
+  });
+}
+
+/**
+ * A send whose claim ran out may or may not have gone out (the claiming
+ * process stopped mid-send); don't repeat it
+ */
+function recoverInterruptedSends(): void {
+  const now = Date.now();
+
+  changeJobs((jobs) => {
+    for (const job of jobs) {
+      if (job.status === 'sending' && (!job.leaseUntil || new Date(job.leaseUntil).getTime() <= now)) {
+        job.status = 'failed';
+        job.lastError = 'Interrupted while sending (server stopped). Check Sent mail before retrying.';
+        job.claimedBy = undefined;
+        job.leaseUntil = undefined;
+        job.updatedAt = new Date().toISOString();
+      }
+    }
+  });
+}
+
+/**
+ * Mark a due job as being sent by this process. Returns undefined when it is
+ * no longer due (another process claimed it, or it was cancelled or moved).
+ */
+function claimJob(id: string): ScheduledJob | undefined {
+  return changeJobs((jobs) => {
+    const job = jobs.find((j) => j.id === id);
+    if (!job || !isDue(job, Date.now())) {
+      return undefined;
+    }
+
+    job.status = 'sending';
+    job.claimedBy = WORKER_ID;
+    job.leaseUntil = new Date(Date.now() + SEND_LEASE_MS).toISOString();
+    job.updatedAt = new Date().toISOString();
+    return job;
+  });
+}
+
+/**
+ * Put a claimed job back in the queue without an attempt (deferred, not sent)
+ */
+function releaseJob(id: string, update: (job: ScheduledJob) => void): void {
+  updateJob(id, (j) => {
+    j.status = 'scheduled';
+    j.claimedBy = undefined;
+    j.leaseUntil = undefined;
+    update(j);
+  });
+}
+
+/**
+ * Claim and send one due job, deferring it when rate limits are reached
+ */
+async function processJob(dueJob: ScheduledJob): Promise<void> {
+  const job = claimJob(dueJob.id);
+  if (!job) return;
+
+  const target = {
+    account: job.email.account,
+    scope: rateLimitScopeFor(job.apiKey ? findApiKey(job.apiKey) ?? { label: job.apiKey } : undefined)
+  };
+  if (isDryRunMode()) {
+    releaseJob(job.id, (j) => {
+      j.nextAttemptAt = new Date(Date.now() + RATE_LIMIT_DEFER_MS).toISOString();
+      j.lastError = 'Deferred: dry-run mode (GMAIL_MCP_DRY_RUN) is on';
+    });
+    return;
+  }
+
+  // The policy or suppression list may have changed since the job was scheduled
+  if (isRecipientPolicyActive()) {
+    const violations = checkRecipients({
+      recipients: [job.email.to, ...(job.email.cc ?? []), ...(job.email.bcc ?? [])],
+      account: job.email.account
+    });
+    if (violations.length > 0) {
+      const { error } = recipientPolicyError(violations);
+      logSend({
+        transport: 'scheduler',
+        apiKey: job.apiKey,
+        tool: 'schedule_email',
+        account: job.email.account,
+        to: job.email.to,
+        cc: job.email.cc,
+        bcc: job.email.bcc,
+        subject: job.email.subject,
+        status: 'refused',
+        error
+      });
+      updateJob(job.id, (j) => {
+        j.status = 'failed';
+        j.lastError = error;
+        j.claimedBy = undefined;
+        j.leaseUntil = undefined;
+      });
+      return;
+    }
+  }
+
+  const rateStatus = await canSendEmail(target);
+  if (!rateStatus.allowed) {
+    releaseJob(job.id, (j) => {
+      j.nextAttemptAt = new Date(Date.now() + RATE_LIMIT_DEFER_MS).toISOString();
+      j.lastError = `Deferred: ${rateStatus.reason}`;
+    });
+    return;
+  }
+
+  const { email } = job;
+  const result = await sendEmail({
+    ...email,
+    attachments: email.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      mimeType: attachment.mime_type,
+      data: Buffer.from(attachment.content, 'base64')
+    }))
+  });
+
+  if (result.success) {
+    await recordEmailSent(target);
+  }
+  logSend({
+    transport: 'scheduler',
+    apiKey: job.apiKey,
+    tool: 'schedule_email',
+    account: email.account,
+    to: email.to,
+    cc: email.cc,
+    bcc: email.bcc,
+    subject: email.subject,
+    bodyHash: hashBody(email.body, email.html),
+    messageId: result.messageId,
+    threadId: result.threadId,
+    status: result.success ? 'sent' : 'failed',
+    error: result.error
+  });
+
+  updateJob(job.id, (j) => {
+    j.attempts += 1;
+    j.status = 'scheduled';
+    j.claimedBy = undefined;
+    j.leaseUntil = undefined;
+
+    if (result.success) {
+      j.status = 'sent';
+      j.messageId = result.messageId;
+      j.threadId = result.threadId;
+      j.lastError = undefined;
+      j.nextAttemptAt = undefined;
+    } else if (j.attempts >= MAX_ATTEMPTS) {
+      j.status = 'failed';
+      j.lastError = result.error;
+    } else {
+      j.lastError = result.error;
+      j.nextAttemptAt = new Date(Date.now() + RETRY_DELAY_MS).toISOString();
+    }
+  });
+}
+
+/**
+ * Send every job that is due
+ */
+export async function runDueJobs(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  try {
+    recoverInterruptedSends();
+
+    const now = Date.now();
+    const due = loadJobs().filter((job) => isDue(job, now));
+
+    for (const job of due) {
+      try {
+        await processJob(job);
+      } catch (error) {
+        // Leave the claim to expire rather than risk sending twice
+        console.error(`[Scheduler] Error processing scheduled email ${job.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Scheduler] Error processing scheduled emails:', error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+/**
+ * Start the background scheduler (idempotent)
+ */
+export function startScheduler(): void {
+  if (schedulerTimer) return;
+
+  try {
+    recoverInterruptedSends();
+    recoverMissedJobs();
+  } catch (error) {
+    console.error('[Scheduler] Could not recover missed jobs:', error);
+  }
+
+  const intervalMs = Math.max(getConfig().scheduler.pollIntervalSeconds, 5) * 1000;
+  schedulerTimer = setInterval(() => { void runDueJobs(); }, intervalMs);
+  // Don't keep the process alive just for the scheduler
+  schedulerTimer.unref();
+
+  void runDueJobs();
+}
+
+/**
+ * Stop the background scheduler
+ */
+export function stopScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,106 @@
+import { getAccount, formatFromAddress } from './accounts.js';
+import { getGmailClient } from './gmail.js';
+import { displayMailbox, parseMailbox } from './messageBuilder.js';
+import { GMAIL_FEATURE_SCOPES, missingFeatures } from './gmailScopes.js';
+
+/**
+ * A "Send mail as" address configured in Gmail settings
+ */
+export interface SendAsAlias {
+  email: string;
+  displayName?: string;
+  replyTo?: string;
+  isPrimary: boolean;
+  isDefault: boolean;
+  // Gmail only sends from aliases whose ownership has been verified
+  verified: boolean;
+}
+
+// Aliases rarely change; cache them per account to avoid a settings call per send
+const ALIAS_CACHE_MS = 5 * 60 * 1000;
+const aliasCache = new Map<string, { aliases: SendAsAlias[]; fetchedAt: number }>();
+
+/**
+ * List the send-as aliases of an account (default account when omitted)
+ */
+export async function listSendAs(accountId?: string, options: { refresh?: boolean } = {}): Promise<SendAsAlias[]> {
+  const account = getAccount(accountId);
+  const cached = aliasCache.get(account.id);
+  if (cached && !options.refresh && Date.now() - cached.fetchedAt < ALIAS_CACHE_MS) {
+    return cached.aliases;
+  }
+
+  const gmail = getGmailClient(account.id);
+  const response = await gmail.users.settings.sendAs.list({ userId: 'me' });
+
+  const aliases = (response.data.sendAs ?? []).map((alias) => ({
+    email: alias.sendAsEmail ?? '',
+    displayName: alias.displayName || undefined,
+    replyTo: alias.replyToAddress || undefined,
+    isPrimary: !!alias.isPrimary,
+    isDefault: !!alias.isDefault,
+    verified: !!alias.isPrimary || alias.verificationStatus === 'accepted'
+  }));
+
+  aliasCache.set(account.id, { aliases, fetchedAt: Date.now() });
+  return aliases;
+}
+
+/**
+ * Resolve the From and Reply-To headers for a send. A requested `from` must be
+ * a verified send-as alias of the account; its display name defaults to the
+ * alias's (or, for the primary address, the account's) display name. Looking
+ * up aliases needs read access to the account.
+ */
+export async function resolveSender(options: {
+  account?: string;
+  from?: string;
+  replyTo?: string;
+}): Promise<{ from: string; replyTo?: string }> {
+  const account = getAccount(options.account);
+
+  if (!options.from) {
+    return {
+      from: formatFromAddress(account),
+      replyTo: options.replyTo ?? account.replyTo
+    };
+  }
+
+  const requested = parseMailbox(options.from, 'from address');
+
+  // The aliases come from Gmail settings, which a send-only token can't read
+  const notAuthorized = new Error(
+    `Sending from an alias needs ${GMAIL_FEATURE_SCOPES.read} to look up the verified send-as addresses of ${account.email}. ` +
+    'Run npm run auth with GMAIL_SCOPES including read and update the refresh token, or leave out from.'
+  );
+  if (missingFeatures(['read'], account.id).length > 0) {
+    throw notAuthorized;
+  }
+
+  let aliases: SendAsAlias[];
+  try {
+    aliases = await listSendAs(account.id);
+  } catch (error) {
+    // Scopes that couldn't be checked at startup surface here
+    if ((error as { status?: number }).status === 403) {
+      throw notAuthorized;
+    }
+    throw error;
+  }
+  const alias = aliases.find((a) => a.email.toLowerCase() === requested.address.toLowerCase());
+  const verified = aliases.filter((a) => a.verified).map((a) => a.email);
+
+  if (!alias || !alias.verified) {
+    throw new Error(
+      `"${requested.address}" is not a verified send-as address for ${account.email}. ` +
+      `Verified addresses: ${verified.join(', ') || 'none'}`
+    );
+  }
+
+  const displayName = requested.name ?? alias.displayName ?? (alias.isPrimary ? account.displayName : undefined);
+
+  return {
+    from: displayMailbox({ name: displayName, address: alias.email }),
+    replyTo: options.replyTo ?? alias.replyTo ?? account.replyTo
+  };
+}
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import http from 'http';
+import { createHash } from 'crypto';
+import { getDataPath, appendJsonLine } from './storage.js';
+
+/**
+ * Append-only audit log of outgoing mail. Every send path (the send tools,
+ * scheduled emails, campaigns, approval notifications) records each message
+ * it sends or fails to send, with who asked for it. Bodies are stored as a
+ * hash only.
+ */
+
+export type SendLogStatus = 'sent' | 'failed' | 'refused';
+
+/**
+ * One message, recorded with who sent it (the API key label, if any)
+ */
+export interface SendLogEntry {
+  timestamp: string;
+  transport: string;
+  apiKey?: string;
+  tool?: string;
+  account?: string;
+  to: string;
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  // SHA-256 of the plain-text and HTML bodies
+  bodyHash?: string;
+  messageId?: string;
+  threadId?: string;
+  // Entries written before statuses were recorded are sends
+  status?: SendLogStatus;
+  error?: string;
+}
+
+const SEND_LOG_FILE = 'send-log.jsonl';
+
+/**
+ * Hash of a message body for the log, so a send can be matched to its content without storing it
+ */
+export function hashBody(body?: string, html?: string): string | undefined {
+  if (body === undefined && html === undefined) return undefined;
+  return createHash('sha256').update(`${body ?? ''}\n${html ?? ''}`).digest('hex');
+}
+
+/**
+ * Append a send to the log. Failures are reported but never fail the send itself.
+ */
+export function logSend(entry: Omit<SendLogEntry, 'timestamp'>): void {
+  try {
+    appendJsonLine(getDataPath(SEND_LOG_FILE), {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      cc: entry.cc?.length ? entry.cc : undefined,
+      bcc: entry.bcc?.length ? entry.bcc : undefined,
+      status: entry.status ?? 'sent'
+    });
+  } catch (error) {
+    console.error('[SendLog] Failed to record send:', error);
+  }
+}
+
+export interface SendLogFilter {
+  // Substring of any To/Cc/Bcc address (case-insensitive)
+  recipient?: string;
+  since?: Date;
+  until?: Date;
+  status?: SendLogStatus;
+  account?: string;
+  tool?: string;
+  apiKey?: string;
+}
+
+/**
+ * Read the log, oldest first. Lines that can't be parsed (e.g. a partial last
+ * line after a crash) are skipped.
+ */
+export function readSendLog(filter: SendLogFilter = {}): SendLogEntry[] {
+  const filePath = getDataPath(SEND_LOG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const recipient = filter.recipient?.toLowerCase();
+  const entries: SendLogEntry[] = [];
+
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: SendLogEntry;
+    try {
+      entry = JSON.parse(line) as SendLogEntry;
+    } catch {
+      continue;
+    }
+
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) continue;
+    if (filter.until && time > filter.until.getTime()) continue;
+    if (filter.status && (entry.status ?? 'sent') !== filter.status) continue;
+    if (filter.account && entry.account !== filter.account) continue;
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.apiKey && entry.apiKey !== filter.apiKey) continue;
+    if (recipient && ![entry.to, ...(entry.cc ?? []), ...(entry.bcc ?? [])].some((address) => address?.toLowerCase().includes(recipient))) continue;
+
+    entries.push({ ...entry, status: entry.status ?? 'sent' });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse history filters from tool arguments or query parameters. Dates are ISO
+ * 8601; a bare date for "until" includes the whole day.
+ */
+export function parseSendLogFilter(params: {
+  recipient?: string;
+  since?: string;
+  until?: string;
+  status?: string;
+  account?: string;
+  tool?: string;
+}): SendLogFilter {
+  const parseDate = (value: string | undefined, name: string, endOfDay: boolean): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid ${name} date: "${value}" (use ISO 8601, e.g. 2025-01-31 or 2025-01-31T09:00:00Z)`);
+    }
+    return date;
+  };
+
+  if (params.status && !['sent', 'failed', 'refused'].includes(params.status)) {
+    throw new Error(`Invalid status: "${params.status}" (use sent, failed or refused)`);
+  }
+
+  return {
+    recipient: params.recipient || undefined,
+    since: parseDate(params.since, 'since', false),
+    until: parseDate(params.until, 'until', true),
+    status: params.status as SendLogStatus | undefined,
+    account: params.account || undefined,
+    tool: params.tool || undefined
+  };
+}
+
+const CSV_COLUMNS: Array<keyof SendLogEntry> = [
+  'timestamp', 'status', 'tool', 'transport', 'apiKey', 'account', 'to', 'cc', 'bcc',
+  'subject', 'bodyHash', 'messageId', 'threadId', 'error'
+];
+
+function csvField(value: unknown): string {
+  let text = Array.isArray(value) ? value.join('; ') : value === undefined || value === null ? '' : String(value);
+  // Keep spreadsheets from evaluating subjects like "=HYPERLINK(...)"
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format entries as CSV with a header row
+ */
+export function sendLogToCsv(entries: SendLogEntry[]): string {
+  const lines = entries.map((entry) => CSV_COLUMNS.map((column) => csvField(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * GET /api/send-history?format=jsonl|csv with the get_send_history filters as
+ * query parameters. The caller must already be authenticated; canSee limits
+ * the export to the entries they may read.
+ */
+export function handleSendHistoryExport(res: http.ServerResponse, url: URL, canSee: (entry: SendLogEntry) => boolean): void {
+  const params = url.searchParams;
+  let entries: SendLogEntry[];
+
+  try {
+    entries = readSendLog(parseSendLogFilter({
+      recipient: params.get('recipient') ?? undefined,
+      since: params.get('since') ?? undefined,
+      until: params.get('until') ?? undefined,
+      status: params.get('status') ?? undefined,
+      account: params.get('account') ?? undefined,
+      tool: params.get('tool') ?? undefined
+    })).filter(canSee);
+  } catch (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid request' }));
+    return;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  if (params.get('format') === 'csv') {
+    res.writeHead(200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="send-history-${date}.csv"`,
+      'Cache-Control': 'no-store'
+    });
+    res.end(sendLogToCsv(entries));
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Content-Disposition': `attachment; filename="send-history-${date}.jsonl"`,
+    'Cache-Control': 'no-store'
+  });
+  res.end(entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : ''));
+}
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config.js';
+
+/**
+ * Resolve a file inside the configured data directory, creating the directory if needed
+ */
+export function getDataPath(filename: string): string {
+  const { dataDir } = getConfig().storage;
+  fs.mkdirSync(dataDir, { recursive: true });
+  return path.join(dataDir, filename);
+}
+
+/**
+ * Read a JSON file, returning the fallback when it doesn't exist yet
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    // Never fall back here: the next write would silently discard the stored data
+    throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename)
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Append one JSON record as a line (for append-only logs)
+ */
+export function appendJsonLine(filePath: string, record: unknown): void {
+  fs.appendFileSync(filePath, JSON.stringify(record) + '\n');
+}
+
+// A lock older than this is left over from a crashed process
+const LOCK_STALE_MS = 30 * 1000;
+const LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Run a read-modify-write of a file while holding an exclusive lock
+ * (`<file>.lock`, created with O_EXCL), so several processes sharing a data
+ * directory can't interleave their updates
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // Released between our attempt and the check
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${filePath}`);
+    }
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Mail-merge template language:
+ *   {{field}}                     value of a row field (names are case-insensitive)
+ *   {{field|fallback text}}       value, or the fallback when the field is empty
+ *   {{#if field}}...{{else}}...{{/if}}
+ *   {{#unless field}}...{{/unless}}
+ * A field is false in a condition when it is missing, empty, "false", "no" or "0".
+ * In HTML templates values are HTML-escaped.
+ */
+
+export class TemplateError extends Error {}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; name: string; fallback?: string }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface Template {
+  source: string;
+  nodes: TemplateNode[];
+}
+
+export type TemplateRow = Record<string, unknown>;
+
+const FIELD_NAME = /^[^{}|#/]+$/;
+const FALSY_VALUES = new Set(['', 'false', 'no', '0']);
+
+/**
+ * Parse a template, reporting unbalanced blocks and malformed tags
+ */
+export function parseTemplate(source: string): Template {
+  const root: TemplateNode[] = [];
+  // Open blocks; `into` is where the next nodes go (then or otherwise branch)
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; keyword: 'if' | 'unless'; into: TemplateNode[] }> = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].into : root);
+
+  const tagPattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const tag = match[1];
+    const block = /^#(if|unless)\s+(.+)$/.exec(tag);
+
+    if (block) {
+      const name = block[2].trim();
+      if (!FIELD_NAME.test(name)) {
+        throw new TemplateError(`Invalid field name in "{{${tag}}}"`);
+      }
+      const node = { type: 'if' as const, name, negate: block[1] === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, keyword: block[1] as 'if' | 'unless', into: node.then });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.into === open.node.otherwise) {
+        throw new TemplateError('{{else}} without a matching {{#if}} or {{#unless}}');
+      }
+      open.into = open.node.otherwise;
+    } else if (/^\/(if|unless)$/.test(tag)) {
+      const open = stack.pop();
+      if (!open || `/${open.keyword}` !== tag) {
+        throw new TemplateError(`{{${tag}}} without a matching {{#${tag.slice(1)}}}`);
+      }
+    } else {
+      const [rawName, ...rest] = tag.split('|');
+      const name = rawName.trim();
+      if (!name || !FIELD_NAME.test(name)) {
+        throw new TemplateError(`Invalid tag "{{${tag}}}"`);
+      }
+      current().push({ type: 'field', name, fallback: rest.length > 0 ? rest.join('|').trim() : undefined });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`{{#${stack[stack.length - 1].keyword} ${stack[stack.length - 1].node.name}}} is missing its {{/${stack[stack.length - 1].keyword}}}`);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  return { source, nodes: root };
+}
+
+/**
+ * A template that outputs `text` as written ({{ has no meaning), except for
+ * the given single-brace placeholders such as {name}. A placeholder with no
+ * value stays as written.
+ */
+export function plainTemplate(text: string, placeholders: string[] = []): Template {
+  const nodes: TemplateNode[] = [];
+  const escaped = placeholders.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`\\{(${escaped.join('|')})\\}`, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while (placeholders.length > 0 && (match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push({ type: 'text', value: text.slice(lastIndex, match.index) });
+    }
+    nodes.push({ type: 'field', name: match[1], fallback: match[0] });
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+
+  return { source: text, nodes };
+}
+
+/**
+ * Look up a row field case-insensitively; null/undefined become ''
+ */
+function lookup(row: TemplateRow, name: string): string {
+  const key = name in row ? name : Object.keys(row).find((k) => k.trim().toLowerCase() === name.toLowerCase());
+  const value = key === undefined ? undefined : row[key];
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a template for one row. `missing` lists fields that were output
+ * (in the branches actually taken) with no value and no fallback.
+ */
+export function renderTemplate(
+  template: Template,
+  row: TemplateRow,
+  options: { html?: boolean } = {}
+): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        if (node.type === 'text') {
+          return node.value;
+        }
+        if (node.type === 'field') {
+          const value = lookup(row, node.name);
+          if (!value && node.fallback === undefined) {
+            missing.add(node.name);
+          }
+          const output = value || node.fallback || '';
+          return options.html ? escapeHtml(output) : output;
+        }
+        const truthy = !FALSY_VALUES.has(lookup(row, node.name).toLowerCase());
+        return render(truthy !== node.negate ? node.then : node.otherwise);
+      })
+      .join('');
+
+  return { text: render(template.nodes), missing: [...missing] };
+}
+
+/**
+ * Every field name a template refers to (outputs and conditions)
+ */
+export function templateFields(template: Template): string[] {
+  const fields = new Set<string>();
+  const walk = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'field') fields.add(node.name);
+      if (node.type === 'if') {
+        fields.add(node.name);
+        walk(node.then);
+        walk(node.otherwise);
+      }
+    }
+  };
+  walk(template.nodes);
+  return [...fields];
+}
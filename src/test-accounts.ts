@@ -0,0 +1,147 @@
+/**
+ * Tests for multiple Gmail accounts: loading them from the environment and an
+ * accounts file, separate rate-limit windows per account and key, and routing
+ * sends with from_account. Sends are dry runs; nothing reaches Gmail.
+ * Run with: npm run test:accounts
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-accounts-'));
+const accountsPath = path.join(dataDir, 'accounts.json');
+fs.writeFileSync(accountsPath, JSON.stringify([
+  { id: 'sales', email: 'sales@example.com', displayName: 'Sales, EU', refreshToken: 'sales-token', maxPerHour: 1 }
+]));
+
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID = 'shared-client';
+process.env.GMAIL_CLIENT_SECRET = 'shared-secret';
+process.env.GMAIL_REFRESH_TOKEN = 'default-token';
+process.env.GMAIL_USER_EMAIL = 'me@example.com';
+process.env.GMAIL_ACCOUNTS = 'support';
+process.env.GMAIL_SUPPORT_USER_EMAIL = 'support@example.com';
+process.env.GMAIL_SUPPORT_DISPLAY_NAME = 'Support Team';
+process.env.GMAIL_SUPPORT_REFRESH_TOKEN = 'support-token';
+process.env.GMAIL_SUPPORT_CLIENT_ID = 'support-client';
+process.env.GMAIL_ACCOUNTS_FILE = accountsPath;
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.MAX_EMAILS_PER_HOUR = '5';
+delete process.env.GMAIL_DEFAULT_ACCOUNT;
+delete process.env.GMAIL_ACCOUNT_ID;
+
+const { getAccount, listAccounts, formatFromAddress } = await import('./accounts.js');
+const { canSendEmail, recordEmailSent, setRateLimitStore, createMemoryRateLimitStore, createFileRateLimitStore, rateLimitScopeFor } = await import('./rateLimiter.js');
+const { runTool } = await import('./tools/index.js');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  setRateLimitStore(createMemoryRateLimitStore());
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const context = { transport: 'http' as const, allowLocalPaths: false };
+
+function header(result: Record<string, unknown>, name: string): string | undefined {
+  const preview = (result.results as Array<{ preview: { headers: Array<{ name: string; value: string }> } }>)[0].preview;
+  return preview.headers.find((h) => h.name === name)?.value;
+}
+
+console.log('\nConfiguration');
+
+await test('accounts come from the default credentials, the accounts file and GMAIL_ACCOUNTS', () => {
+  assert.deepEqual(listAccounts().map((account) => account.id), ['default', 'sales', 'support']);
+  assert.equal(getAccount().email, 'me@example.com');
+  assert.equal(getAccount('support').refreshToken, 'support-token');
+});
+
+await test('accounts share the default OAuth client unless they set their own', () => {
+  assert.equal(getAccount('support').clientId, 'support-client');
+  assert.equal(getAccount('support').clientSecret, 'shared-secret');
+  assert.equal(getAccount('sales').clientId, 'shared-client');
+});
+
+await test('unknown account ids name the available ones', () => {
+  assert.throws(() => getAccount('billing'), /Unknown account "billing"\. Available accounts: default, sales, support/);
+});
+
+await test('display names are quoted in the From address', () => {
+  assert.equal(formatFromAddress(getAccount('support')), '"Support Team" <support@example.com>');
+  assert.equal(formatFromAddress(getAccount('sales')), '"Sales, EU" <sales@example.com>');
+  assert.equal(formatFromAddress(getAccount()), 'me@example.com');
+});
+
+console.log('\nRate limits');
+
+await test('each account has its own window', async () => {
+  await recordEmailSent({ account: 'sales' });
+  assert.equal((await canSendEmail({ account: 'sales' })).allowed, false);
+  assert.equal((await canSendEmail({ account: 'support' })).allowed, true);
+  assert.equal((await canSendEmail()).allowed, true);
+});
+
+await test('a blocked account names itself in the reason', async () => {
+  await recordEmailSent({ account: 'sales' });
+  assert.match((await canSendEmail({ account: 'sales' })).reason ?? '', /Hourly limit for account "sales" reached \(1\/hour\)/);
+});
+
+await test('labels that only differ in punctuation keep separate stored windows', async () => {
+  setRateLimitStore(createFileRateLimitStore(path.join(dataDir, 'rate-limit.json')));
+  const spaced = rateLimitScopeFor({ label: 'a b', maxPerHour: 1 })!;
+  const underscored = rateLimitScopeFor({ label: 'a_b', maxPerHour: 1 })!;
+
+  await recordEmailSent({ scope: spaced });
+  assert.equal((await canSendEmail({ scope: spaced })).allowed, false);
+  assert.equal((await canSendEmail({ scope: underscored })).allowed, true);
+});
+
+await test('list_accounts shows each account\'s usage, never credentials', async () => {
+  await recordEmailSent({ account: 'support' });
+  const result = await runTool('list_accounts', {}, context);
+  const accounts = result.accounts as Array<Record<string, any>>;
+
+  assert.deepEqual(accounts.map((account) => [account.id, account.default, account.hourly.sent, account.hourly.limit]), [
+    ['default', true, 0, 5],
+    ['sales', false, 0, 1],
+    ['support', false, 1, 5]
+  ]);
+  assert.doesNotMatch(JSON.stringify(result), /token|secret/i);
+});
+
+console.log('\nRouting');
+
+await test('from_account picks the sending address', async () => {
+  const result = await runTool('send_email', { to: 'a@example.org', subject: 'Hi', body: 'Hello', from_account: 'support', dry_run: true }, context);
+  assert.equal(result.success, true);
+  assert.equal(header(result, 'From'), 'Support Team <support@example.com>');
+});
+
+await test('without from_account the default account sends', async () => {
+  const result = await runTool('send_email', { to: 'a@example.org', subject: 'Hi', body: 'Hello', dry_run: true }, context);
+  assert.equal(header(result, 'From'), 'me@example.com');
+});
+
+await test('an unknown from_account is an error, not a fallback', async () => {
+  const result = await runTool('send_email', { to: 'a@example.org', subject: 'Hi', body: 'Hello', from_account: 'billing', dry_run: true }, context);
+  assert.equal(result.success, false);
+  assert.match(String(result.error), /Unknown account "billing"/);
+});
+
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,243 @@
+/**
+ * Tests for background campaigns: the stores, pause/resume/cancel, stopping at
+ * a rate limit without resending, claims shared between processes, interrupted
+ * sends, the recipient policy mid-campaign, plain-text bulk sends and who may
+ * see or control a campaign. The runner is never left free to send, so
+ * nothing reaches Gmail. Run with: npm run test:campaigns
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Campaign, CampaignStore } from './campaigns.js';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-campaigns-'));
+const suppressionPath = path.join(dataDir, 'suppressed.txt');
+fs.writeFileSync(suppressionPath, 'gone@example.com\n');
+
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID ??= 'test-client';
+process.env.GMAIL_CLIENT_SECRET ??= 'test-secret';
+process.env.GMAIL_REFRESH_TOKEN ??= 'test-token';
+process.env.GMAIL_USER_EMAIL ??= 'me@example.com';
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.MAX_EMAILS_PER_HOUR = '2';
+process.env.SUPPRESSION_LIST_FILE = suppressionPath;
+process.env.APPROVAL_APPROVER_KEYS = 'ops';
+
+const campaigns = await import('./campaigns.js');
+const { setRateLimitStore, createMemoryRateLimitStore, recordEmailSent } = await import('./rateLimiter.js');
+const { readSendLog } = await import('./sendLog.js');
+const { runTool } = await import('./tools/index.js');
+
+let store: CampaignStore;
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  store = campaigns.createMemoryCampaignStore();
+  campaigns.setCampaignStore(store);
+  setRateLimitStore(createMemoryRateLimitStore());
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/** Use up the hourly limit so any send would be deferred */
+async function exhaustRateLimit(): Promise<void> {
+  await recordEmailSent();
+  await recordEmailSent();
+}
+
+function start(recipients: string[]): Promise<Campaign> {
+  return campaigns.startCampaign({
+    email: { subject: 'Hello {{name}}', body: 'Hi {{name}}' },
+    rows: recipients.map((email) => ({ email, name: email.split('@')[0] })),
+    emailField: 'email'
+  });
+}
+
+/** Change a stored campaign the way an earlier run of the server would have */
+async function editCampaign(id: string, edit: (campaign: Campaign) => void): Promise<void> {
+  await store.update((stored) => {
+    edit(stored.find((campaign) => campaign.id === id)!);
+    return stored;
+  });
+}
+
+console.log('\nStores');
+
+await test('the memory store hands out copies', async () => {
+  const campaign = await start(['a@example.com']);
+  (await store.load())[0].status = 'cancelled';
+  assert.equal((await campaigns.getCampaign(campaign.id)).status, 'running');
+});
+
+await test('the file store keeps campaigns across restarts', async () => {
+  const filePath = path.join(dataDir, 'campaigns-test.json');
+  campaigns.setCampaignStore(campaigns.createFileCampaignStore(filePath));
+  const campaign = await start(['a@example.com', 'b@example.com']);
+
+  campaigns.setCampaignStore(campaigns.createFileCampaignStore(filePath));
+  const reloaded = await campaigns.getCampaign(campaign.id);
+  assert.deepEqual(reloaded.recipients.map((r) => r.email), ['a@example.com', 'b@example.com']);
+  assert.equal(reloaded.status, 'running');
+});
+
+console.log('\nControl');
+
+await test('pause, resume and cancel move through the allowed states', async () => {
+  const campaign = await start(['a@example.com', 'b@example.com']);
+
+  assert.equal((await campaigns.pauseCampaign(campaign.id)).status, 'paused');
+  await assert.rejects(campaigns.pauseCampaign(campaign.id), /Cannot pause a campaign that is paused/);
+  assert.equal((await campaigns.resumeCampaign(campaign.id)).status, 'running');
+
+  const cancelled = await campaigns.cancelCampaign(campaign.id);
+  assert.equal(cancelled.status, 'cancelled');
+  assert.deepEqual(campaigns.countRecipients(cancelled), { total: 2, pending: 0, sending: 0, sent: 0, failed: 0, cancelled: 2 });
+  await assert.rejects(campaigns.resumeCampaign(campaign.id), /Cannot resume a campaign that is cancelled/);
+});
+
+await test('a paused campaign is not worked on', async () => {
+  const campaign = await start(['a@example.com']);
+  await campaigns.pauseCampaign(campaign.id);
+
+  await campaigns.runDueCampaigns();
+  const after = await campaigns.runCampaignUntilBlocked(campaign.id);
+  assert.equal(after.status, 'paused');
+  assert.equal(after.recipients[0].status, 'pending');
+  assert.equal(after.recipients[0].attempts, 0);
+});
+
+console.log('\nRate limits and restarts');
+
+await test('a campaign stops at the rate limit and keeps its place', async () => {
+  const campaign = await start(['a@example.com', 'b@example.com']);
+  await editCampaign(campaign.id, (c) => {
+    c.recipients[0].status = 'sent';
+    c.recipients[0].attempts = 1;
+    c.recipients[0].messageId = 'already-sent';
+  });
+  await exhaustRateLimit();
+
+  const stopped = await campaigns.runCampaignUntilBlocked(campaign.id);
+  assert.equal(stopped.status, 'running');
+  assert.match(stopped.waitingReason ?? '', /Waiting for rate limit/);
+  assert.ok(new Date(stopped.nextSendAt).getTime() > Date.now());
+  assert.deepEqual(stopped.recipients.map((r) => [r.status, r.attempts]), [['sent', 1], ['pending', 0]]);
+  assert.equal(stopped.recipients[0].messageId, 'already-sent');
+
+  // Not due again until the limit opens
+  await campaigns.runDueCampaigns();
+  assert.deepEqual((await campaigns.getCampaign(campaign.id)).recipients.map((r) => r.status), ['sent', 'pending']);
+});
+
+await test('a recipient claimed by another process is left alone', async () => {
+  const campaign = await start(['a@example.com', 'b@example.com']);
+  const leaseUntil = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+  await editCampaign(campaign.id, (c) => {
+    c.recipients[0].status = 'sending';
+    c.recipients[0].claimedBy = 'other-host:1:abc';
+    c.recipients[0].leaseUntil = leaseUntil;
+  });
+
+  await campaigns.runDueCampaigns();
+
+  const after = await campaigns.getCampaign(campaign.id);
+  assert.deepEqual(after.recipients.map((r) => [r.status, r.claimedBy]), [['sending', 'other-host:1:abc'], ['pending', undefined]]);
+  assert.ok(new Date(after.nextSendAt).getTime() > Date.now());
+});
+
+await test('a send interrupted by a restart is failed, not repeated', async () => {
+  const campaign = await start(['a@example.com']);
+  await editCampaign(campaign.id, (c) => {
+    c.recipients[0].status = 'sending';
+  });
+
+  campaigns.startCampaignRunner();
+  const deadline = Date.now() + 5000;
+  while ((await campaigns.getCampaign(campaign.id)).status === 'running' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  campaigns.stopCampaignRunner();
+
+  const after = await campaigns.getCampaign(campaign.id);
+  assert.equal(after.status, 'completed');
+  assert.equal(after.recipients[0].status, 'failed');
+  assert.match(after.recipients[0].error ?? '', /Interrupted while sending/);
+  assert.equal(after.recipients[0].attempts, 0);
+});
+
+await test('a recipient suppressed after the start is refused, not sent', async () => {
+  const campaign = await start(['gone@example.com']);
+
+  await campaigns.runDueCampaigns();
+  await campaigns.runDueCampaigns();
+
+  const after = await campaigns.getCampaign(campaign.id);
+  assert.equal(after.status, 'completed');
+  assert.equal(after.recipients[0].status, 'failed');
+  assert.match(after.recipients[0].error ?? '', /suppression list/);
+  assert.deepEqual(readSendLog({ recipient: 'gone@example.com' }).map((entry) => entry.status), ['refused']);
+});
+
+console.log('\nBulk sends');
+
+await test('send_bulk_emails sends its body as written, filling in only {name}', async () => {
+  const context = { transport: 'http' as const, allowLocalPaths: false };
+  const result = await runTool('send_bulk_emails', {
+    recipients: ['ann@example.com', 'bob@example.com'],
+    subject: 'Use {{ and }} in {{templates}}',
+    body: 'Hi {name}, the syntax is {{field|fallback}}.',
+    personalize_greeting: true,
+    recipient_names: ['Ann'],
+    dry_run: true
+  }, context);
+  const messages = result.messages as Array<{ text: string; headers: Array<{ name: string; value: string }> }>;
+  assert.equal(result.success, true);
+  assert.deepEqual(messages.map((m) => m.text), ['Hi Ann, the syntax is {{field|fallback}}.', 'Hi {name}, the syntax is {{field|fallback}}.']);
+  assert.equal(messages[0].headers.find((h) => h.name === 'Subject')?.value, 'Use {{ and }} in {{templates}}');
+
+  // The started campaign renders its messages the same way
+  await exhaustRateLimit();
+  const started = await runTool('send_bulk_emails', { recipients: ['ann@example.com'], subject: 'Hi', body: 'Use {{ freely' }, context);
+  assert.equal(started.success, true);
+  assert.equal((await campaigns.getCampaign(started.campaign_id as string)).email.plainText, true);
+});
+
+console.log('\nOwnership');
+
+await test('callers only see and control their own campaigns', async () => {
+  const alice = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'alice' } };
+  const bob = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'bob' } };
+  const ops = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'ops' } };
+
+  const started = await runTool('start_campaign', { recipients: ['a@example.com'], subject: 'Hi', body: 'Hello' }, alice);
+  const campaignId = started.campaign_id as string;
+  await campaigns.pauseCampaign(campaignId);
+
+  assert.equal((await runTool('campaign_status', {}, bob)).count, 0);
+  assert.equal((await runTool('campaign_status', { campaign_id: campaignId }, bob)).success, false);
+  assert.equal((await runTool('resume_campaign', { campaign_id: campaignId }, bob)).success, false);
+  assert.equal((await runTool('cancel_campaign', { campaign_id: campaignId }, bob)).success, false);
+  assert.equal((await campaigns.getCampaign(campaignId)).status, 'paused');
+
+  assert.equal((await runTool('campaign_status', {}, ops)).count, 1);
+  assert.equal((await runTool('cancel_campaign', { campaign_id: campaignId }, alice)).success, true);
+});
+
+campaigns.stopCampaignRunner();
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
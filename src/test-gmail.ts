@@ -49,11 +49,7 @@ async function testGmail() {
   }
 
   // Create OAuth2 client
-  const oauth2Client = new google.auth.OAuth2(
-    clientId,
-    clientSecret,
-    'https://developers.google.com/oauthplayground'
-  );
+  const oauth2Client = new google.auth.OAuth2(clientId, clientSecret);
 
   oauth2Client.setCredentials({
     refresh_token: refreshToken
@@ -82,15 +78,8 @@ async function testGmail() {
     if (error.message.includes('invalid_grant') || error.message.includes('unauthorized_client')) {
       console.log('🔧 FIX: You need a NEW refresh token!');
       console.log('');
-      console.log('1. Go to: https://developers.google.com/oauthplayground');
-      console.log('2. Click ⚙️ → Check "Use your own OAuth credentials"');
-      console.log('3. Enter your Client ID and Client Secret from .env');
-      console.log('4. Select Gmail API v1 scopes:');
-      console.log('   - https://www.googleapis.com/auth/gmail.send');
-      console.log('   - https://www.googleapis.com/auth/gmail.readonly');
-      console.log('5. Click "Authorize APIs" → Sign in');
-      console.log('6. Click "Exchange authorization code for tokens"');
-      console.log('7. Copy the new Refresh Token to your .env file');
+      console.log('Run: npm run auth');
+      console.log('It opens Google\'s consent page and saves the new refresh token to .env.');
     }
   }
 }
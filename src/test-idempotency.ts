@@ -0,0 +1,153 @@
+/**
+ * Tests for duplicate-send protection: idempotency keys, the duplicate window
+ * and their use by send tools. Nothing here reaches Gmail.
+ * Run with: npm run test:idempotency
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-idempotency-'));
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID ??= 'test-client';
+process.env.GMAIL_CLIENT_SECRET ??= 'test-secret';
+process.env.GMAIL_REFRESH_TOKEN ??= 'test-token';
+process.env.GMAIL_USER_EMAIL ??= 'me@example.com';
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.APPROVAL_POLICY = 'always';
+
+const { checkSend, finishSend, hashRequest, setIdempotencyStore, createMemoryIdempotencyStore, createFileIdempotencyStore } = await import('./idempotency.js');
+const { runTool } = await import('./tools/index.js');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  setIdempotencyStore(createMemoryIdempotencyStore());
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const email = { to: 'someone@example.com', subject: 'Hello', body: 'Hi there' };
+
+console.log('\nIdempotency keys');
+
+await test('a retry with the same key replays the stored result', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'k1' } };
+  assert.equal((await checkSend(request)).status, 'new');
+  await finishSend(request, { success: true, messageId: 'm1' });
+
+  const retry = await checkSend(request);
+  assert.equal(retry.status, 'replay');
+  assert.equal(retry.status === 'replay' && retry.result.messageId, 'm1');
+});
+
+await test('a key in flight blocks a concurrent retry', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'k2' } };
+  assert.equal((await checkSend(request)).status, 'new');
+
+  const concurrent = await checkSend(request);
+  assert.equal(concurrent.status, 'blocked');
+  assert.match(concurrent.status === 'blocked' ? String(concurrent.result.error) : '', /still being processed/);
+
+  await finishSend(request, { success: true });
+  assert.equal((await checkSend(request)).status, 'replay');
+});
+
+await test('a key reserved by another process sharing the store blocks the send', async () => {
+  const filePath = path.join(dataDir, 'idempotency-shared.json');
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'k5' } };
+  setIdempotencyStore(createFileIdempotencyStore(filePath));
+  assert.equal((await checkSend(request)).status, 'new');
+
+  // Another process opens the same file
+  setIdempotencyStore(createFileIdempotencyStore(filePath));
+  assert.equal((await checkSend(request)).status, 'blocked');
+
+  // A reservation left behind by a process that stopped runs out
+  const records = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  records[0].expiresAt = Date.now() - 1;
+  fs.writeFileSync(filePath, JSON.stringify(records));
+  assert.equal((await checkSend(request)).status, 'new');
+});
+
+await test('reusing a key for different content is refused', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'k3' } };
+  await checkSend(request);
+  await finishSend(request, { success: true });
+
+  const other = await checkSend({ ...request, args: { ...request.args, subject: 'Something else' } });
+  assert.equal(other.status, 'blocked');
+  assert.match(other.status === 'blocked' ? String(other.result.error) : '', /different request/);
+});
+
+await test('a failed send is not stored, so the key can be retried', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'k4' } };
+  await checkSend(request);
+  await finishSend(request, { success: false, error: 'Gmail is down' });
+  assert.equal((await checkSend(request)).status, 'new');
+});
+
+await test('keys belong to the caller that used them', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email, idempotency_key: 'shared' } };
+  await checkSend(request);
+  await finishSend(request, { success: true });
+  assert.equal((await checkSend({ ...request, owner: 'bob' })).status, 'new');
+});
+
+console.log('\nDuplicate window');
+
+await test('an identical send without a key is blocked unless confirmed', async () => {
+  const request = { owner: 'alice', tool: 'send_email', args: { ...email } };
+  await checkSend(request);
+  await finishSend(request, { success: true });
+
+  const again = await checkSend(request);
+  assert.equal(again.status, 'blocked');
+  assert.equal(again.status === 'blocked' && again.result.duplicate, true);
+  assert.equal((await checkSend({ ...request, args: { ...email, confirm_duplicate: true } })).status, 'new');
+});
+
+await test('argument order and retry-control arguments do not change the hash', () => {
+  const a = hashRequest('send_email', { to: 'x@example.com', subject: 's', idempotency_key: 'a' });
+  const b = hashRequest('send_email', { subject: 's', to: 'x@example.com', confirm_duplicate: true });
+  assert.equal(a, b);
+  assert.notEqual(a, hashRequest('send_email', { to: 'y@example.com', subject: 's' }));
+});
+
+console.log('\nSend tools');
+
+await test('a retried send_email gets the same approval request back', async () => {
+  const context = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'alice' } };
+  const first = await runTool('send_email', { ...email, idempotency_key: 'tool-1' }, context);
+  assert.equal(first.pending_approval, true);
+
+  const retry = await runTool('send_email', { ...email, idempotency_key: 'tool-1' }, context);
+  assert.equal(retry.idempotent_replay, true);
+  assert.equal(retry.approval_id, first.approval_id);
+});
+
+await test('dry runs are never deduplicated', async () => {
+  const context = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'alice' } };
+  const args = { ...email, dry_run: true, idempotency_key: 'tool-2' };
+  assert.equal((await runTool('send_email', args, context)).dry_run, true);
+  const again = await runTool('send_email', args, context);
+  assert.equal(again.dry_run, true);
+  assert.equal(again.idempotent_replay, undefined);
+});
+
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
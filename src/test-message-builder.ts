@@ -0,0 +1,362 @@
+/**
+ * Adversarial tests for the message builder (header injection, encoding,
+ * folding, address parsing). Run with: npm run test:message-builder
+ */
+
+import assert from 'node:assert/strict';
+import {
+  buildMessage,
+  parseAddressList,
+  parseMailbox,
+  formatMailbox,
+  displayMailbox,
+  describeMessage,
+  formatAddressList,
+  encodeHeaderText,
+  foldHeader,
+  formatDate,
+  validateAddress,
+  splitAddressList,
+  MessageValidationError,
+  MessageOptions
+} from './messageBuilder.js';
+
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void): void {
+  try {
+    fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function rejects(fn: () => unknown, pattern?: RegExp): void {
+  assert.throws(fn, (error: unknown) => {
+    assert.ok(error instanceof MessageValidationError, `expected MessageValidationError, got ${error}`);
+    if (pattern) assert.match(error.message, pattern);
+    return true;
+  });
+}
+
+const base: MessageOptions = {
+  from: 'sender@example.com',
+  to: 'rcpt@example.com',
+  subject: 'Hello',
+  body: 'Body text'
+};
+
+/** Header block of a built message, unfolded, as [name, value] pairs */
+function headersOf(options: Partial<MessageOptions>): Array<[string, string]> {
+  const message = buildMessage({ ...base, ...options });
+  const head = message.split('\r\n\r\n')[0].replace(/\r\n[ \t]/g, ' ');
+  return head.split('\r\n').map((line) => {
+    const colon = line.indexOf(':');
+    return [line.slice(0, colon), line.slice(colon + 1).trim()];
+  });
+}
+
+function header(options: Partial<MessageOptions>, name: string): string | undefined {
+  return headersOf(options).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+}
+
+function decodeWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?UTF-8\?B\?([^?]*)\?=/g, (_m, b64: string) => `\u0000${b64}\u0000`)
+    .split('\u0000')
+    .map((part, index) => (index % 2 === 1 ? Buffer.from(part, 'base64') : Buffer.from(part, 'utf-8')))
+    .reduce((all, buf) => Buffer.concat([all, buf]), Buffer.alloc(0))
+    .toString('utf-8');
+}
+
+console.log('\nHeader injection');
+
+test('CRLF in subject cannot add a header', () => {
+  const headers = headersOf({ subject: 'Hi\r\nBcc: victim@evil.com' });
+  assert.equal(headers.filter(([name]) => name === 'Bcc').length, 0);
+  assert.equal(header({ subject: 'Hi\r\nBcc: victim@evil.com' }, 'Subject'), 'Hi Bcc: victim@evil.com');
+});
+
+test('bare LF and bare CR in subject are neutralized', () => {
+  for (const subject of ['a\nX-Injected: 1', 'a\rX-Injected: 1', 'a\r\n\r\n<html>body</html>']) {
+    const message = buildMessage({ ...base, subject });
+    assert.ok(!/\r\nX-Injected/.test(message), subject);
+    assert.ok(!/[^\r]\n|\r[^\n]/.test(message.split('\r\n\r\n')[0]), 'stray line break in header block');
+  }
+});
+
+test('line breaks in recipients are rejected', () => {
+  rejects(() => buildMessage({ ...base, to: 'a@example.com\r\nBcc: evil@example.com' }), /line breaks/);
+  rejects(() => buildMessage({ ...base, cc: ['a@example.com\nBcc: evil@example.com'] }), /line breaks/);
+  rejects(() => buildMessage({ ...base, bcc: ['a@example.com\r'] }), /line breaks/);
+});
+
+test('line breaks in From and Reply-To are rejected', () => {
+  rejects(() => buildMessage({ ...base, from: 'me@example.com\r\nX-Evil: 1' }));
+  rejects(() => buildMessage({ ...base, replyTo: 'r@example.com\nX-Evil: 1' }));
+});
+
+test('folded header values (CRLF + space) are accepted in addresses', () => {
+  const [mailbox] = parseAddressList('"Jane Doe"\r\n <jane@example.com>');
+  assert.deepEqual(mailbox, { name: 'Jane Doe', address: 'jane@example.com' });
+});
+
+test('NUL and other control characters are stripped from subjects', () => {
+  assert.equal(header({ subject: 'A\u0000B\u0007C' }, 'Subject'), 'ABC');
+  rejects(() => parseAddressList('a\u0000@example.com'), /control characters/);
+});
+
+test('CRLF in display name is stripped when formatting', () => {
+  const formatted = formatMailbox({ name: 'Evil\r\nBcc: x@y.com', address: 'a@example.com' });
+  assert.ok(!/[\r\n]/.test(formatted));
+});
+
+test('In-Reply-To and References keep only message ids', () => {
+  const options = {
+    inReplyTo: '<abc@example.com>\r\nBcc: evil@example.com',
+    references: '<one@example.com> junk <two@example.com>\nX-Evil: 1'
+  };
+  assert.equal(header(options, 'In-Reply-To'), '<abc@example.com>');
+  assert.equal(header(options, 'References'), '<one@example.com> <two@example.com>');
+  assert.equal(header({ inReplyTo: 'not-a-message-id' }, 'In-Reply-To'), undefined);
+});
+
+test('attachment MIME type cannot inject headers', () => {
+  rejects(() => buildMessage({
+    ...base,
+    attachments: [{ filename: 'a.txt', mimeType: 'text/plain\r\nX-Evil: 1', data: Buffer.from('x') }]
+  }), /MIME type/);
+});
+
+test('attachment filename with CRLF and quotes stays in one parameter', () => {
+  const message = buildMessage({
+    ...base,
+    attachments: [{ filename: 'a"\r\nX-Evil: 1.txt', mimeType: 'text/plain', data: Buffer.from('x') }]
+  });
+  assert.ok(!/\r\nX-Evil/.test(message));
+});
+
+console.log('\nEncoding and folding');
+
+test('non-ASCII subject is RFC 2047 encoded and round-trips', () => {
+  const subject = 'Grüße aus München — 東京 🚀';
+  const encoded = header({ subject }, 'Subject') as string;
+  assert.match(encoded, /^=\?UTF-8\?B\?/);
+  assert.ok(/^[\x20-\x7e]*$/.test(encoded), 'header must be ASCII');
+  assert.equal(decodeWords(encoded), subject);
+});
+
+test('encoded-words never exceed 75 characters or split a character', () => {
+  const subject = '😀'.repeat(100) + 'é'.repeat(100);
+  const encoded = encodeHeaderText(subject);
+  for (const word of encoded.split(' ')) {
+    assert.ok(word.length <= 75, `${word.length} > 75`);
+    const inner = /^=\?UTF-8\?B\?(.*)\?=$/.exec(word)?.[1] as string;
+    assert.ok(!Buffer.from(inner, 'base64').toString('utf-8').includes('�'), 'split character');
+  }
+  assert.equal(decodeWords(encoded), subject);
+});
+
+test('ASCII text that looks like an encoded-word is encoded', () => {
+  const subject = '=?UTF-8?B?SGk=?= not really';
+  const encoded = encodeHeaderText(subject);
+  assert.notEqual(encoded, subject);
+  assert.equal(decodeWords(encoded), subject);
+});
+
+test('long subjects are folded to 78-character lines', () => {
+  const subject = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+  const message = buildMessage({ ...base, subject });
+  const head = message.split('\r\n\r\n')[0];
+  for (const line of head.split('\r\n')) {
+    assert.ok(line.length <= 78, `line too long: ${line.length}`);
+  }
+  assert.equal(header({ subject }, 'Subject'), subject);
+});
+
+test('an unbreakable 2000-character word is encoded so it can be folded', () => {
+  const subject = 'x'.repeat(2000);
+  const head = buildMessage({ ...base, subject }).split('\r\n\r\n')[0];
+  for (const line of head.split('\r\n')) {
+    assert.ok(line.length <= 998, `line exceeds 998: ${line.length}`);
+  }
+  assert.equal(decodeWords(header({ subject }, 'Subject') as string), subject);
+});
+
+test('long recipient lists fold between addresses', () => {
+  const to = Array.from({ length: 30 }, (_, i) => `person${i}@example.com`).join(', ');
+  const head = buildMessage({ ...base, to }).split('\r\n\r\n')[0];
+  assert.ok(head.split('\r\n').every((line) => line.length <= 78));
+  assert.equal(parseAddressList(header({ to }, 'To') as string).length, 30);
+});
+
+test('foldHeader keeps a single short line unchanged', () => {
+  assert.equal(foldHeader('Subject', 'Hello world'), 'Subject: Hello world');
+});
+
+test('non-ASCII display names are encoded, specials are quoted', () => {
+  assert.match(formatMailbox({ name: 'José Müller', address: 'j@example.com' }), /^=\?UTF-8\?B\?.+\?= <j@example\.com>$/);
+  assert.equal(formatMailbox({ name: 'Doe, John', address: 'j@example.com' }), '"Doe, John" <j@example.com>');
+  assert.equal(formatMailbox({ name: 'Say "hi"', address: 'j@example.com' }), '"Say \\"hi\\"" <j@example.com>');
+  assert.equal(formatMailbox({ name: 'Acme Support', address: 's@acme.com' }), 'Acme Support <s@acme.com>');
+});
+
+console.log('\nAddress parsing');
+
+test('quoted names with commas and angle addresses', () => {
+  assert.deepEqual(parseAddressList('"Doe, John" <john@example.com>, jane@example.com'), [
+    { name: 'Doe, John', address: 'john@example.com' },
+    { address: 'jane@example.com' }
+  ]);
+});
+
+test('unquoted multi-word names and comments', () => {
+  assert.deepEqual(parseAddressList('John Q. Public <jqp@example.com> (work)'), [
+    { name: 'John Q. Public', address: 'jqp@example.com' }
+  ]);
+  assert.deepEqual(parseAddressList('pete(his account)@silly.test'), [{ address: 'pete@silly.test' }]);
+});
+
+test('escaped quotes inside a display name', () => {
+  assert.deepEqual(parseMailbox('"Joe \\"The Boss\\" Smith" <joe@example.com>'), {
+    name: 'Joe "The Boss" Smith',
+    address: 'joe@example.com'
+  });
+});
+
+test('groups, including empty groups', () => {
+  const parsed = parseAddressList('Team: a@example.com, "B" <b@example.com>;, c@example.com, undisclosed-recipients:;');
+  assert.deepEqual(parsed, [
+    { group: 'Team', members: [{ address: 'a@example.com' }, { name: 'B', address: 'b@example.com' }] },
+    { address: 'c@example.com' },
+    { group: 'undisclosed-recipients', members: [] }
+  ]);
+  assert.equal(formatAddressList(parsed), 'Team: a@example.com, B <b@example.com>;, c@example.com, undisclosed-recipients: ;');
+});
+
+test('quoted local parts survive a round trip', () => {
+  const [mailbox] = parseAddressList('"john smith"@example.com');
+  assert.deepEqual(mailbox, { address: '"john smith"@example.com' });
+  assert.equal(formatMailbox(mailbox as { address: string }), '"john smith"@example.com');
+});
+
+test('internationalized domains are converted to punycode', () => {
+  assert.equal(validateAddress('user@bücher.example'), 'user@xn--bcher-kva.example');
+});
+
+test('empty list entries are ignored', () => {
+  assert.deepEqual(parseAddressList(' , a@example.com,, '), [{ address: 'a@example.com' }]);
+});
+
+test('splitAddressList keeps commas in quoted names, angle addresses and comments', () => {
+  assert.deepEqual(splitAddressList('"Doe, John" <j@example.com>, jane@example.com'), ['"Doe, John" <j@example.com>', 'jane@example.com']);
+  assert.deepEqual(splitAddressList('"Say \\"hi, there\\"" <a@example.com>,b@example.com (Smith, B)'), ['"Say \\"hi, there\\"" <a@example.com>', 'b@example.com (Smith, B)']);
+  assert.deepEqual(splitAddressList(' , a@example.com,, '), ['a@example.com']);
+  assert.deepEqual(splitAddressList(undefined), []);
+});
+
+test('a quoted comma in a cc list stays one recipient', () => {
+  const cc = splitAddressList('"Doe, John" <john@example.com>, jane@example.com');
+  assert.equal(header({ cc }, 'Cc'), '"Doe, John" <john@example.com>, jane@example.com');
+});
+
+test('malformed addresses are rejected with validation errors', () => {
+  const bad = [
+    'plainaddress',
+    '@example.com',
+    'user@',
+    'user@localhost',
+    'user@-example.com',
+    'user@exa_mple.com',
+    'us er@example.com',
+    'user..name@example.com',
+    '.user@example.com',
+    'user@example..com',
+    '"unterminated <a@example.com>',
+    'Name <a@example.com',
+    'a@example.com>',
+    '(unterminated comment a@example.com',
+    '<a@example.com> <b@example.com>',
+    '<a@example.com> trailing',
+    'Team: a@example.com',
+    'a@example.com;',
+    ': a@example.com;',
+    `${'a'.repeat(65)}@example.com`,
+    `a@${'b'.repeat(250)}.com`
+  ];
+  for (const input of bad) {
+    rejects(() => parseAddressList(input));
+  }
+});
+
+test('a message needs at least one recipient and a body', () => {
+  rejects(() => buildMessage({ ...base, to: '' }), /recipient/);
+  rejects(() => buildMessage({ ...base, body: undefined }), /body/);
+});
+
+test('From must be exactly one mailbox', () => {
+  rejects(() => buildMessage({ ...base, from: 'a@example.com, b@example.com' }), /single address/);
+  rejects(() => buildMessage({ ...base, from: 'Team: a@example.com;' }), /single address/);
+});
+
+console.log('\nStandard headers');
+
+test('Date and Message-ID are added', () => {
+  const date = new Date(Date.UTC(2026, 0, 5, 9, 7, 3));
+  assert.equal(header({ date }, 'Date'), 'Mon, 05 Jan 2026 09:07:03 +0000');
+  assert.equal(formatDate(date), 'Mon, 05 Jan 2026 09:07:03 +0000');
+  assert.match(header({}, 'Message-ID') as string, /^<[a-z0-9.]+@example\.com>$/);
+});
+
+test('Message-IDs are unique', () => {
+  const ids = new Set(Array.from({ length: 50 }, () => header({}, 'Message-ID')));
+  assert.equal(ids.size, 50);
+});
+
+test('Reply-To, Cc and Bcc are emitted when given', () => {
+  const options = { cc: ['c@example.com'], bcc: ['"Hidden" <h@example.com>'], replyTo: 'Help Desk <help@example.com>' };
+  assert.equal(header(options, 'Cc'), 'c@example.com');
+  assert.equal(header(options, 'Bcc'), 'Hidden <h@example.com>');
+  assert.equal(header(options, 'Reply-To'), 'Help Desk <help@example.com>');
+});
+
+test('the header block ends before the body and uses CRLF only', () => {
+  const message = buildMessage({ ...base, body: 'line1\nline2' });
+  assert.ok(!/[^\r]\n/.test(message), 'bare LF in message');
+  assert.match(message, /MIME-Version: 1\.0\r\nContent-Type: text\/plain/);
+});
+
+test('a display-form sender is encoded exactly once', () => {
+  const from = displayMailbox({ name: 'Zoë "Z" Müller', address: 'z@example.com' });
+  assert.equal(parseMailbox(from).name, 'Zoë "Z" Müller');
+  const preview = describeMessage(buildMessage({ ...base, from }));
+  assert.equal(preview.headers.find((h) => h.name === 'From')?.value, 'Zoë "Z" Müller <z@example.com>');
+});
+
+test('describeMessage decodes headers, bodies and attachments', () => {
+  const subject = 'Grüße — '.repeat(12).trim();
+  const message = buildMessage({
+    ...base,
+    subject,
+    body: 'Café = 5€\nsecond line',
+    html: '<p>Café</p>',
+    attachments: [{ filename: 'naïve.txt', mimeType: 'text/plain', data: Buffer.from('hello') }]
+  });
+  const preview = describeMessage(message);
+  assert.equal(preview.headers.find((h) => h.name === 'Subject')?.value, subject);
+  assert.equal(preview.text, 'Café = 5€\nsecond line');
+  assert.equal(preview.html, '<p>Café</p>');
+  assert.deepEqual(preview.attachments, [{ filename: 'naïve.txt', mimeType: 'text/plain', size: 5 }]);
+  assert.equal(preview.size, Buffer.byteLength(message));
+});
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
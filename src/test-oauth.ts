@@ -0,0 +1,240 @@
+/**
+ * Tests for the OAuth authorization server: client registration, consent with
+ * the operator password, PKCE, single-use codes, refresh token rotation and
+ * how a token identifies its client. Runs the endpoints on a local port.
+ * Run with: npm run test:oauth
+ */
+
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-oauth-'));
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID ??= 'test-client';
+process.env.GMAIL_CLIENT_SECRET ??= 'test-secret';
+process.env.GMAIL_REFRESH_TOKEN ??= 'test-token';
+process.env.GMAIL_USER_EMAIL ??= 'me@example.com';
+process.env.OAUTH_OPERATOR_PASSWORD = 'correct horse';
+process.env.API_KEYS = '';
+delete process.env.PUBLIC_URL;
+
+const { handleOAuthRequest } = await import('./oauth.js');
+const { authenticateRequest } = await import('./apiKeys.js');
+
+// OAuth endpoints plus /whoami, which reports who a bearer token authenticates as
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (await handleOAuthRequest(req, res, url)) return;
+
+  const auth = authenticateRequest(req);
+  res.writeHead(auth.ok ? 200 : auth.status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(auth.ok ? auth.apiKey : { error: auth.error }));
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+const redirectUri = 'http://localhost:9999/callback';
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function register(body: Record<string, unknown>): Promise<{ status: number; json: Record<string, any> }> {
+  const response = await fetch(`${baseUrl}/oauth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, json: await response.json() };
+}
+
+function pkce(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+/**
+ * Open the consent page and submit it. Returns the redirect back to the client,
+ * or the consent page's status when it didn't redirect.
+ */
+async function consent(clientId: string, options: {
+  challenge: string;
+  scope?: string;
+  password?: string;
+  grant?: string[];
+}): Promise<{ status: number; location?: URL }> {
+  const query = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    code_challenge: options.challenge,
+    code_challenge_method: 'S256',
+    state: 'xyz'
+  });
+  if (options.scope) query.set('scope', options.scope);
+
+  const page = await fetch(`${baseUrl}/oauth/authorize?${query}`, { redirect: 'manual' });
+  const html = await page.text();
+  const requestId = /name="request_id" value="([^"]+)"/.exec(html)?.[1];
+  assert.ok(requestId, `no consent form (${page.status}): ${html.slice(0, 200)}`);
+
+  const requested = [...html.matchAll(/name="scope" value="([^"]+)"/g)].map((match) => match[1]);
+  const form = new URLSearchParams({ request_id: requestId, decision: 'approve', password: options.password ?? 'correct horse' });
+  for (const scope of options.grant ?? requested) form.append('scope', scope);
+
+  const decision = await fetch(`${baseUrl}/oauth/authorize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form,
+    redirect: 'manual'
+  });
+  await decision.text();
+  const location = decision.headers.get('location');
+  return { status: decision.status, location: location ? new URL(location) : undefined };
+}
+
+async function token(params: Record<string, string>): Promise<{ status: number; json: Record<string, any> }> {
+  const response = await fetch(`${baseUrl}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params)
+  });
+  return { status: response.status, json: await response.json() };
+}
+
+async function whoami(accessToken: string): Promise<{ status: number; json: Record<string, any> }> {
+  const response = await fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${accessToken}` } });
+  return { status: response.status, json: await response.json() };
+}
+
+/** Register a public client and run the whole flow */
+async function authorizedClient(name: string, scope?: string) {
+  const { json: client } = await register({ client_name: name, redirect_uris: [redirectUri] });
+  const { verifier, challenge } = pkce();
+  const { location } = await consent(client.client_id, { challenge, scope });
+  const code = location?.searchParams.get('code') ?? '';
+  const { json: tokens } = await token({ grant_type: 'authorization_code', client_id: client.client_id, code, code_verifier: verifier, redirect_uri: redirectUri });
+  return { client, tokens };
+}
+
+console.log('\nRegistration');
+
+await test('public clients register with loopback or HTTPS redirect URIs', async () => {
+  const { status, json } = await register({ client_name: 'Desktop', redirect_uris: [redirectUri, 'https://app.example.com/cb'] });
+  assert.equal(status, 201);
+  assert.equal(json.token_endpoint_auth_method, 'none');
+  assert.equal(json.client_secret, undefined);
+});
+
+await test('plain HTTP redirects to other hosts are refused', async () => {
+  const { status, json } = await register({ redirect_uris: ['http://evil.example.com/cb'] });
+  assert.equal(status, 400);
+  assert.equal(json.error, 'invalid_redirect_uri');
+});
+
+console.log('\nAuthorization');
+
+await test('the code flow with PKCE issues tokens for the granted scopes', async () => {
+  const { tokens } = await authorizedClient('Flow client', 'mail.read mail.send');
+  assert.equal(tokens.token_type, 'Bearer');
+  assert.equal(tokens.scope, 'mail.read mail.send');
+});
+
+await test('mail.approve is only granted when requested', async () => {
+  const { tokens } = await authorizedClient('Default scopes');
+  assert.ok(!tokens.scope.split(' ').includes('mail.approve'));
+});
+
+await test('a wrong operator password does not issue a code', async () => {
+  const { json: client } = await register({ redirect_uris: [redirectUri] });
+  const { status, location } = await consent(client.client_id, { challenge: pkce().challenge, password: 'guess' });
+  assert.equal(status, 401);
+  assert.equal(location, undefined);
+});
+
+await test('the consent form cannot grant scopes that were not requested', async () => {
+  const { json: client } = await register({ redirect_uris: [redirectUri] });
+  const { verifier, challenge } = pkce();
+  const { location } = await consent(client.client_id, { challenge, scope: 'mail.read', grant: ['mail.read', 'mail.approve'] });
+  const { json } = await token({ grant_type: 'authorization_code', client_id: client.client_id, code: location!.searchParams.get('code')!, code_verifier: verifier });
+  assert.equal(json.scope, 'mail.read');
+});
+
+await test('a code needs the matching verifier and works only once', async () => {
+  const { json: client } = await register({ redirect_uris: [redirectUri] });
+  const { verifier, challenge } = pkce();
+  const { location } = await consent(client.client_id, { challenge });
+  assert.equal(location!.searchParams.get('state'), 'xyz');
+  const code = location!.searchParams.get('code')!;
+
+  const wrong = await token({ grant_type: 'authorization_code', client_id: client.client_id, code, code_verifier: pkce().verifier });
+  assert.equal(wrong.json.error, 'invalid_grant');
+  // The failed attempt used up the code
+  const retry = await token({ grant_type: 'authorization_code', client_id: client.client_id, code, code_verifier: verifier });
+  assert.equal(retry.json.error, 'invalid_grant');
+});
+
+await test('a code issued to one client cannot be redeemed by another', async () => {
+  const { json: client } = await register({ redirect_uris: [redirectUri] });
+  const { json: other } = await register({ redirect_uris: [redirectUri] });
+  const { verifier, challenge } = pkce();
+  const { location } = await consent(client.client_id, { challenge });
+
+  const stolen = await token({ grant_type: 'authorization_code', client_id: other.client_id, code: location!.searchParams.get('code')!, code_verifier: verifier });
+  assert.equal(stolen.json.error, 'invalid_grant');
+});
+
+console.log('\nTokens');
+
+await test('an access token identifies its client by id, with the name for display', async () => {
+  const { client, tokens } = await authorizedClient('Claude Desktop', 'mail.read');
+  const { status, json } = await whoami(tokens.access_token);
+  assert.equal(status, 200);
+  assert.deepEqual(json, { label: `oauth:${client.client_id}`, name: 'Claude Desktop', scopes: ['mail.read'] });
+
+  // Two clients choosing the same name stay apart
+  const { client: twin, tokens: twinTokens } = await authorizedClient('Claude Desktop', 'mail.read');
+  assert.equal((await whoami(twinTokens.access_token)).json.label, `oauth:${twin.client_id}`);
+  assert.notEqual(twin.client_id, client.client_id);
+});
+
+await test('refresh tokens rotate and cannot widen the grant', async () => {
+  const { client, tokens } = await authorizedClient('Refresher', 'mail.read mail.send');
+
+  const wider = await token({ grant_type: 'refresh_token', client_id: client.client_id, refresh_token: tokens.refresh_token, scope: 'mail.read mail.modify' });
+  assert.equal(wider.json.error, 'invalid_scope');
+
+  const narrowed = await token({ grant_type: 'refresh_token', client_id: client.client_id, refresh_token: tokens.refresh_token, scope: 'mail.read' });
+  assert.equal(narrowed.status, 200);
+  assert.equal(narrowed.json.scope, 'mail.read');
+
+  const reused = await token({ grant_type: 'refresh_token', client_id: client.client_id, refresh_token: tokens.refresh_token });
+  assert.equal(reused.json.error, 'invalid_grant');
+});
+
+await test('unknown tokens are rejected', async () => {
+  const { status } = await whoami('gmat_not-a-real-token');
+  assert.equal(status, 401);
+});
+
+server.close();
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,178 @@
+/**
+ * Tests for the recipient policy: allow/block patterns, the suppression list,
+ * the per-message limit, hot-reloaded policy files and refusals by the send
+ * tools. Every send here is refused or a dry run; nothing reaches Gmail.
+ * Run with: npm run test:recipient-policy
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-policy-'));
+const policyPath = path.join(dataDir, 'recipient-policy.json');
+const suppressionPath = path.join(dataDir, 'suppressed.txt');
+fs.writeFileSync(policyPath, '{}');
+fs.writeFileSync(suppressionPath, '# asked not to be contacted\nGone@Example.com\n');
+
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID ??= 'test-client';
+process.env.GMAIL_CLIENT_SECRET ??= 'test-secret';
+process.env.GMAIL_REFRESH_TOKEN ??= 'test-token';
+process.env.GMAIL_USER_EMAIL = 'me@example.com';
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.RECIPIENT_BLOCKLIST = '*@blocked.com,spam.io';
+process.env.MAX_RECIPIENTS_PER_MESSAGE = '3';
+process.env.BLOCK_SELF_SEND = 'true';
+process.env.RECIPIENT_POLICY_FILE = policyPath;
+process.env.SUPPRESSION_LIST_FILE = suppressionPath;
+
+const { checkRecipients, matchesRecipientPattern } = await import('./recipientPolicy.js');
+const { readSendLog } = await import('./sendLog.js');
+const { runTool } = await import('./tools/index.js');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+let revision = 0;
+
+/** Rewrite the policy file with a new modification time so it is reloaded */
+function writePolicy(policy: Record<string, unknown> | string): void {
+  fs.writeFileSync(policyPath, typeof policy === 'string' ? policy : JSON.stringify(policy));
+  const stamp = new Date(Date.now() + ++revision * 1000);
+  fs.utimesSync(policyPath, stamp, stamp);
+}
+
+const rules = (recipients: string[], perMessage?: number) =>
+  checkRecipients({ recipients, perMessage }).map((violation) => violation.rule);
+
+const context = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'alice' } };
+
+console.log('\nPatterns');
+
+await test('entries with an @ match whole addresses', () => {
+  assert.ok(matchesRecipientPattern('ceo@acme.com', '*@acme.com'));
+  assert.ok(matchesRecipientPattern('ceo@acme.com', 'CEO@*'));
+  assert.ok(!matchesRecipientPattern('ceo@mail.acme.com', '*@acme.com'));
+});
+
+await test('domain entries also match subdomains', () => {
+  assert.ok(matchesRecipientPattern('a@spam.io', 'spam.io'));
+  assert.ok(matchesRecipientPattern('a@eu.spam.io', 'spam.io'));
+  assert.ok(!matchesRecipientPattern('a@notspam.io', 'spam.io'));
+  assert.ok(matchesRecipientPattern('a@anything.io', '*.io'));
+});
+
+console.log('\nRules');
+
+await test('allowed recipients pass', () => {
+  assert.deepEqual(rules(['friend@example.org', 'Friend Two <two@example.org>']), []);
+});
+
+await test('blocked, suppressed and own addresses are refused', () => {
+  assert.deepEqual(rules(['x@blocked.com']), ['blocked']);
+  assert.deepEqual(rules(['x@eu.spam.io']), ['blocked']);
+  assert.deepEqual(rules(['"Gone" <gone@example.com>']), ['suppressed']);
+  assert.deepEqual(rules(['ME@example.com']), ['self']);
+});
+
+await test('addresses inside display names and groups are checked', () => {
+  assert.deepEqual(rules(['"Sales, EU" <x@blocked.com>, ok@example.org']), ['blocked']);
+  assert.deepEqual(rules(['Team: a@example.org, b@blocked.com;']), ['blocked']);
+});
+
+await test('unparseable addresses are refused', () => {
+  assert.deepEqual(rules(['not an address']), ['invalid_address']);
+});
+
+await test('the per-message limit counts one message, not the whole send', () => {
+  const four = ['a@example.org', 'b@example.org', 'c@example.org', 'd@example.org'];
+  assert.deepEqual(rules(four), ['max_recipients']);
+  assert.deepEqual(rules(four, 1), []);
+});
+
+console.log('\nPolicy file');
+
+await test('the policy file overrides the environment and is reloaded on change', () => {
+  writePolicy({ allow: ['example.org'], block: [] });
+  assert.deepEqual(rules(['x@blocked.com']), ['not_allowed']);
+  assert.deepEqual(rules(['ok@sub.example.org']), []);
+
+  writePolicy({});
+  assert.deepEqual(rules(['x@blocked.com']), ['blocked']);
+});
+
+await test('a broken policy file keeps the last good version', () => {
+  writePolicy({ block: ['example.org'] });
+  assert.deepEqual(rules(['ok@example.org']), ['blocked']);
+
+  writePolicy('{ not json');
+  assert.deepEqual(rules(['ok@example.org']), ['blocked']);
+
+  writePolicy({});
+});
+
+await test('a removed policy file keeps the last good version until it is back', () => {
+  writePolicy({ block: ['example.org'] });
+  assert.deepEqual(rules(['ok@example.org']), ['blocked']);
+
+  fs.rmSync(policyPath);
+  assert.deepEqual(rules(['ok@example.org']), ['blocked']);
+
+  writePolicy({});
+  assert.deepEqual(rules(['ok@example.org']), []);
+});
+
+console.log('\nSend tools');
+
+await test('send_email to a blocked recipient is refused and logged', async () => {
+  const result = await runTool('send_email', { to: 'x@blocked.com', subject: 'Hi', body: 'Hello' }, context);
+  assert.equal(result.success, false);
+  assert.match(String(result.error), /Recipient policy: .*blocked by "\*@blocked.com"/);
+
+  const logged = readSendLog({ recipient: 'x@blocked.com' });
+  assert.equal(logged.length, 1);
+  assert.equal(logged[0].status, 'refused');
+  assert.equal(logged[0].apiKey, 'alice');
+});
+
+await test('a dry run shows the refusal but is not logged', async () => {
+  const result = await runTool('send_email', { to: 'y@blocked.com', subject: 'Hi', body: 'Hello', dry_run: true }, context);
+  assert.equal(result.success, false);
+  assert.equal(readSendLog({ recipient: 'y@blocked.com' }).length, 0);
+});
+
+await test('a Bcc recipient is enough to refuse the send', async () => {
+  const result = await runTool('schedule_email', {
+    to: 'ok@example.org', bcc: 'z@spam.io', subject: 'Later', body: 'Hello', delay: '1h'
+  }, context);
+  assert.equal(result.success, false);
+  assert.deepEqual((result.policy_violations as Array<{ rule: string }>).map((violation) => violation.rule), ['blocked']);
+});
+
+await test('bulk sends check each message on its own', async () => {
+  const recipients = ['a@example.org', 'b@example.org', 'c@example.org', 'gone@example.com'];
+  const result = await runTool('send_bulk_emails', { recipients, subject: 'News', body: 'Hello', dry_run: true }, context);
+  assert.equal(result.success, false);
+  assert.deepEqual((result.policy_violations as Array<{ rule: string }>).map((violation) => violation.rule), ['suppressed']);
+});
+
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,185 @@
+/**
+ * Tests for scheduled sending: send times, claims shared between processes,
+ * interrupted sends, rate-limit deferral, the recipient policy at send time and
+ * who may see or change a job. No job here is ever sent, so nothing reaches
+ * Gmail. Run with: npm run test:scheduler
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ScheduledJob } from './scheduler.js';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-mcp-scheduler-'));
+const suppressionPath = path.join(dataDir, 'suppressed.txt');
+fs.writeFileSync(suppressionPath, '');
+
+process.env.GMAIL_MCP_DATA_DIR = dataDir;
+process.env.GMAIL_CLIENT_ID ??= 'test-client';
+process.env.GMAIL_CLIENT_SECRET ??= 'test-secret';
+process.env.GMAIL_REFRESH_TOKEN ??= 'test-token';
+process.env.GMAIL_USER_EMAIL ??= 'me@example.com';
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.MAX_EMAILS_PER_HOUR = '2';
+process.env.SUPPRESSION_LIST_FILE = suppressionPath;
+process.env.APPROVAL_APPROVER_KEYS = 'ops';
+
+const scheduler = await import('./scheduler.js');
+const { setRateLimitStore, createMemoryRateLimitStore, recordEmailSent } = await import('./rateLimiter.js');
+const { readSendLog } = await import('./sendLog.js');
+const { getDataPath, readJsonFile, writeJsonFile, withFileLock } = await import('./storage.js');
+const { runTool } = await import('./tools/index.js');
+
+const jobsPath = getDataPath('scheduled-emails.json');
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  // Every test starts with an empty queue, so no job is left due for the next one
+  writeJsonFile(jobsPath, []);
+  setRateLimitStore(createMemoryRateLimitStore());
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/** A job that is due now */
+function scheduleDue(to = 'someone@example.com'): ScheduledJob {
+  return scheduler.scheduleEmail({ to, subject: 'Hello', body: 'Hi there' }, new Date());
+}
+
+/** Change a stored job the way another process sharing the data directory would */
+function editJob(id: string, edit: (job: ScheduledJob) => void): void {
+  const jobs = readJsonFile<ScheduledJob[]>(jobsPath, []);
+  edit(jobs.find((job) => job.id === id)!);
+  writeJsonFile(jobsPath, jobs);
+}
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+console.log('\nSend times');
+
+await test('delays and timestamps are resolved', () => {
+  const now = new Date('2025-01-31T09:00:00Z');
+  assert.equal(scheduler.parseSendTime({ delay: '1d2h30m' }, now).toISOString(), '2025-02-01T11:30:00.000Z');
+  assert.equal(scheduler.parseSendTime({ sendAt: '2025-02-01T10:00:00+01:00' }, now).toISOString(), '2025-02-01T09:00:00.000Z');
+  assert.throws(() => scheduler.parseSendTime({ delay: 'soon' }, now), /Invalid delay/);
+  assert.throws(() => scheduler.parseSendTime({ delay: '1h', sendAt: '2025-02-01T10:00:00Z' }, now), /not both/);
+});
+
+await test('times in the past are refused', () => {
+  assert.throws(() => scheduler.scheduleEmail({ to: 'a@example.com', subject: 's', body: 'b' }, new Date(Date.now() - 5 * 60 * 1000)), /in the past/);
+});
+
+console.log('\nClaims');
+
+await test('a job claimed by another process is left alone', async () => {
+  const job = scheduleDue();
+  editJob(job.id, (j) => {
+    j.status = 'sending';
+    j.claimedBy = 'other-host:1:abc';
+    j.leaseUntil = minutesFromNow(5);
+  });
+
+  await scheduler.runDueJobs();
+
+  const after = scheduler.getScheduled(job.id);
+  assert.equal(after.status, 'sending');
+  assert.equal(after.claimedBy, 'other-host:1:abc');
+  assert.equal(after.attempts, 0);
+  assert.throws(() => scheduler.cancelScheduled(job.id), /already sending/);
+});
+
+await test('a send whose claim ran out is failed, not repeated', async () => {
+  const job = scheduleDue();
+  editJob(job.id, (j) => {
+    j.status = 'sending';
+    j.claimedBy = 'other-host:1:abc';
+    j.leaseUntil = minutesFromNow(-1);
+  });
+
+  await scheduler.runDueJobs();
+  await scheduler.runDueJobs();
+
+  const after = scheduler.getScheduled(job.id);
+  assert.equal(after.status, 'failed');
+  assert.match(after.lastError ?? '', /Interrupted while sending/);
+  assert.equal(after.attempts, 0);
+  assert.equal(after.claimedBy, undefined);
+});
+
+await test('a stale lock file is taken over and the lock is released', () => {
+  const lockPath = `${jobsPath}.lock`;
+  fs.writeFileSync(lockPath, '');
+  const stale = new Date(Date.now() - 60 * 1000);
+  fs.utimesSync(lockPath, stale, stale);
+
+  assert.equal(withFileLock(jobsPath, () => 'locked'), 'locked');
+  assert.ok(!fs.existsSync(lockPath));
+});
+
+console.log('\nDeferral and policy');
+
+await test('a due job over the rate limit is deferred without an attempt', async () => {
+  await recordEmailSent();
+  await recordEmailSent();
+  const job = scheduleDue();
+
+  await scheduler.runDueJobs();
+
+  const after = scheduler.getScheduled(job.id);
+  assert.equal(after.status, 'scheduled');
+  assert.equal(after.attempts, 0);
+  assert.equal(after.claimedBy, undefined);
+  assert.match(after.lastError ?? '', /^Deferred: /);
+  assert.ok(new Date(after.nextAttemptAt!).getTime() > Date.now());
+});
+
+await test('a recipient suppressed after scheduling is refused at send time', async () => {
+  const job = scheduleDue('later-gone@example.com');
+  fs.writeFileSync(suppressionPath, 'later-gone@example.com\n');
+  const stamp = new Date(Date.now() + 1000);
+  fs.utimesSync(suppressionPath, stamp, stamp);
+
+  await scheduler.runDueJobs();
+
+  const after = scheduler.getScheduled(job.id);
+  assert.equal(after.status, 'failed');
+  assert.match(after.lastError ?? '', /suppression list/);
+  const logged = readSendLog({ recipient: 'later-gone@example.com' });
+  assert.deepEqual(logged.map((entry) => entry.status), ['refused']);
+});
+
+console.log('\nOwnership');
+
+await test('callers only see and change their own jobs', async () => {
+  const alice = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'alice' } };
+  const bob = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'bob' } };
+  const ops = { transport: 'http' as const, allowLocalPaths: false, apiKey: { label: 'ops' } };
+
+  const scheduled = await runTool('schedule_email', { to: 'a@example.com', subject: 's', body: 'b', delay: '1h' }, alice);
+  const jobId = (scheduled.job as { id: string }).id;
+
+  assert.equal((await runTool('list_scheduled', {}, bob)).count, 0);
+  assert.equal((await runTool('cancel_scheduled', { job_id: jobId }, bob)).success, false);
+  assert.equal((await runTool('reschedule', { job_id: jobId, delay: '2h' }, bob)).success, false);
+  assert.equal(scheduler.getScheduled(jobId).status, 'scheduled');
+
+  assert.equal((await runTool('list_scheduled', {}, ops)).count, 1);
+  assert.equal((await runTool('cancel_scheduled', { job_id: jobId }, alice)).success, true);
+});
+
+fs.rmSync(dataDir, { recursive: true, force: true });
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
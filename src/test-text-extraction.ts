@@ -0,0 +1,181 @@
+/**
+ * Tests for attachment text extraction: DOCX and PDF text, the type allowlist
+ * and the decompression limit (zip bombs). Run with: npm run test:text-extraction
+ */
+
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { extractText, isAllowedType, DecompressionLimitError } from './textExtraction.js';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MB = 1024 * 1024;
+
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void): void {
+  try {
+    fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/** A ZIP archive with deflated entries (enough of the format for extractDocx) */
+function zip(entries: Record<string, Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const fileName = Buffer.from(name, 'utf-8');
+    const compressed = zlib.deflateRawSync(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, compressed);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function docx(documentXml: string): Buffer {
+  return zip({
+    '[Content_Types].xml': Buffer.from('<Types/>'),
+    'word/document.xml': Buffer.from(documentXml, 'utf-8')
+  });
+}
+
+/** A PDF with one Flate-compressed content stream per entry */
+function pdf(streams: Buffer[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  streams.forEach((content, index) => {
+    const compressed = zlib.deflateSync(content);
+    parts.push(
+      Buffer.from(`${index + 1} 0 obj\n<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      compressed,
+      Buffer.from('\nendstream\nendobj\n', 'latin1')
+    );
+  });
+  parts.push(Buffer.from('trailer\n<< >>\n%%EOF\n', 'latin1'));
+  return Buffer.concat(parts);
+}
+
+function rejectsLimit(fn: () => unknown): void {
+  assert.throws(fn, (error: unknown) => {
+    assert.ok(error instanceof DecompressionLimitError, `expected DecompressionLimitError, got ${error}`);
+    return true;
+  });
+}
+
+console.log('\nText formats');
+
+test('text is returned as is, without a UTF-8 byte order mark', () => {
+  const data = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('name,city\nZoë,Köln\n', 'utf-8')]);
+  assert.deepEqual(extractText(data, 'text/csv'), { text: 'name,city\nZoë,Köln\n', method: 'text' });
+});
+
+test('HTML is converted to text', () => {
+  const { text, method } = extractText(Buffer.from('<p>Hello <b>there</b></p><script>x()</script>'), 'text/html; charset=utf-8');
+  assert.equal(method, 'html');
+  assert.match(text, /Hello there/);
+  assert.doesNotMatch(text, /x\(\)/);
+});
+
+test('the allowlist matches exact types and text/* families', () => {
+  const allowlist = ['text/*', 'application/pdf'];
+  assert.ok(isAllowedType('text/plain; charset=utf-8', allowlist));
+  assert.ok(isAllowedType('Application/PDF', allowlist));
+  assert.ok(!isAllowedType(DOCX_TYPE, allowlist));
+  assert.ok(!isAllowedType('textual/plain', allowlist));
+});
+
+test('unsupported types are refused', () => {
+  assert.throws(() => extractText(Buffer.from('GIF89a'), 'image/gif'), /not supported/);
+});
+
+console.log('\nDOCX and PDF');
+
+test('DOCX paragraphs, tabs and entities', () => {
+  const xml = '<w:document><w:body>' +
+    '<w:p><w:r><w:t>Invoice &amp; terms</w:t></w:r></w:p>' +
+    '<w:p><w:r><w:t>Total</w:t><w:tab/><w:t>42 &lt;EUR&gt;</w:t></w:r></w:p>' +
+    '</w:body></w:document>';
+  assert.deepEqual(extractText(docx(xml), DOCX_TYPE), { text: 'Invoice & terms\nTotal\t42 <EUR>', method: 'docx' });
+});
+
+test('a ZIP without word/document.xml is an error', () => {
+  assert.throws(() => extractText(zip({ 'other.xml': Buffer.from('<x/>') }), DOCX_TYPE), /no word\/document.xml/);
+  assert.throws(() => extractText(Buffer.from('not a zip at all, just some text'), DOCX_TYPE), /not a valid ZIP/);
+});
+
+test('PDF text from Tj, TJ and line operators', () => {
+  const content = Buffer.from('BT /F1 12 Tf 72 720 Td (Hello \\(PDF\\)) Tj T* [(Wor) -20 (ld)] TJ ET', 'latin1');
+  assert.deepEqual(extractText(pdf([content]), 'application/pdf'), { text: 'Hello (PDF)\nWorld', method: 'pdf' });
+});
+
+test('a damaged PDF stream is skipped, not fatal', () => {
+  const good = pdf([Buffer.from('BT (kept) Tj ET', 'latin1')]);
+  const broken = Buffer.from('1 0 obj\n<< /Filter /FlateDecode >>\nstream\nnot deflate data\nendstream\nendobj\n', 'latin1');
+  assert.equal(extractText(Buffer.concat([broken, good]), 'application/pdf').text, 'kept');
+});
+
+console.log('\nDecompression limit');
+
+test('a DOCX that inflates past the limit is refused', () => {
+  // ~8 MB of XML compresses to a few kilobytes
+  const bomb = docx(`<w:document><w:body><w:p><w:r><w:t>${'A'.repeat(8 * MB)}</w:t></w:r></w:p></w:body></w:document>`);
+  assert.ok(bomb.length < 64 * 1024, `fixture is ${bomb.length} bytes`);
+  rejectsLimit(() => extractText(bomb, DOCX_TYPE, { maxOutputBytes: 1 * MB }));
+});
+
+test('a PDF stream that inflates past the limit is refused', () => {
+  const bomb = pdf([Buffer.concat([Buffer.from('BT (x) Tj ET '), Buffer.alloc(8 * MB, 0x20)])]);
+  rejectsLimit(() => extractText(bomb, 'application/pdf', { maxOutputBytes: 1 * MB }));
+});
+
+test('the limit covers all PDF streams together', () => {
+  const stream = Buffer.concat([Buffer.from('BT (x) Tj ET '), Buffer.alloc(600 * 1024, 0x20)]);
+  assert.equal(extractText(pdf([stream]), 'application/pdf', { maxOutputBytes: 1 * MB }).text, 'x');
+  rejectsLimit(() => extractText(pdf([stream, stream]), 'application/pdf', { maxOutputBytes: 1 * MB }));
+});
+
+test('files within the limit are read normally', () => {
+  const xml = `<w:document><w:body><w:p><w:r><w:t>${'B'.repeat(512 * 1024)}</w:t></w:r></w:p></w:body></w:document>`;
+  assert.equal(extractText(docx(xml), DOCX_TYPE, { maxOutputBytes: 1 * MB }).text.length, 512 * 1024);
+});
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+}
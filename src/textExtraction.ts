@@ -0,0 +1,292 @@
+import zlib from 'zlib';
+import { htmlToText } from './messageBuilder.js';
+
+/**
+ * Plain text from attachments: text types, CSV, JSON and HTML directly, and
+ * best effort for PDF (text drawn with simple fonts in Flate or unfiltered
+ * streams) and DOCX. No external parsers; scanned PDFs and unusual font
+ * encodings give little or no text.
+ */
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+// Decompression limit when the caller doesn't set one
+const DEFAULT_MAX_OUTPUT_BYTES = 50 * 1024 * 1024;
+
+export interface ExtractedText {
+  text: string;
+  // 'text' for formats read exactly; PDF and DOCX are best effort
+  method: 'text' | 'html' | 'pdf' | 'docx';
+}
+
+/**
+ * Whether a MIME type is on an allowlist ("text/*" entries match a whole family)
+ */
+export function isAllowedType(mimeType: string, allowlist: string[]): boolean {
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+  return allowlist.some((allowed) =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  );
+}
+
+/**
+ * A compressed stream in the file expands beyond the extraction limit
+ */
+export class DecompressionLimitError extends Error {
+  constructor(limitBytes: number) {
+    super(`decompresses to more than ${Math.round(limitBytes / 1024 / 1024)} MB`);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+interface InflateBudget {
+  inflate(data: Buffer): Buffer;
+  inflateRaw(data: Buffer): Buffer;
+}
+
+/**
+ * Inflate helpers sharing one output limit for a whole file. Compressed
+ * streams can expand a thousandfold, so each inflate may only produce what is
+ * left of the limit.
+ */
+function createInflateBudget(limitBytes: number): InflateBudget {
+  let remaining = limitBytes;
+
+  const take = (inflate: (maxOutputLength: number) => Buffer): Buffer => {
+    let output: Buffer;
+    try {
+      output = inflate(Math.max(1, remaining));
+    } catch (error) {
+      throw error instanceof RangeError ? new DecompressionLimitError(limitBytes) : error;
+    }
+    if (output.length > remaining) {
+      throw new DecompressionLimitError(limitBytes);
+    }
+    remaining -= output.length;
+    return output;
+  };
+
+  return {
+    inflate: (data) => take((maxOutputLength) =>
+      zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength })),
+    inflateRaw: (data) => take((maxOutputLength) => zlib.inflateRawSync(data, { maxOutputLength }))
+  };
+}
+
+function decodeText(data: Buffer): string {
+  // Strip a UTF-8 byte order mark
+  const text = data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf ? data.subarray(3) : data;
+  return text.toString('utf-8');
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// ============================================================================
+// DOCX: word/document.xml inside the ZIP container
+// ============================================================================
+
+/**
+ * Read one file from a ZIP archive using its central directory
+ */
+function readZipEntry(zip: Buffer, name: string, budget: InflateBudget): Buffer | undefined {
+  // End of central directory record: at least 22 bytes from the end, before an optional comment
+  let eocd = -1;
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - 22 - 65535); offset--) {
+    if (zip.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('not a valid ZIP/DOCX file');
+  }
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries && zip.readUInt32LE(offset) === 0x02014b50; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    const entryName = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+
+    if (entryName === name) {
+      const start = localHeader + 30 + zip.readUInt16LE(localHeader + 26) + zip.readUInt16LE(localHeader + 28);
+      const data = zip.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return budget.inflateRaw(data);
+      throw new Error(`unsupported ZIP compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return undefined;
+}
+
+function extractDocx(data: Buffer, budget: InflateBudget): string {
+  const xml = readZipEntry(data, 'word/document.xml', budget);
+  if (!xml) {
+    throw new Error('no word/document.xml in the file');
+  }
+
+  const text = xml.toString('utf-8')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<\/w:tc>/g, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeXmlEntities(text).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ============================================================================
+// PDF: text-showing operators in content streams
+// ============================================================================
+
+/**
+ * Decode a PDF literal string body (the part between the parentheses)
+ */
+function decodePdfLiteral(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_m, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '\r':
+      case '\n': return '';
+      default: return /[0-7]/.test(escape[0]) ? String.fromCharCode(parseInt(escape, 8)) : escape;
+    }
+  });
+}
+
+function decodePdfHex(value: string): string {
+  const hex = value.replace(/\s+/g, '');
+  const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+  // UTF-16 with a byte order mark is text; other hex strings are often glyph ids, so keep only readable ones
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return bytes.subarray(2).swap16().toString('utf16le');
+  }
+  const text = bytes.toString('latin1');
+  return /^[\x20-\x7e\xa0-\xff\s]*$/.test(text) ? text : '';
+}
+
+/**
+ * Text from one content stream: strings shown by Tj, TJ, ' and ", with line
+ * breaks at text-positioning operators
+ */
+function textFromContentStream(content: string): string {
+  const output: string[] = [];
+  // Strings, arrays of strings, and the operators that matter
+  const tokens = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|(?<![A-Za-z])(?:Tj|TJ|T\*|Td|TD|Tm|ET)(?![A-Za-z])|'|"/g;
+  let pending: string[] = [];
+  let inArray = false;
+
+  for (const match of content.matchAll(tokens)) {
+    const token = match[0];
+    if (token.startsWith('(')) {
+      pending.push(decodePdfLiteral(token.slice(1, -1)));
+    } else if (token.startsWith('<')) {
+      pending.push(decodePdfHex(token.slice(1, -1)));
+    } else if (token === '[') {
+      inArray = true;
+      pending = [];
+    } else if (token === ']') {
+      inArray = false;
+    } else if (token === 'Tj' || token === 'TJ') {
+      output.push(pending.join(''));
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      output.push('\n', pending.join(''));
+      pending = [];
+    } else if (!inArray) {
+      // T*, Td, TD, Tm, ET: a new line or text block
+      if (output.length > 0 && output[output.length - 1] !== '\n') {
+        output.push('\n');
+      }
+      pending = [];
+    }
+  }
+
+  return output.join('');
+}
+
+function extractPdf(data: Buffer, budget: InflateBudget): string {
+  const raw = data.toString('latin1');
+  const texts: string[] = [];
+  const streams = /(?<![A-Za-z])stream\r?\n/g;
+
+  for (const match of raw.matchAll(streams)) {
+    // The stream's dictionary sits between "n 0 obj" and "stream"
+    const objectStart = raw.lastIndexOf(' obj', match.index);
+    const dictionary = raw.slice(Math.max(0, objectStart), match.index);
+    // Images, fonts and other binary streams hold no page text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue;
+    }
+
+    const start = (match.index ?? 0) + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) continue;
+
+    let content: string;
+    try {
+      const body = data.subarray(start, end);
+      if (/\/FlateDecode/.test(dictionary)) {
+        content = budget.inflate(body).toString('latin1');
+      } else if (/\/Filter/.test(dictionary)) {
+        // Other filters (LZW, DCT, ...) aren't supported
+        continue;
+      } else {
+        content = body.toString('latin1');
+      }
+    } catch (error) {
+      if (error instanceof DecompressionLimitError) throw error;
+      continue;
+    }
+
+    if (/\bBT\b/.test(content)) {
+      texts.push(textFromContentStream(content));
+    }
+  }
+
+  return texts.join('\n\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Extract text from a file of one of the supported types. PDF and DOCX
+ * content is decompressed up to maxOutputBytes in total; larger files throw.
+ */
+export function extractText(data: Buffer, mimeType: string, options: { maxOutputBytes?: number } = {}): ExtractedText {
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  const budget = createInflateBudget(maxOutputBytes);
+
+  if (type === 'text/html' || type === 'application/xhtml+xml') {
+    return { text: htmlToText(decodeText(data)), method: 'html' };
+  }
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/xml' || type.endsWith('+json') || type.endsWith('+xml')) {
+    return { text: decodeText(data), method: 'text' };
+  }
+  if (type === 'application/pdf') {
+    return { text: extractPdf(data, budget), method: 'pdf' };
+  }
+  if (type === DOCX_TYPE) {
+    return { text: extractDocx(data, budget), method: 'docx' };
+  }
+
+  throw new Error(`Text extraction is not supported for ${mimeType}`);
+}
@@ -0,0 +1,210 @@
+import { getAccount } from './accounts.js';
+import { sendEmail, SendResult } from './gmail.js';
+import { htmlToText, splitAddressList } from './messageBuilder.js';
+import { readEmail, getAttachmentData, EmailMessage } from './inbox.js';
+import { EmailAttachment, MAX_ATTACHMENT_BYTES } from './attachments.js';
+
+/**
+ * Extract the bare, lower-cased email address from "Name <addr>" or "addr"
+ */
+export function extractEmailAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+/**
+ * Prefix a subject with Re:/Fwd: unless it already has one
+ */
+export function prefixSubject(subject: string | undefined, prefix: 'Re' | 'Fwd'): string {
+  const original = (subject ?? '').trim();
+  const existing = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+
+  return existing.test(original) ? original : `${prefix}: ${original}`;
+}
+
+/**
+ * Build the References header for a reply: the original's references followed by its Message-ID
+ */
+function buildReferences(original: EmailMessage): string | undefined {
+  const ids = [original.headers.references, original.headers.messageId].filter(Boolean);
+  return ids.length > 0 ? ids.join(' ') : undefined;
+}
+
+/**
+ * Work out reply recipients. Replies go to Reply-To (or From); reply-all adds the
+ * original To/Cc. The configured sender address is never included.
+ */
+export function computeReplyRecipients(
+  original: EmailMessage,
+  options: { replyAll: boolean; selfEmail: string }
+): { to: string[]; cc: string[] } {
+  const self = options.selfEmail.toLowerCase();
+  const seen = new Set<string>([self]);
+
+  const take = (addresses: string[]): string[] =>
+    addresses.filter((address) => {
+      const email = extractEmailAddress(address);
+      if (seen.has(email)) return false;
+      seen.add(email);
+      return true;
+    });
+
+  const fromSelf = extractEmailAddress(original.headers.from ?? '') === self;
+
+  // Replying to our own sent message continues the conversation with its recipients
+  const primary = fromSelf
+    ? splitAddressList(original.headers.to)
+    : splitAddressList(original.headers.replyTo ?? original.headers.from);
+
+  const to = take(primary);
+  const cc = options.replyAll
+    ? take([...splitAddressList(original.headers.to), ...splitAddressList(original.headers.cc)])
+    : [];
+
+  return { to, cc };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>');
+}
+
+function originalText(original: EmailMessage): string {
+  return original.body.text ?? (original.body.html ? htmlToText(original.body.html) : '');
+}
+
+/**
+ * Reply to a message in the same Gmail thread
+ */
+export async function replyToEmail(options: {
+  messageId: string;
+  body?: string;
+  html?: string;
+  replyAll?: boolean;
+  quoteOriginal?: boolean;
+  attachments?: EmailAttachment[];
+  account?: string;
+  dryRun?: boolean;
+}): Promise<SendResult & { to?: string[]; cc?: string[]; subject?: string }> {
+  const account = getAccount(options.account);
+  const original = await readEmail(options.messageId, account.id);
+
+  const { to, cc } = computeReplyRecipients(original, {
+    replyAll: options.replyAll ?? false,
+    selfEmail: account.email
+  });
+
+  if (to.length === 0) {
+    return { success: false, error: 'Could not determine who to reply to from the original message' };
+  }
+
+  let body = options.body ?? (options.html ? htmlToText(options.html) : '');
+  let html = options.html;
+
+  if (options.quoteOriginal ?? true) {
+    const attribution = `On ${original.headers.date ?? 'an earlier date'}, ${original.headers.from ?? 'the sender'} wrote:`;
+    const quoted = originalText(original)
+      .split(/\r?\n/)
+      .map((line) => `> ${line}`)
+      .join('\n');
+
+    body = `${body}\n\n${attribution}\n${quoted}`;
+
+    if (html) {
+      const quotedHtml = original.body.html ?? textToHtml(originalText(original));
+      html = `${html}<br><br><div>${escapeHtml(attribution)}</div>` +
+        `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${quotedHtml}</blockquote>`;
+    }
+  }
+
+  const subject = prefixSubject(original.headers.subject, 'Re');
+  const result = await sendEmail({
+    to: to.join(', '),
+    cc,
+    subject,
+    body,
+    html,
+    attachments: options.attachments,
+    inReplyTo: original.headers.messageId,
+    references: buildReferences(original),
+    threadId: original.threadId,
+    account: account.id,
+    dryRun: options.dryRun
+  });
+
+  return { ...result, to, cc, subject };
+}
+
+/**
+ * Forward a message, optionally carrying its attachments
+ */
+export async function forwardEmail(options: {
+  messageId: string;
+  to: string;
+  body?: string;
+  cc?: string[];
+  bcc?: string[];
+  includeAttachments?: boolean;
+  account?: string;
+  dryRun?: boolean;
+}): Promise<SendResult & { subject?: string; attachmentsForwarded?: number }> {
+  const original = await readEmail(options.messageId, options.account);
+  const note = options.body ?? '';
+
+  const forwardedHeaders = [
+    '---------- Forwarded message ---------',
+    `From: ${original.headers.from ?? ''}`,
+    `Date: ${original.headers.date ?? ''}`,
+    `Subject: ${original.headers.subject ?? ''}`,
+    `To: ${original.headers.to ?? ''}`,
+    ...(original.headers.cc ? [`Cc: ${original.headers.cc}`] : [])
+  ];
+
+  const body = `${note}\n\n${forwardedHeaders.join('\n')}\n\n${originalText(original)}`;
+  const html = original.body.html
+    ? `${textToHtml(note)}<br><br><div>${forwardedHeaders.map(escapeHtml).join('<br>')}</div><br>${original.body.html}`
+    : undefined;
+
+  const attachments: EmailAttachment[] = [];
+
+  if (options.includeAttachments ?? true) {
+    const totalSize = original.attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+    if (totalSize > MAX_ATTACHMENT_BYTES) {
+      return { success: false, error: 'Original attachments exceed Gmail\'s 25 MB limit; forward without attachments instead' };
+    }
+
+    for (const attachment of original.attachments) {
+      if (!attachment.attachmentId) continue;
+      attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        data: await getAttachmentData(original.id, attachment.attachmentId, options.account)
+      });
+    }
+  }
+
+  const subject = prefixSubject(original.headers.subject, 'Fwd');
+  const result = await sendEmail({
+    to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    subject,
+    body,
+    html,
+    attachments,
+    inReplyTo: original.headers.messageId,
+    references: buildReferences(original),
+    threadId: original.threadId,
+    account: options.account,
+    dryRun: options.dryRun
+  });
+
+  return { ...result, subject, attachmentsForwarded: attachments.length };
+}
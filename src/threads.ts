@@ -0,0 +1,272 @@
+import { gmail_v1 } from 'googleapis';
+import { getGmailClient } from './gmail.js';
+import { getHeader, parseMessage } from './inbox.js';
+import { htmlToText } from './messageBuilder.js';
+
+/**
+ * Whole conversations. Each message body is cut down to what its sender
+ * actually wrote (quoted replies and signatures removed), and a thread can be
+ * rendered as a compact transcript for an LLM's context.
+ */
+
+export interface ThreadMessage {
+  id: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  // ISO 8601, from Gmail's internal date (the Date header when missing)
+  date?: string;
+  subject?: string;
+  body: string;
+  attachments: string[];
+  labelIds?: string[];
+}
+
+export interface Thread {
+  id: string;
+  subject?: string;
+  messages: ThreadMessage[];
+}
+
+export interface ThreadSummary {
+  id: string;
+  subject?: string;
+  snippet?: string;
+  messageCount: number;
+  participants: string[];
+  lastFrom?: string;
+  lastDate?: string;
+  unread: boolean;
+  labelIds: string[];
+}
+
+// Where a quoted earlier message starts
+const QUOTE_MARKERS = [
+  // Gmail, Apple Mail and this server's replies; the attribution may wrap onto a second line
+  /^On [^\n]{1,250}(\n[^\n]{1,250})?wrote:[ \t]*$/m,
+  /^Am [^\n]{1,250}(\n[^\n]{1,250})?schrieb[^\n]*:[ \t]*$/m,
+  /^Le [^\n]{1,250}(\n[^\n]{1,250})?a écrit[ \t]*:[ \t]*$/m,
+  // Outlook
+  /^-{2,}\s*Original Message\s*-{2,}[ \t]*$/im,
+  /^_{10,}[ \t]*\n+From:[^\n]*\n(Sent|Date):/m,
+  /^From:[^\n]*\n(Sent|Date):[^\n]*\n(To|Subject):/m
+];
+
+// Where a signature starts
+const SIGNATURE_MARKERS = [
+  // RFC 3676 delimiter
+  /^-- ?$/m,
+  /^Sent from my [^\n]{1,40}$/m,
+  /^Get Outlook for [^\n]{1,20}$/m
+];
+
+// Quoted blocks in HTML-only messages (Gmail, Yahoo, Apple Mail, Outlook)
+const HTML_QUOTE_START = /<div[^>]*class="[^"]*gmail_quote|<div[^>]*class="[^"]*yahoo_quoted|<blockquote[^>]*type="cite"|<div[^>]*id="(divRplyFwdMsg|appendonsend)"/i;
+
+function cutAtFirst(text: string, markers: RegExp[]): string {
+  let end = text.length;
+  for (const marker of markers) {
+    const match = marker.exec(text);
+    if (match && match.index < end) {
+      end = match.index;
+    }
+  }
+  return text.slice(0, end);
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Remove quoted earlier messages: everything from the first attribution line
+ * ("On ... wrote:", Outlook's header block) and any remaining "> " lines
+ */
+export function stripQuotedReply(text: string): string {
+  const unquoted = cutAtFirst(text.replace(/\r\n/g, '\n'), QUOTE_MARKERS)
+    .split('\n')
+    .filter((line) => !line.startsWith('>'))
+    .join('\n');
+  return tidy(unquoted);
+}
+
+/**
+ * Remove a trailing signature ("-- " delimiter, "Sent from my iPhone")
+ */
+export function stripSignature(text: string): string {
+  return tidy(cutAtFirst(text.replace(/\r\n/g, '\n'), SIGNATURE_MARKERS));
+}
+
+/**
+ * What the sender wrote. A message that would be left empty (e.g. a bare
+ * forward) keeps its full text.
+ */
+export function cleanMessageBody(body: { text?: string; html?: string }): string {
+  const full = tidy(body.text ?? (body.html ? htmlToText(body.html) : ''));
+
+  let text = body.text;
+  if (text === undefined && body.html) {
+    const quoteStart = body.html.search(HTML_QUOTE_START);
+    text = htmlToText(quoteStart >= 0 ? body.html.slice(0, quoteStart) : body.html);
+  }
+
+  const cleaned = stripSignature(stripQuotedReply(text ?? ''));
+  return cleaned || full;
+}
+
+function messageDate(message: gmail_v1.Schema$Message): string | undefined {
+  if (message.internalDate) {
+    return new Date(Number(message.internalDate)).toISOString();
+  }
+  const header = getHeader(message.payload, 'Date');
+  const parsed = header ? new Date(header) : undefined;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.toISOString() : header;
+}
+
+function toThreadMessage(message: gmail_v1.Schema$Message, stripQuotes: boolean): ThreadMessage {
+  const parsed = parseMessage(message);
+
+  return {
+    id: parsed.id,
+    from: parsed.headers.from,
+    to: parsed.headers.to,
+    cc: parsed.headers.cc,
+    date: messageDate(message),
+    subject: parsed.headers.subject,
+    body: stripQuotes
+      ? cleanMessageBody(parsed.body)
+      : tidy(parsed.body.text ?? (parsed.body.html ? htmlToText(parsed.body.html) : '')),
+    attachments: parsed.attachments.map((attachment) => attachment.filename),
+    labelIds: parsed.labelIds
+  };
+}
+
+/**
+ * Fetch a thread with its messages oldest first
+ */
+export async function getThread(threadId: string, options: { stripQuotes?: boolean; account?: string } = {}): Promise<Thread> {
+  const gmail = getGmailClient(options.account);
+
+  const response = await gmail.users.threads.get({
+    userId: 'me',
+    id: threadId,
+    format: 'full'
+  });
+
+  const messages = (response.data.messages ?? [])
+    .sort((a, b) => Number(a.internalDate ?? 0) - Number(b.internalDate ?? 0))
+    .map((message) => toThreadMessage(message, options.stripQuotes ?? true));
+
+  return {
+    id: response.data.id as string,
+    subject: messages[0]?.subject,
+    messages
+  };
+}
+
+function transcriptEntry(message: ThreadMessage, index: number): string {
+  const date = message.date?.replace(/:\d{2}(\.\d+)?Z$/, ' UTC').replace('T', ' ') ?? 'unknown date';
+  const attachments = message.attachments.length > 0 ? `\n[attachments: ${message.attachments.join(', ')}]` : '';
+  return `[${index + 1}] ${date} ${message.from ?? 'unknown sender'}\n${message.body}${attachments}`;
+}
+
+/**
+ * Render a thread as a compact transcript. With maxChars, the newest messages
+ * are kept and older ones dropped; a newest message that alone exceeds the cap
+ * is cut short.
+ */
+export function formatTranscript(thread: Thread, maxChars?: number): {
+  transcript: string;
+  included: ThreadMessage[];
+  omitted: number;
+  // The newest message had to be cut short
+  truncated: boolean;
+} {
+  const header = `Subject: ${thread.subject ?? '(no subject)'}`;
+  const entries = thread.messages.map(transcriptEntry);
+
+  if (!maxChars) {
+    return { transcript: [header, ...entries].join('\n\n'), included: thread.messages, omitted: 0, truncated: false };
+  }
+
+  let length = header.length;
+  let first = entries.length;
+  // Reserve room for the "earlier messages omitted" note
+  const budget = maxChars - 60;
+  while (first > 0 && length + entries[first - 1].length + 2 <= budget) {
+    length += entries[first - 1].length + 2;
+    first--;
+  }
+
+  const kept = entries.slice(first);
+  const truncated = kept.length === 0 && entries.length > 0;
+  if (truncated) {
+    first = entries.length - 1;
+    kept.push(`${entries[first].slice(0, Math.max(0, budget - length - 20))}\n[... truncated]`);
+  }
+
+  const note = first > 0 ? [`[${first} earlier message${first === 1 ? '' : 's'} omitted]`] : [];
+  return {
+    transcript: [header, ...note, ...kept].join('\n\n'),
+    included: thread.messages.slice(first),
+    omitted: first,
+    truncated
+  };
+}
+
+/**
+ * List threads matching a Gmail search, newest first
+ */
+export async function listThreads(options: {
+  query?: string;
+  labelIds?: string[];
+  maxResults?: number;
+  pageToken?: string;
+  account?: string;
+}): Promise<{ threads: ThreadSummary[]; nextPageToken?: string; resultSizeEstimate?: number }> {
+  const gmail = getGmailClient(options.account);
+
+  const list = await gmail.users.threads.list({
+    userId: 'me',
+    q: options.query,
+    labelIds: options.labelIds,
+    maxResults: options.maxResults ?? 10,
+    pageToken: options.pageToken
+  });
+
+  const threads = await Promise.all(
+    (list.data.threads ?? []).map(async ({ id, snippet }) => {
+      const response = await gmail.users.threads.get({
+        userId: 'me',
+        id: id as string,
+        format: 'metadata',
+        metadataHeaders: ['From', 'Subject', 'Date']
+      });
+      const messages = response.data.messages ?? [];
+      const last = messages[messages.length - 1];
+      const labelIds = [...new Set(messages.flatMap((message) => message.labelIds ?? []))];
+
+      return {
+        id: id as string,
+        subject: getHeader(messages[0]?.payload, 'Subject'),
+        snippet: last?.snippet ?? snippet ?? undefined,
+        messageCount: messages.length,
+        participants: [...new Set(messages.map((message) => getHeader(message.payload, 'From')).filter((from): from is string => !!from))],
+        lastFrom: getHeader(last?.payload, 'From'),
+        lastDate: last ? messageDate(last) : undefined,
+        unread: labelIds.includes('UNREAD'),
+        labelIds
+      };
+    })
+  );
+
+  return {
+    threads,
+    nextPageToken: list.data.nextPageToken ?? undefined,
+    resultSizeEstimate: list.data.resultSizeEstimate ?? undefined
+  };
+}
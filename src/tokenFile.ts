@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+/**
+ * Gmail credentials kept in an encrypted file instead of .env. `npm run auth
+ * -- --output encrypted` writes it; the server reads it when GMAIL_TOKEN_FILE
+ * is set, decrypting with GMAIL_TOKEN_KEY (AES-256-GCM, key derived with scrypt).
+ */
+
+export interface StoredCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  email: string;
+  scopes?: string[];
+  createdAt: string;
+}
+
+interface TokenFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * A random passphrase for GMAIL_TOKEN_KEY
+ */
+export function generateTokenKey(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Encrypt credentials to a file readable only by the current user
+ */
+export function writeTokenFile(filePath: string, credentials: StoredCredentials, passphrase: string): void {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+
+  const file: TokenFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Decrypt a token file. A wrong key or a modified file is an error.
+ */
+export function readTokenFile(filePath: string, passphrase: string): StoredCredentials {
+  const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TokenFile;
+  if (file.version !== 1) {
+    throw new Error(`Unsupported token file version in ${filePath}`);
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase, Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf-8')) as StoredCredentials;
+  } catch {
+    throw new Error(`Could not decrypt ${filePath}: wrong GMAIL_TOKEN_KEY or the file was modified`);
+  }
+}
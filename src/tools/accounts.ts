@@ -0,0 +1,73 @@
+import { listAccounts } from '../accounts.js';
+import { getConfig } from '../config.js';
+import { getRateLimitStatus } from '../rateLimiter.js';
+import { listSendAs } from '../sendAs.js';
+import { defineTool } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// list_accounts
+// Show the Gmail accounts this server can send from (never their credentials)
+// ============================================================================
+
+export const listAccountsTool = defineTool({
+  name: 'list_accounts',
+  description: 'List the Gmail accounts this server can use. Pass an account id as from_account to send or read from that account.',
+  rateLimit: 'none',
+  scopes: [],
+  schema: {},
+  handler: async () => {
+    const { defaultAccount } = getConfig();
+    const accounts = [];
+
+    for (const account of listAccounts()) {
+      const status = await getRateLimitStatus({ account: account.id });
+      accounts.push({
+        id: account.id,
+        email: account.email,
+        display_name: account.displayName,
+        default: account.id === defaultAccount,
+        hourly: { sent: status.hourlyCount, limit: status.hourlyLimit },
+        daily: { sent: status.dailyCount, limit: status.dailyLimit }
+      });
+    }
+
+    return {
+      success: true,
+      count: accounts.length,
+      accounts
+    };
+  }
+});
+
+// ============================================================================
+// list_send_as
+// Show the "Send mail as" aliases configured in Gmail settings
+// ============================================================================
+
+export const listSendAsTool = defineTool({
+  name: 'list_send_as',
+  description: 'List the addresses this Gmail account can send as (Gmail "Send mail as" settings). Verified addresses can be passed as from to send_email.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    from_account: fromAccountSchema
+  },
+  handler: async ({ from_account }) => {
+    const aliases = await listSendAs(from_account, { refresh: true });
+
+    return {
+      success: true,
+      count: aliases.length,
+      send_as: aliases.map((alias) => ({
+        email: alias.email,
+        display_name: alias.displayName,
+        reply_to: alias.replyTo,
+        primary: alias.isPrimary,
+        default: alias.isDefault,
+        verified: alias.verified
+      }))
+    };
+  }
+});
@@ -0,0 +1,171 @@
+import { z } from 'zod';
+
+import {
+  getPendingSend,
+  listPendingSends,
+  claimPendingSend,
+  completePendingSend,
+  rejectPendingSend,
+  PendingSend
+} from '../approvals.js';
+import { findApiKey } from '../apiKeys.js';
+import { canAccessRecord, defineTool, executeTool, isApprover, ToolContext, ToolResult } from './registry.js';
+
+// ============================================================================
+// Approval queue
+// Send tools return an approval_id instead of sending when the approval
+// policy (APPROVAL_POLICY) matches; these tools review and decide them.
+// Callers only see their own requests; approvers see all of them.
+// ============================================================================
+
+/**
+ * A request the caller may see (others' requests look like they don't exist)
+ */
+function ownPendingSend(context: ToolContext, id: string): PendingSend {
+  const approval = getPendingSend(id);
+  if (!canAccessRecord(context, approval.apiKey)) {
+    throw new Error(`Approval request not found: ${id}`);
+  }
+  return approval;
+}
+
+function formatPendingSend(approval: PendingSend, options: { includeBody?: boolean } = {}) {
+  return {
+    id: approval.id,
+    status: approval.status,
+    tool: approval.tool,
+    requested_by: approval.apiKey ?? approval.transport,
+    account: approval.account,
+    recipients: approval.recipients,
+    subject: approval.subject,
+    body: options.includeBody ? approval.body : undefined,
+    reason: approval.reason,
+    created_at: approval.createdAt,
+    expires_at: approval.status === 'pending' ? approval.expiresAt : undefined,
+    decided_at: approval.decidedAt,
+    decided_by: approval.decidedBy,
+    rejection_reason: approval.rejectionReason,
+    result: approval.result
+  };
+}
+
+/**
+ * Who is deciding, or an error when the caller may not approve sends.
+ * Static API keys must be listed in APPROVAL_APPROVER_KEYS; OAuth clients need
+ * the mail.approve scope. Nobody can approve their own request, and callers
+ * without an API key (stdio) can't show they aren't the requester, so they
+ * decide on the /approvals page or through the signed link instead.
+ */
+function resolveApprover(context: ToolContext, approval: PendingSend): { approver: string } | { error: string } {
+  if (!context.apiKey) {
+    return { error: `Callers without an API key (${context.transport}) cannot approve or reject sends. Use the /approvals page or the signed link.` };
+  }
+
+  const approver = context.apiKey.label;
+  if (!isApprover(context)) {
+    return { error: `"${approver}" is not allowed to approve sends. Add it to APPROVAL_APPROVER_KEYS or use the /approvals page.` };
+  }
+  if (approval.apiKey === approver) {
+    return { error: 'A request cannot be approved or rejected by the caller that made it' };
+  }
+  return { approver };
+}
+
+/**
+ * Approve a held request and run it through the normal tool path with the
+ * original caller's context (rate limits and send log included). Shared by
+ * approve_send and the /approvals page.
+ */
+export async function approvePendingSend(id: string, approver: string): Promise<ToolResult> {
+  const approval = claimPendingSend(id, approver);
+  // Loaded lazily: the tool list includes this module's tools
+  const { findTool } = await import('./index.js');
+  const tool = findTool(approval.tool);
+
+  if (!tool) {
+    const result = { success: false, error: `Unknown tool: ${approval.tool}` };
+    completePendingSend(id, result);
+    return result;
+  }
+
+  const context: ToolContext = {
+    transport: approval.transport as ToolContext['transport'],
+    allowLocalPaths: approval.allowLocalPaths,
+    apiKey: approval.apiKey ? (findApiKey(approval.apiKey) ?? { label: approval.apiKey }) : undefined,
+    approvalId: approval.id
+  };
+
+  const result = await executeTool(tool, approval.args, context);
+  const { rate_limit, ...stored } = result;
+  completePendingSend(id, stored);
+
+  console.log(`[Approvals] ${approval.id} approved by ${approver}: ${result.success ? 'sent' : `failed (${result.error})`}`);
+  return result;
+}
+
+export const listPendingTool = defineTool({
+  name: 'list_pending',
+  description: 'List sends waiting for human approval (and recently decided ones). Send tools return an approval_id instead of sending when the approval policy applies. Callers only see their own requests; approvers see all of them.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    approval_id: z.string().optional().describe('Optional: Show one request, including its body'),
+    status: z.enum(['pending', 'approved', 'sent', 'failed', 'rejected', 'expired']).optional().default('pending')
+      .describe('Filter by status (default: pending)')
+  },
+  handler: async ({ approval_id, status }, context) => {
+    if (approval_id) {
+      return { success: true, approval: formatPendingSend(ownPendingSend(context, approval_id), { includeBody: true }) };
+    }
+
+    const approvals = listPendingSends(status).filter((approval) => canAccessRecord(context, approval.apiKey));
+    return {
+      success: true,
+      count: approvals.length,
+      approvals: approvals.map((approval) => formatPendingSend(approval))
+    };
+  }
+});
+
+export const approveSendTool = defineTool({
+  name: 'approve_send',
+  description: 'Approve a held send so it goes out now. Only approvers (APPROVAL_APPROVER_KEYS or OAuth clients granted mail.approve) can call this, never for their own requests and not over stdio.',
+  rateLimit: 'none',
+  scopes: ['mail.approve'],
+  schema: {
+    approval_id: z.string().describe('Approval id returned by the send tool (see list_pending)')
+  },
+  handler: async ({ approval_id }, context) => {
+    const decision = resolveApprover(context, getPendingSend(approval_id));
+    if ('error' in decision) {
+      return { success: false, error: decision.error };
+    }
+
+    const result = await approvePendingSend(approval_id, decision.approver);
+    return { ...result, approval_id };
+  }
+});
+
+export const rejectSendTool = defineTool({
+  name: 'reject_send',
+  description: 'Reject a held send; it will never be sent. Same permissions as approve_send.',
+  rateLimit: 'none',
+  scopes: ['mail.approve'],
+  schema: {
+    approval_id: z.string().describe('Approval id to reject'),
+    reason: z.string().max(1000).optional().describe('Optional: Why it was rejected (shown in list_pending)')
+  },
+  handler: async ({ approval_id, reason }, context) => {
+    const decision = resolveApprover(context, getPendingSend(approval_id));
+    if ('error' in decision) {
+      return { success: false, error: decision.error };
+    }
+
+    const approval = rejectPendingSend(approval_id, decision.approver, reason);
+    return {
+      success: true,
+      message: 'Request rejected. Nothing was sent.',
+      approval: formatPendingSend(approval)
+    };
+  }
+});
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+import { getAttachment, AttachmentInfo } from '../inbox.js';
+import { detectMimeType } from '../attachments.js';
+import { extractText, isAllowedType } from '../textExtraction.js';
+import { getConfig } from '../config.js';
+import { defineTool, ToolResult } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// Attachments of received mail
+// Download (base64 or, over stdio, to disk) and read as plain text
+// ============================================================================
+
+const attachmentSelectorSchema = {
+  message_id: z.string().describe('Gmail message id (from search_emails or read_email)'),
+  part_id: z.string().optional().describe('Attachment part id from read_email (preferred: stays the same between reads)'),
+  filename: z.string().optional().describe('Attachment file name, as listed by read_email'),
+  attachment_id: z.string().optional().describe('Attachment id from read_email')
+};
+
+function requireSelector(args: { part_id?: string; filename?: string; attachment_id?: string }): ToolResult | undefined {
+  if (!args.part_id && !args.filename && !args.attachment_id) {
+    return { success: false, error: 'Provide part_id, filename or attachment_id (see read_email)' };
+  }
+  return undefined;
+}
+
+/**
+ * The attachment's real type: Gmail often reports application/octet-stream for documents
+ */
+function attachmentType(attachment: AttachmentInfo, data: Buffer): string {
+  return attachment.mimeType === 'application/octet-stream'
+    ? detectMimeType(attachment.filename, data)
+    : attachment.mimeType;
+}
+
+/**
+ * A file name that is safe to create in the download directory and doesn't replace an existing file
+ */
+function downloadPath(directory: string, filename: string): string {
+  const safe = path.basename(filename).replace(/[^\w.\- ()]/g, '_').replace(/^\.+/, '') || 'attachment';
+  const { name, ext } = path.parse(safe);
+
+  let candidate = path.join(directory, safe);
+  for (let copy = 1; fs.existsSync(candidate); copy++) {
+    candidate = path.join(directory, `${name} (${copy})${ext}`);
+  }
+  return candidate;
+}
+
+export const getAttachmentTool = defineTool({
+  name: 'get_attachment',
+  description: 'Download an attachment of a received email. Returns the content as base64, or (local stdio server only) saves it to the download directory and returns the file path.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    ...attachmentSelectorSchema,
+    save_to_disk: z.boolean().default(false).describe('Save to ATTACHMENT_DOWNLOAD_DIR instead of returning base64 (stdio mode only)'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ message_id, part_id, filename, attachment_id, save_to_disk, from_account }, context) => {
+    const missing = requireSelector({ part_id, filename, attachment_id });
+    if (missing) return missing;
+
+    if (save_to_disk && !context.allowLocalPaths) {
+      return { success: false, error: 'Saving attachments to disk is only supported in stdio mode; omit save_to_disk to get base64 content' };
+    }
+
+    const { attachments } = getConfig();
+    const { attachment, data } = await getAttachment(
+      message_id,
+      { partId: part_id, filename, attachmentId: attachment_id },
+      // Files on disk aren't held in the response, so only Gmail's own limit applies
+      { maxBytes: save_to_disk ? undefined : attachments.maxBytes, account: from_account }
+    );
+    const mimeType = attachmentType(attachment, data);
+
+    if (save_to_disk) {
+      fs.mkdirSync(attachments.downloadDir, { recursive: true });
+      const filePath = downloadPath(attachments.downloadDir, attachment.filename);
+      fs.writeFileSync(filePath, data);
+
+      return {
+        success: true,
+        filename: attachment.filename,
+        mime_type: mimeType,
+        size: data.length,
+        saved_to: filePath
+      };
+    }
+
+    return {
+      success: true,
+      filename: attachment.filename,
+      mime_type: mimeType,
+      size: data.length,
+      content_base64: data.toString('base64')
+    };
+  }
+});
+
+export const extractAttachmentTextTool = defineTool({
+  name: 'extract_attachment_text',
+  description: 'Read an email attachment as plain text: text files, CSV, JSON, XML and HTML exactly, PDF and Word (.docx) on a best-effort basis ' +
+    '(scanned PDFs have no text). Only allowed file types up to the size limit are read.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    ...attachmentSelectorSchema,
+    max_chars: z.number().int().min(100).max(500000).default(50000).describe('Return at most this many characters'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ message_id, part_id, filename, attachment_id, max_chars, from_account }) => {
+    const missing = requireSelector({ part_id, filename, attachment_id });
+    if (missing) return missing;
+
+    const { attachments } = getConfig();
+    const { attachment, data } = await getAttachment(
+      message_id,
+      { partId: part_id, filename, attachmentId: attachment_id },
+      { maxBytes: attachments.maxBytes, account: from_account }
+    );
+    const mimeType = attachmentType(attachment, data);
+
+    if (!isAllowedType(mimeType, attachments.textTypes)) {
+      return {
+        success: false,
+        error: `${attachment.filename} is ${mimeType}, which is not on the text extraction allowlist (${attachments.textTypes.join(', ')})`
+      };
+    }
+
+    let extracted;
+    try {
+      extracted = extractText(data, mimeType, { maxOutputBytes: attachments.maxExtractedBytes });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Could not read ${attachment.filename}: ${error instanceof Error ? error.message : error}`
+      };
+    }
+
+    const bestEffort = extracted.method === 'pdf' || extracted.method === 'docx';
+    return {
+      success: true,
+      filename: attachment.filename,
+      mime_type: mimeType,
+      size: data.length,
+      method: extracted.method,
+      best_effort: bestEffort || undefined,
+      chars: extracted.text.length,
+      truncated: extracted.text.length > max_chars || undefined,
+      text: extracted.text.slice(0, max_chars),
+      warning: bestEffort && extracted.text.trim().length === 0
+        ? 'No text could be extracted. The file may be scanned images or use font encodings this server can\'t read.'
+        : undefined
+    };
+  }
+});
@@ -0,0 +1,347 @@
+import { z } from 'zod';
+
+import {
+  startCampaign,
+  getCampaign,
+  listCampaigns,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+  countRecipients,
+  Campaign
+} from '../campaigns.js';
+import { loadMergeRows, prepareMailMerge, rowRecipient, MergeMessage } from '../mailMerge.js';
+import { sendEmail, isDryRunMode } from '../gmail.js';
+import { resolveSender } from '../sendAs.js';
+import { getRateLimitStatus } from '../rateLimiter.js';
+import { TemplateRow } from '../template.js';
+import { MessagePreview, splitAddressList } from '../messageBuilder.js';
+import { canAccessRecord, defineTool, rateLimitTarget, ToolContext, ToolResult } from './registry.js';
+import { dryRunSchema, fromAccountSchema, idempotencySchema } from './schemas.js';
+
+// ============================================================================
+// Campaigns
+// Bulk sends run in the background: start_campaign returns at once and the
+// campaign runner sends one message at a time, waiting out rate limits.
+// Callers only see and control the campaigns they started.
+// ============================================================================
+
+/**
+ * A campaign the caller may see; other callers' campaigns look like unknown ids
+ */
+async function ownCampaign(context: ToolContext, id: string): Promise<Campaign> {
+  const campaign = await getCampaign(id);
+  if (!canAccessRecord(context, campaign.apiKey)) {
+    throw new Error(`Campaign not found: ${id}`);
+  }
+  return campaign;
+}
+
+function formatCampaign(campaign: Campaign, options: { includeRecipients?: boolean } = {}) {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    status: campaign.status,
+    account: campaign.account,
+    subject: campaign.email.subject,
+    counts: countRecipients(campaign),
+    next_send_at: campaign.status === 'running' ? campaign.nextSendAt : undefined,
+    waiting: campaign.waitingReason,
+    created_at: campaign.createdAt,
+    completed_at: campaign.completedAt,
+    recipients: options.includeRecipients
+      ? campaign.recipients.map((r) => ({
+          email: r.email,
+          status: r.status,
+          sent_at: r.sentAt,
+          messageId: r.messageId,
+          error: r.error
+        }))
+      : undefined
+  };
+}
+
+/**
+ * Build every merge message without sending it (dry runs): the outcome per
+ * recipient plus the first few messages decoded
+ */
+async function dryRunMergeMessages(
+  messages: MergeMessage[],
+  options: { cc?: string[]; bcc?: string[]; from?: string; replyTo?: string; account?: string; previewCount: number }
+): Promise<{ results: Array<{ row: number; email: string; success: boolean; size?: number; error?: string }>; messages: MessagePreview[] }> {
+  const results = [];
+  const previews: MessagePreview[] = [];
+
+  for (const message of messages) {
+    const result = await sendEmail({
+      to: message.to,
+      subject: message.subject,
+      body: message.body,
+      html: message.html,
+      cc: options.cc,
+      bcc: options.bcc,
+      account: options.account,
+      from: options.from,
+      replyTo: options.replyTo,
+      dryRun: true
+    });
+
+    results.push({ row: message.row, email: message.to, success: result.success, size: result.preview?.size, error: result.error });
+    if (result.preview && previews.length < options.previewCount) {
+      previews.push(result.preview);
+    }
+  }
+
+  return { results, messages: previews };
+}
+
+/**
+ * Validate rows and templates, then create the campaign (or, in a dry run,
+ * build every message without creating it). Shared by start_campaign,
+ * send_bulk_emails and send_mail_merge.
+ */
+export async function createCampaignFromRows(
+  rows: TemplateRow[],
+  options: {
+    name?: string;
+    emailField: string;
+    subject: string;
+    body?: string;
+    html?: string;
+    cc?: string;
+    bcc?: string;
+    from?: string;
+    replyTo?: string;
+    account?: string;
+    plainText?: boolean;
+    placeholders?: string[];
+    dryRun?: boolean;
+    // Messages returned in full by a dry run
+    previewCount?: number;
+  },
+  context: ToolContext
+): Promise<ToolResult> {
+  if (rows.length === 0) {
+    return { success: false, error: 'No recipients given' };
+  }
+
+  const { messages, problems } = prepareMailMerge(rows, {
+    subject: options.subject,
+    body: options.body,
+    html: options.html,
+    plainText: options.plainText,
+    placeholders: options.placeholders,
+    emailField: options.emailField
+  });
+
+  if (problems.length > 0) {
+    return {
+      success: false,
+      error: `${problems.length} of ${rows.length} recipients have problems; the campaign was not started`,
+      problems
+    };
+  }
+
+  const sender = await resolveSender({ account: options.account, from: options.from, replyTo: options.replyTo });
+  const status = await getRateLimitStatus(rateLimitTarget(context, options.account));
+  const sendableNow = Math.min(messages.length, status.hourlyRemaining, status.dailyRemaining);
+
+  if (options.dryRun || isDryRunMode()) {
+    const dryRun = await dryRunMergeMessages(messages, {
+      cc: splitAddressList(options.cc),
+      bcc: splitAddressList(options.bcc),
+      from: sender.from,
+      replyTo: sender.replyTo,
+      account: options.account,
+      previewCount: options.previewCount ?? 3
+    });
+    const built = dryRun.results.filter((r) => r.success).length;
+
+    return {
+      success: built === dryRun.results.length,
+      dry_run: true,
+      message: `Dry run: built ${built}/${dryRun.results.length} emails; ${sendableNow} fit in the current rate limits. ` +
+        'No campaign was created and nothing was sent.',
+      ...dryRun
+    };
+  }
+
+  const campaign = await startCampaign({
+    name: options.name,
+    email: {
+      subject: options.subject,
+      body: options.body,
+      html: options.html,
+      plainText: options.plainText,
+      placeholders: options.placeholders,
+      cc: splitAddressList(options.cc),
+      bcc: splitAddressList(options.bcc),
+      from: sender.from,
+      replyTo: sender.replyTo
+    },
+    rows,
+    emailField: options.emailField,
+    account: options.account,
+    apiKey: context.apiKey?.label,
+    tool: context.tool
+  });
+
+  return {
+    success: true,
+    message: sendableNow < messages.length
+      ? `Campaign started. ${sendableNow} of ${messages.length} emails fit in the current rate limits; the rest will be sent as the limits reset.`
+      : `Campaign started. ${messages.length} emails will be sent in the background.`,
+    campaign_id: campaign.id,
+    campaign: formatCampaign(campaign),
+    tip: 'Use campaign_status to follow progress, pause_campaign or cancel_campaign to stop it.'
+  };
+}
+
+export const startCampaignTool = defineTool({
+  name: 'start_campaign',
+  description: 'Start a background bulk send and return a campaign id immediately. Recipients come from a list of addresses or from JSON/CSV rows; ' +
+    'subject, body and html are templates ({{field}}, {{field|fallback}}, {{#if field}}...{{/if}}, as in send_mail_merge). ' +
+    'Sending continues after this call returns and waits for rate limits to reset instead of failing.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  gmailAccess: ['send'],
+  schema: {
+    name: z.string().max(200).optional().describe('Optional: Name to identify the campaign'),
+    recipients: z.array(z.string()).optional().describe('Recipient email addresses (alternative to rows/csv/csv_path)'),
+    rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional()
+      .describe('Recipient rows as JSON objects with an email field and merge fields'),
+    csv: z.string().max(1000000).optional().describe('Recipient rows as CSV text with a header row'),
+    csv_path: z.string().optional().describe('Path to a local CSV file with a header row (stdio mode only)'),
+    email_field: z.string().default('email').describe('Column holding each recipient\'s address'),
+    subject: z.string().max(500).describe('Subject (template)'),
+    body: z.string().max(20000).optional().describe('Plain-text body (template). Optional when html is provided.'),
+    html: z.string().max(100000).optional().describe('Optional: HTML body (template)'),
+    cc: z.string().optional().describe('Optional: CC recipients added to every message (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients added to every message (comma-separated)'),
+    from: z.string().optional().describe('Optional: Verified send-as alias to send from (see list_send_as)'),
+    reply_to: z.string().optional().describe('Optional: Reply-To address'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async (args, context) => {
+    const recipients = args.recipients ?? loadMergeRows(
+      { rows: args.rows, csv: args.csv, csvPath: args.csv_path },
+      { allowLocalPaths: context.allowLocalPaths }
+    ).map((row) => rowRecipient(row, args.email_field));
+    return {
+      recipients: [...recipients, ...splitAddressList(args.cc), ...splitAddressList(args.bcc)],
+      subject: args.subject,
+      body: args.body ?? args.html,
+      bulk: true,
+      perMessage: 1 + splitAddressList(args.cc).length + splitAddressList(args.bcc).length
+    };
+  },
+  handler: async (args, context) => {
+    const rows = args.recipients
+      ? args.recipients.map((email) => ({ [args.email_field]: email }))
+      : loadMergeRows(
+          { rows: args.rows, csv: args.csv, csvPath: args.csv_path },
+          { allowLocalPaths: context.allowLocalPaths }
+        );
+
+    if (args.recipients && (args.rows || args.csv !== undefined || args.csv_path)) {
+      return { success: false, error: 'Provide either recipients or rows/csv/csv_path, not both' };
+    }
+
+    return createCampaignFromRows(rows, {
+      name: args.name,
+      emailField: args.email_field,
+      subject: args.subject,
+      body: args.body,
+      html: args.html,
+      cc: args.cc,
+      bcc: args.bcc,
+      from: args.from,
+      replyTo: args.reply_to,
+      account: args.from_account,
+      dryRun: args.dry_run
+    }, context);
+  }
+});
+
+export const campaignStatusTool = defineTool({
+  name: 'campaign_status',
+  description: 'Show a campaign\'s progress (sent, pending, failed) and when the next email goes out, or list recent campaigns when no id is given.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    campaign_id: z.string().optional().describe('Campaign id (from start_campaign). Omit to list campaigns.'),
+    include_recipients: z.boolean().default(false).describe('Include per-recipient status'),
+    status: z.enum(['running', 'paused', 'completed', 'cancelled']).optional().describe('Optional: When listing, only show campaigns with this status')
+  },
+  handler: async ({ campaign_id, include_recipients, status }, context) => {
+    if (campaign_id) {
+      return {
+        success: true,
+        campaign: formatCampaign(await ownCampaign(context, campaign_id), { includeRecipients: include_recipients })
+      };
+    }
+
+    const campaigns = (await listCampaigns(status)).filter((campaign) => canAccessRecord(context, campaign.apiKey));
+    return {
+      success: true,
+      count: campaigns.length,
+      campaigns: campaigns.map((campaign) => formatCampaign(campaign))
+    };
+  }
+});
+
+export const pauseCampaignTool = defineTool({
+  name: 'pause_campaign',
+  description: 'Pause a running campaign. No more emails are sent until it is resumed.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    campaign_id: z.string().describe('Campaign id')
+  },
+  handler: async ({ campaign_id }, context) => {
+    await ownCampaign(context, campaign_id);
+    return {
+      success: true,
+      message: 'Campaign paused.',
+      campaign: formatCampaign(await pauseCampaign(campaign_id))
+    };
+  }
+});
+
+export const resumeCampaignTool = defineTool({
+  name: 'resume_campaign',
+  description: 'Resume a paused campaign.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    campaign_id: z.string().describe('Campaign id')
+  },
+  handler: async ({ campaign_id }, context) => {
+    await ownCampaign(context, campaign_id);
+    return {
+      success: true,
+      message: 'Campaign resumed.',
+      campaign: formatCampaign(await resumeCampaign(campaign_id))
+    };
+  }
+});
+
+export const cancelCampaignTool = defineTool({
+  name: 'cancel_campaign',
+  description: 'Cancel a campaign. Emails already sent are not affected; the remaining recipients are skipped.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    campaign_id: z.string().describe('Campaign id')
+  },
+  handler: async ({ campaign_id }, context) => {
+    await ownCampaign(context, campaign_id);
+    return {
+      success: true,
+      message: 'Campaign cancelled.',
+      campaign: formatCampaign(await cancelCampaign(campaign_id))
+    };
+  }
+});
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+
+import { createDraft, listDrafts, getDraft, updateDraft, sendDraft, deleteDraft, Draft } from '../drafts.js';
+import { resolveAttachments } from '../attachments.js';
+import { isDryRunMode } from '../gmail.js';
+import { splitAddressList } from '../messageBuilder.js';
+import { defineTool, recordSend, recordFailedSend } from './registry.js';
+import { attachmentSchema, fromAccountSchema, idempotencySchema } from './schemas.js';
+
+// ============================================================================
+// Draft management
+// Drafts live in Gmail so a human can review them before they go out.
+// ============================================================================
+
+function formatDraft(draft: Draft) {
+  return {
+    draft_id: draft.id,
+    message_id: draft.message.id,
+    thread_id: draft.message.threadId,
+    to: draft.message.headers.to,
+    cc: draft.message.headers.cc,
+    bcc: draft.message.headers.bcc,
+    subject: draft.message.headers.subject,
+    body: draft.message.body.text,
+    has_html: !!draft.message.body.html,
+    attachments: draft.message.attachments.map(a => ({ filename: a.filename, mime_type: a.mimeType, size: a.size }))
+  };
+}
+
+export const createDraftTool = defineTool({
+  name: 'create_draft',
+  description: 'Save an email as a Gmail draft without sending it, so it can be reviewed in Gmail first.',
+  rateLimit: 'none',
+  scopes: ['mail.draft'],
+  gmailAccess: ['compose'],
+  schema: {
+    to: z.string().describe('Recipient email address(es), comma-separated'),
+    subject: z.string().max(200).describe('Email subject line'),
+    body: z.string().max(10000).optional().describe('Email body content (plain text). Optional when html is provided.'),
+    html: z.string().max(50000).optional().describe('Optional: HTML body'),
+    cc: z.string().optional().describe('Optional: CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients (comma-separated)'),
+    attachments: attachmentSchema.optional().describe('Optional: Files to attach (25 MB total limit)'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ to, subject, body, html, cc, bcc, attachments, from_account }, context) => {
+    const draft = await createDraft({
+      to,
+      subject,
+      body,
+      html,
+      cc: splitAddressList(cc),
+      bcc: splitAddressList(bcc),
+      attachments: resolveAttachments(attachments, { allowLocalPaths: context.allowLocalPaths })
+    }, from_account);
+
+    return {
+      success: true,
+      message: 'Draft saved. Review it in Gmail or call send_draft to send it.',
+      draft: formatDraft(draft)
+    };
+  }
+});
+
+export const listDraftsTool = defineTool({
+  name: 'list_drafts',
+  description: 'List Gmail drafts with their recipients, subjects and snippets.',
+  rateLimit: 'none',
+  scopes: ['mail.draft'],
+  gmailAccess: ['compose'],
+  schema: {
+    query: z.string().optional().describe('Optional: Gmail search query to filter drafts'),
+    max_results: z.number().int().min(1).max(100).default(10).describe('Maximum number of drafts to return (1-100)'),
+    page_token: z.string().optional().describe('Optional: next_page_token from a previous call'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ query, max_results, page_token, from_account }) => {
+    const result = await listDrafts({ query, maxResults: max_results, pageToken: page_token, account: from_account });
+
+    return {
+      success: true,
+      count: result.drafts.length,
+      drafts: result.drafts,
+      next_page_token: result.nextPageToken
+    };
+  }
+});
+
+export const getDraftTool = defineTool({
+  name: 'get_draft',
+  description: 'Get the full content of a Gmail draft.',
+  rateLimit: 'none',
+  scopes: ['mail.draft'],
+  gmailAccess: ['compose'],
+  schema: {
+    draft_id: z.string().describe('Draft id (from create_draft or list_drafts)'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ draft_id, from_account }) => {
+    const draft = await getDraft(draft_id, from_account);
+
+    return {
+      success: true,
+      draft: formatDraft(draft)
+    };
+  }
+});
+
+export const updateDraftTool = defineTool({
+  name: 'update_draft',
+  description: 'Update a Gmail draft. Only the fields you pass are changed; existing attachments are kept unless new ones are given.',
+  rateLimit: 'none',
+  scopes: ['mail.draft'],
+  gmailAccess: ['compose'],
+  schema: {
+    draft_id: z.string().describe('Draft id to update'),
+    to: z.string().optional().describe('Optional: New recipient address(es), comma-separated'),
+    subject: z.string().max(200).optional().describe('Optional: New subject line'),
+    body: z.string().max(10000).optional().describe('Optional: New plain-text body'),
+    html: z.string().max(50000).optional().describe('Optional: New HTML body'),
+    cc: z.string().optional().describe('Optional: New CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: New BCC recipients (comma-separated)'),
+    attachments: attachmentSchema.optional().describe('Optional: Replace the attachments with these files'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ draft_id, to, subject, body, html, cc, bcc, attachments, from_account }, context) => {
+    const draft = await updateDraft(draft_id, {
+      to,
+      subject,
+      body,
+      html,
+      cc: cc !== undefined ? splitAddressList(cc) : undefined,
+      bcc: bcc !== undefined ? splitAddressList(bcc) : undefined,
+      attachments: attachments ? resolveAttachments(attachments, { allowLocalPaths: context.allowLocalPaths }) : undefined
+    }, from_account);
+
+    return {
+      success: true,
+      message: 'Draft updated.',
+      draft: formatDraft(draft)
+    };
+  }
+});
+
+export const sendDraftTool = defineTool({
+  name: 'send_draft',
+  description: 'Send an existing Gmail draft. Counts against the same rate limits as send_email.',
+  rateLimit: 'send',
+  scopes: ['mail.draft', 'mail.send'],
+  gmailAccess: ['compose'],
+  schema: {
+    draft_id: z.string().describe('Draft id to send'),
+    dry_run: z.boolean().default(false).describe('Show the draft that would be sent without sending it'),
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async ({ draft_id, from_account }) => {
+    const { message } = await getDraft(draft_id, from_account);
+    const { to, cc, bcc, subject } = message.headers;
+    return {
+      recipients: [...splitAddressList(to), ...splitAddressList(cc), ...splitAddressList(bcc)],
+      subject,
+      body: message.body.text
+    };
+  },
+  handler: async ({ draft_id, dry_run, from_account }, context) => {
+    const { message } = await getDraft(draft_id, from_account);
+
+    if (dry_run || isDryRunMode()) {
+      return {
+        success: true,
+        dry_run: true,
+        message: 'Dry run: the draft was not sent.',
+        draft: message
+      };
+    }
+
+    const logged = {
+      account: from_account,
+      to: message.headers.to ?? '',
+      cc: splitAddressList(message.headers.cc),
+      bcc: splitAddressList(message.headers.bcc),
+      subject: message.headers.subject,
+      body: message.body.text,
+      html: message.body.html
+    };
+
+    let result: { messageId?: string; threadId?: string };
+    try {
+      result = await sendDraft(draft_id, from_account);
+    } catch (error) {
+      recordFailedSend(context, { ...logged, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+    await recordSend(context, { ...logged, messageId: result.messageId, threadId: result.threadId });
+
+    return {
+      success: true,
+      message: 'Draft sent.',
+      messageId: result.messageId,
+      threadId: result.threadId
+    };
+  }
+});
+
+export const deleteDraftTool = defineTool({
+  name: 'delete_draft',
+  description: 'Permanently delete a Gmail draft.',
+  rateLimit: 'none',
+  scopes: ['mail.draft'],
+  gmailAccess: ['compose'],
+  schema: {
+    draft_id: z.string().describe('Draft id to delete'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ draft_id, from_account }) => {
+    await deleteDraft(draft_id, from_account);
+
+    return {
+      success: true,
+      message: `Draft ${draft_id} deleted.`
+    };
+  }
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+import { readSendLog, parseSendLogFilter } from '../sendLog.js';
+import { canAccessRecord, defineTool } from './registry.js';
+
+// ============================================================================
+// get_send_history
+// Query the append-only send log (every message sent, failed or refused)
+// ============================================================================
+
+export const getSendHistoryTool = defineTool({
+  name: 'get_send_history',
+  description: 'Look up what this server has sent: every message from the send tools, scheduled emails and campaigns, with recipients, subject, ' +
+    'message id, the calling client and the outcome (sent, failed, or refused by the recipient policy). Newest first. ' +
+    'Callers only see their own sends; approvers see all of them.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  schema: {
+    recipient: z.string().optional().describe('Optional: Only messages to this address (partial match, e.g. "@acme.com")'),
+    since: z.string().optional().describe('Optional: Start date/time (ISO 8601, e.g. 2025-01-31)'),
+    until: z.string().optional().describe('Optional: End date/time (ISO 8601); a bare date includes the whole day'),
+    status: z.enum(['sent', 'failed', 'refused']).optional().describe('Optional: Filter by outcome'),
+    account: z.string().optional().describe('Optional: Only sends from this account id'),
+    tool: z.string().optional().describe('Optional: Only sends made by this tool, e.g. send_email'),
+    limit: z.number().int().min(1).max(500).default(50).describe('Maximum entries to return')
+  },
+  handler: async ({ recipient, since, until, status, account, tool, limit }, context) => {
+    const entries = readSendLog(parseSendLogFilter({ recipient, since, until, status, account, tool }))
+      .filter((entry) => canAccessRecord(context, entry.apiKey));
+    const newestFirst = entries.reverse().slice(0, limit);
+
+    return {
+      success: true,
+      total: entries.length,
+      count: newestFirst.length,
+      entries: newestFirst
+    };
+  }
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+
+import { htmlToText } from '../messageBuilder.js';
+import { searchEmails, readEmail } from '../inbox.js';
+import { getThread, listThreads, formatTranscript } from '../threads.js';
+import { defineTool } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// search_emails
+// Search the mailbox with Gmail query syntax
+// ============================================================================
+
+export const searchEmailsTool = defineTool({
+  name: 'search_emails',
+  description: 'Search your Gmail inbox using Gmail search syntax (e.g. "from:alice is:unread newer_than:7d"). Returns message ids, senders, subjects and snippets.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    query: z.string().optional().describe('Gmail search query (same syntax as the Gmail search box)'),
+    label_ids: z.array(z.string()).optional().describe('Optional: Only return messages with all of these label ids (e.g. INBOX, UNREAD, STARRED)'),
+    max_results: z.number().int().min(1).max(100).default(10).describe('Maximum number of messages to return (1-100)'),
+    page_token: z.string().optional().describe('Optional: next_page_token from a previous search to get the next page'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ query, label_ids, max_results, page_token, from_account }) => {
+    const result = await searchEmails({
+      query,
+      labelIds: label_ids,
+      maxResults: max_results,
+      pageToken: page_token,
+      account: from_account
+    });
+
+    return {
+      success: true,
+      count: result.messages.length,
+      messages: result.messages,
+      next_page_token: result.nextPageToken,
+      result_size_estimate: result.resultSizeEstimate
+    };
+  }
+});
+
+// ============================================================================
+// read_email
+// Read a single message with decoded headers, body and attachment list
+// ============================================================================
+
+export const readEmailTool = defineTool({
+  name: 'read_email',
+  description: 'Read a Gmail message by id. Returns decoded headers, the plain-text body (and optionally HTML), the attachment list and the thread id.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    message_id: z.string().describe('Gmail message id (from search_emails)'),
+    include_html: z.boolean().default(false).describe('Also return the HTML body when the message has one'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ message_id, include_html, from_account }) => {
+    const message = await readEmail(message_id, from_account);
+    const text = message.body.text ?? (message.body.html ? htmlToText(message.body.html) : undefined);
+
+    return {
+      success: true,
+      id: message.id,
+      thread_id: message.threadId,
+      label_ids: message.labelIds,
+      headers: message.headers,
+      body: text,
+      html: include_html ? message.body.html : undefined,
+      attachments: message.attachments
+    };
+  }
+});
+
+// ============================================================================
+// list_threads
+// Search conversations rather than individual messages
+// ============================================================================
+
+export const listThreadsTool = defineTool({
+  name: 'list_threads',
+  description: 'List Gmail conversations (threads) matching a search, e.g. "from:customer@acme.com newer_than:7d". ' +
+    'Returns each thread\'s subject, participants, message count, last sender and date, and whether it has unread messages.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    query: z.string().optional().describe('Gmail search query (same syntax as the Gmail search box)'),
+    label_ids: z.array(z.string()).optional().describe('Optional: Only threads with all of these label ids (e.g. INBOX, UNREAD)'),
+    max_results: z.number().int().min(1).max(50).default(10).describe('Maximum number of threads to return (1-50)'),
+    page_token: z.string().optional().describe('Optional: next_page_token from a previous call to get the next page'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ query, label_ids, max_results, page_token, from_account }) => {
+    const result = await listThreads({
+      query,
+      labelIds: label_ids,
+      maxResults: max_results,
+      pageToken: page_token,
+      account: from_account
+    });
+
+    return {
+      success: true,
+      count: result.threads.length,
+      threads: result.threads.map((thread) => ({
+        thread_id: thread.id,
+        subject: thread.subject,
+        snippet: thread.snippet,
+        message_count: thread.messageCount,
+        participants: thread.participants,
+        last_from: thread.lastFrom,
+        last_date: thread.lastDate,
+        unread: thread.unread,
+        label_ids: thread.labelIds
+      })),
+      next_page_token: result.nextPageToken,
+      result_size_estimate: result.resultSizeEstimate
+    };
+  }
+});
+
+// ============================================================================
+// get_thread
+// A whole conversation, oldest first, with quoted text and signatures removed
+// ============================================================================
+
+export const getThreadTool = defineTool({
+  name: 'get_thread',
+  description: 'Read a whole Gmail conversation, oldest message first. Each body has quoted earlier messages and signatures removed, ' +
+    'so every message shows only what its sender wrote. Use format "transcript" for a compact text version, and max_chars to keep only the newest messages that fit.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    thread_id: z.string().describe('Gmail thread id (from list_threads, search_emails or read_email)'),
+    format: z.enum(['messages', 'transcript']).default('messages')
+      .describe('messages: each message with its body; transcript: one compact text block plus message headers'),
+    max_chars: z.number().int().min(500).max(500000).optional()
+      .describe('Optional: Cap on the total body/transcript length. The newest messages are kept; older ones are dropped.'),
+    strip_quotes: z.boolean().default(true).describe('Remove quoted replies and signatures from each body'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ thread_id, format, max_chars, strip_quotes, from_account }) => {
+    const thread = await getThread(thread_id, { stripQuotes: strip_quotes, account: from_account });
+    const { transcript, included, omitted, truncated } = formatTranscript(thread, max_chars);
+
+    const messages = included.map((message, index) => ({
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      cc: message.cc,
+      date: message.date,
+      subject: message.subject,
+      body: format === 'messages'
+        ? (truncated && max_chars && index === included.length - 1 ? `${message.body.slice(0, max_chars)}\n[... truncated]` : message.body)
+        : undefined,
+      attachments: message.attachments.length > 0 ? message.attachments : undefined,
+      label_ids: message.labelIds
+    }));
+
+    return {
+      success: true,
+      thread_id: thread.id,
+      subject: thread.subject,
+      message_count: thread.messages.length,
+      omitted_messages: omitted > 0 ? omitted : undefined,
+      truncated: truncated || undefined,
+      messages,
+      transcript: format === 'transcript' ? transcript : undefined
+    };
+  }
+});
@@ -0,0 +1,147 @@
+/**
+ * Shared tool registry. Every transport (stdio, HTTP/SSE, REST, Apify actor)
+ * is a thin adapter over these definitions, so all deployments expose the
+ * same tools with the same validation and rate limiting.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { ToolContext, ToolDefinition, ToolResult, runToolDefinition, registerMcpTools } from './registry.js';
+import {
+  sendEmailTool,
+  composeAndSendTool,
+  sendBulkEmailsTool,
+  replyToEmailTool,
+  forwardEmailTool
+} from './send.js';
+import { sendMailMergeTool } from './mailMerge.js';
+import {
+  startCampaignTool,
+  campaignStatusTool,
+  pauseCampaignTool,
+  resumeCampaignTool,
+  cancelCampaignTool
+} from './campaigns.js';
+import { checkEmailStatusTool, verifyConnectionTool } from './status.js';
+import { listAccountsTool, listSendAsTool } from './accounts.js';
+import { searchEmailsTool, readEmailTool, listThreadsTool, getThreadTool } from './inbox.js';
+import { getAttachmentTool, extractAttachmentTextTool } from './attachments.js';
+import {
+  createDraftTool,
+  listDraftsTool,
+  getDraftTool,
+  updateDraftTool,
+  sendDraftTool,
+  deleteDraftTool
+} from './drafts.js';
+import { scheduleEmailTool, listScheduledTool, cancelScheduledTool, rescheduleTool } from './scheduling.js';
+import { listPendingTool, approveSendTool, rejectSendTool } from './approvals.js';
+import { checkRecipientsTool } from './recipients.js';
+import { getSendHistoryTool } from './history.js';
+import {
+  listLabelsTool,
+  createLabelTool,
+  renameLabelTool,
+  deleteLabelTool,
+  modifyLabelsTool,
+  updateMessagesTool,
+  bulkModifyLabelsTool,
+  bulkUpdateMessagesTool
+} from './labels.js';
+import { isFeatureAvailable } from '../gmailScopes.js';
+
+export * from './registry.js';
+
+export const TOOLS: ToolDefinition<any>[] = [
+  sendEmailTool,
+  composeAndSendTool,
+  sendBulkEmailsTool,
+  sendMailMergeTool,
+  startCampaignTool,
+  campaignStatusTool,
+  pauseCampaignTool,
+  resumeCampaignTool,
+  cancelCampaignTool,
+  checkEmailStatusTool,
+  checkRecipientsTool,
+  getSendHistoryTool,
+  verifyConnectionTool,
+  listAccountsTool,
+  listSendAsTool,
+  createDraftTool,
+  listDraftsTool,
+  getDraftTool,
+  updateDraftTool,
+  sendDraftTool,
+  deleteDraftTool,
+  searchEmailsTool,
+  readEmailTool,
+  listThreadsTool,
+  getThreadTool,
+  getAttachmentTool,
+  extractAttachmentTextTool,
+  listLabelsTool,
+  createLabelTool,
+  renameLabelTool,
+  deleteLabelTool,
+  modifyLabelsTool,
+  updateMessagesTool,
+  bulkModifyLabelsTool,
+  bulkUpdateMessagesTool,
+  replyToEmailTool,
+  forwardEmailTool,
+  scheduleEmailTool,
+  listScheduledTool,
+  cancelScheduledTool,
+  rescheduleTool,
+  listPendingTool,
+  approveSendTool,
+  rejectSendTool
+];
+
+// Names used by older deployments (railway-server and the Apify actor)
+const TOOL_ALIASES: Record<string, string> = {
+  check_status: 'check_email_status'
+};
+
+/**
+ * Look up a tool by name or legacy alias
+ */
+export function findTool(name: string): ToolDefinition<any> | undefined {
+  const resolved = TOOL_ALIASES[name] ?? name;
+  return TOOLS.find((tool) => tool.name === resolved);
+}
+
+/**
+ * Tools at least one account's Gmail token can use (all of them until the
+ * granted scopes have been looked up)
+ */
+export function availableTools(): ToolDefinition<any>[] {
+  return TOOLS.filter((tool) => isFeatureAvailable(tool.gmailAccess ?? []));
+}
+
+/**
+ * Validate and run a tool by name (used by the JSON-RPC, REST and actor adapters)
+ */
+export async function runTool(name: string, rawArgs: unknown, context: ToolContext): Promise<ToolResult> {
+  const tool = findTool(name);
+
+  if (!tool) {
+    return { success: false, error: `Unknown tool: ${name}` };
+  }
+
+  return runToolDefinition(tool, rawArgs, context);
+}
+
+/**
+ * Create an McpServer exposing every available tool. Each connected transport needs its own instance.
+ */
+export function createMcpServer(context: ToolContext): McpServer {
+  const server = new McpServer({
+    name: 'gmail-mcp-server',
+    version: '2.0.0'
+  });
+
+  registerMcpTools(server, availableTools(), context);
+  return server;
+}
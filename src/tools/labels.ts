@@ -0,0 +1,292 @@
+import { z } from 'zod';
+
+import {
+  listLabels,
+  createLabel,
+  renameLabel,
+  deleteLabel,
+  resolveLabelIds,
+  modifyLabels,
+  applyMessageAction,
+  findMessageIds,
+  MESSAGE_ACTIONS
+} from '../labels.js';
+import { searchEmails } from '../inbox.js';
+import { defineTool, ToolResult } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// Label management
+// List, create, rename and delete Gmail labels
+// ============================================================================
+
+export const listLabelsTool = defineTool({
+  name: 'list_labels',
+  description: 'List Gmail labels (system labels like INBOX, STARRED, UNREAD and your own labels) with their ids.',
+  rateLimit: 'none',
+  scopes: ['mail.read'],
+  gmailAccess: ['read'],
+  schema: {
+    from_account: fromAccountSchema
+  },
+  handler: async ({ from_account }) => {
+    const labels = await listLabels(from_account);
+
+    return {
+      success: true,
+      count: labels.length,
+      labels
+    };
+  }
+});
+
+export const createLabelTool = defineTool({
+  name: 'create_label',
+  description: 'Create a Gmail label. Use "/" for nested labels, e.g. "Clients/Acme".',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    name: z.string().min(1).max(225).describe('Label name'),
+    show_in_label_list: z.boolean().default(true).describe('Show the label in the Gmail sidebar'),
+    show_in_message_list: z.boolean().default(true).describe('Show the label on messages in the message list'),
+    text_color: z.string().optional().describe('Optional: Text color from Gmail\'s palette, e.g. "#ffffff"'),
+    background_color: z.string().optional().describe('Optional: Background color from Gmail\'s palette, e.g. "#16a766"'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ name, show_in_label_list, show_in_message_list, text_color, background_color, from_account }) => {
+    const label = await createLabel({
+      name,
+      showInLabelList: show_in_label_list,
+      showInMessageList: show_in_message_list,
+      textColor: text_color,
+      backgroundColor: background_color,
+      account: from_account
+    });
+
+    return { success: true, label };
+  }
+});
+
+export const renameLabelTool = defineTool({
+  name: 'rename_label',
+  description: 'Rename one of your Gmail labels. System labels can\'t be renamed.',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    label: z.string().describe('Current label name or id'),
+    new_name: z.string().min(1).max(225).describe('New label name'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ label, new_name, from_account }) => {
+    const renamed = await renameLabel(label, new_name, from_account);
+
+    return { success: true, label: renamed };
+  }
+});
+
+export const deleteLabelTool = defineTool({
+  name: 'delete_label',
+  description: 'Delete one of your Gmail labels. The messages themselves are kept; only the label is removed from them.',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    label: z.string().describe('Label name or id'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ label, from_account }) => {
+    const deleted = await deleteLabel(label, from_account);
+
+    return {
+      success: true,
+      message: `Label "${deleted.name}" deleted`,
+      label: deleted
+    };
+  }
+});
+
+// ============================================================================
+// Message changes
+// Labels, read/unread, archive, star and trash on messages and threads,
+// by id or (bulk variants) for everything matching a search
+// ============================================================================
+
+const messageIdsSchema = z.array(z.string()).max(1000).optional()
+  .describe('Message ids (from search_emails)');
+const threadIdsSchema = z.array(z.string()).max(100).optional()
+  .describe('Thread ids: the change applies to every message in each thread');
+const labelListSchema = z.array(z.string()).optional();
+const actionSchema = z.enum(MESSAGE_ACTIONS)
+  .describe('mark_read, mark_unread, archive (remove from the inbox), move_to_inbox, star, unstar, trash or untrash');
+
+const bulkSchema = {
+  query: z.string().min(1).describe('Gmail search query selecting the messages, e.g. "from:newsletter@example.com older_than:30d"'),
+  max_messages: z.number().int().min(1).max(5000).default(500).describe('Change at most this many messages (1-5000)'),
+  preview_only: z.boolean().default(false).describe('Only count the matching messages and show a sample; change nothing')
+};
+
+function requireTarget(message_ids?: string[], thread_ids?: string[]): ToolResult | undefined {
+  if (!message_ids?.length && !thread_ids?.length) {
+    return { success: false, error: 'Provide message_ids or thread_ids' };
+  }
+  return undefined;
+}
+
+/**
+ * Match a bulk query; with preview_only, describe the matches instead of changing them
+ */
+async function matchBulkQuery(options: {
+  query: string;
+  max_messages: number;
+  preview_only: boolean;
+  from_account?: string;
+}): Promise<{ ids: string[]; truncated: boolean; preview?: ToolResult }> {
+  const { ids, truncated } = await findMessageIds({ query: options.query, limit: options.max_messages, account: options.from_account });
+
+  if (!options.preview_only) {
+    return { ids, truncated };
+  }
+
+  const sample = ids.length > 0
+    ? (await searchEmails({ query: options.query, maxResults: 5, account: options.from_account })).messages
+    : [];
+  return {
+    ids,
+    truncated,
+    preview: {
+      success: true,
+      preview_only: true,
+      matched: ids.length,
+      truncated,
+      sample: sample.map((message) => ({ id: message.id, from: message.from, subject: message.subject, date: message.date })),
+      message: truncated
+        ? `More than ${options.max_messages} messages match; only the first ${options.max_messages} would be changed.`
+        : `${ids.length} message(s) would be changed.`
+    }
+  };
+}
+
+export const modifyLabelsTool = defineTool({
+  name: 'modify_labels',
+  description: 'Add or remove labels on messages or whole threads. Labels can be given by name or id (see list_labels).',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    message_ids: messageIdsSchema,
+    thread_ids: threadIdsSchema,
+    add_labels: labelListSchema.describe('Optional: Labels to add'),
+    remove_labels: labelListSchema.describe('Optional: Labels to remove'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ message_ids, thread_ids, add_labels, remove_labels, from_account }) => {
+    const missing = requireTarget(message_ids, thread_ids);
+    if (missing) return missing;
+    if (!add_labels?.length && !remove_labels?.length) {
+      return { success: false, error: 'Provide add_labels or remove_labels' };
+    }
+
+    const add = await resolveLabelIds(add_labels ?? [], from_account);
+    const remove = await resolveLabelIds(remove_labels ?? [], from_account);
+    const changed = await modifyLabels({ messageIds: message_ids, threadIds: thread_ids, account: from_account }, { add, remove });
+
+    return {
+      success: true,
+      messages_changed: changed.messages,
+      threads_changed: changed.threads,
+      added: add,
+      removed: remove
+    };
+  }
+});
+
+export const updateMessagesTool = defineTool({
+  name: 'update_messages',
+  description: 'Mark messages or threads read or unread, archive them or move them back to the inbox, star or unstar them, or move them to or out of the trash.',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    message_ids: messageIdsSchema,
+    thread_ids: threadIdsSchema,
+    action: actionSchema,
+    from_account: fromAccountSchema
+  },
+  handler: async ({ message_ids, thread_ids, action, from_account }) => {
+    const missing = requireTarget(message_ids, thread_ids);
+    if (missing) return missing;
+
+    const changed = await applyMessageAction({ messageIds: message_ids, threadIds: thread_ids, account: from_account }, action);
+
+    return {
+      success: true,
+      action,
+      messages_changed: changed.messages,
+      threads_changed: changed.threads
+    };
+  }
+});
+
+export const bulkModifyLabelsTool = defineTool({
+  name: 'bulk_modify_labels',
+  description: 'Add or remove labels on every message matching a Gmail search. Use preview_only first to see how many messages match.',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    ...bulkSchema,
+    add_labels: labelListSchema.describe('Optional: Labels to add'),
+    remove_labels: labelListSchema.describe('Optional: Labels to remove'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ query, max_messages, preview_only, add_labels, remove_labels, from_account }) => {
+    if (!add_labels?.length && !remove_labels?.length) {
+      return { success: false, error: 'Provide add_labels or remove_labels' };
+    }
+
+    // Resolve first so a typo in a label name fails before anything is searched or changed
+    const add = await resolveLabelIds(add_labels ?? [], from_account);
+    const remove = await resolveLabelIds(remove_labels ?? [], from_account);
+    const { ids, truncated, preview } = await matchBulkQuery({ query, max_messages, preview_only, from_account });
+    if (preview) return { ...preview, added: add, removed: remove };
+
+    const changed = await modifyLabels({ messageIds: ids, account: from_account }, { add, remove });
+
+    return {
+      success: true,
+      messages_changed: changed.messages,
+      truncated,
+      added: add,
+      removed: remove
+    };
+  }
+});
+
+export const bulkUpdateMessagesTool = defineTool({
+  name: 'bulk_update_messages',
+  description: 'Mark read or unread, archive, star or trash every message matching a Gmail search, e.g. archive all read newsletters. ' +
+    'Use preview_only first to see how many messages match.',
+  rateLimit: 'none',
+  scopes: ['mail.modify'],
+  gmailAccess: ['modify'],
+  schema: {
+    ...bulkSchema,
+    action: actionSchema,
+    from_account: fromAccountSchema
+  },
+  handler: async ({ query, max_messages, preview_only, action, from_account }) => {
+    const { ids, truncated, preview } = await matchBulkQuery({ query, max_messages, preview_only, from_account });
+    if (preview) return { ...preview, action };
+
+    const changed = await applyMessageAction({ messageIds: ids, account: from_account }, action);
+
+    return {
+      success: true,
+      action,
+      messages_changed: changed.messages,
+      truncated
+    };
+  }
+});
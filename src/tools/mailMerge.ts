@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+import { splitAddressList } from '../messageBuilder.js';
+import { loadMergeRows, prepareMailMerge, rowRecipient, MergeMessage } from '../mailMerge.js';
+import { defineTool } from './registry.js';
+import { dryRunSchema, fromAccountSchema, idempotencySchema } from './schemas.js';
+import { createCampaignFromRows } from './campaigns.js';
+
+// ============================================================================
+// send_mail_merge
+// Personalized bulk send: one rendered message per CSV/JSON row, sent as a
+// background campaign
+// ============================================================================
+
+function formatPreview(message: MergeMessage) {
+  return {
+    row: message.row,
+    to: message.to,
+    subject: message.subject,
+    body: message.body,
+    html: message.html
+  };
+}
+
+export const sendMailMergeTool = defineTool({
+  name: 'send_mail_merge',
+  description: 'Send a personalized email to each row of a recipient list (JSON rows, CSV text or a local CSV file). ' +
+    'Subject, body and html are templates: {{field}}, {{field|fallback}}, {{#if field}}...{{else}}...{{/if}}, {{#unless field}}...{{/unless}}. ' +
+    'Every row is checked for missing values before anything is sent; set preview_only to review the rendered messages first. ' +
+    'Sending runs as a background campaign: returns a campaign_id immediately and waits for rate limits to reset instead of failing. Follow progress with campaign_status.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  gmailAccess: ['send'],
+  schema: {
+    rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional()
+      .describe('Recipient rows as JSON objects, e.g. [{"email": "a@example.com", "first_name": "Ann"}]'),
+    csv: z.string().max(1000000).optional().describe('Recipient rows as CSV text with a header row'),
+    csv_path: z.string().optional().describe('Path to a local CSV file with a header row (stdio mode only)'),
+    email_field: z.string().default('email').describe('Column holding each recipient\'s address'),
+    subject: z.string().max(500).describe('Subject template, e.g. "Welcome, {{first_name|friend}}!"'),
+    body: z.string().max(20000).optional().describe('Plain-text body template. Optional when html is provided.'),
+    html: z.string().max(100000).optional().describe('Optional: HTML body template (field values are HTML-escaped)'),
+    cc: z.string().optional().describe('Optional: CC recipients added to every message (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients added to every message (comma-separated)'),
+    from: z.string().optional().describe('Optional: Verified send-as alias to send from (see list_send_as)'),
+    reply_to: z.string().optional().describe('Optional: Reply-To address'),
+    preview_only: z.boolean().default(false).describe('Validate and render without sending'),
+    preview_count: z.number().int().min(0).max(20).default(3).describe('How many rendered messages to return as a preview'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async (args, context) => {
+    const rows = loadMergeRows(
+      { rows: args.rows, csv: args.csv, csvPath: args.csv_path },
+      { allowLocalPaths: context.allowLocalPaths }
+    );
+    return {
+      recipients: [...rows.map((row) => rowRecipient(row, args.email_field)), ...splitAddressList(args.cc), ...splitAddressList(args.bcc)],
+      subject: args.subject,
+      body: args.body ?? args.html,
+      bulk: true,
+      perMessage: 1 + splitAddressList(args.cc).length + splitAddressList(args.bcc).length
+    };
+  },
+  handler: async (args, context) => {
+    const rows = loadMergeRows(
+      { rows: args.rows, csv: args.csv, csvPath: args.csv_path },
+      { allowLocalPaths: context.allowLocalPaths }
+    );
+
+    if (rows.length === 0) {
+      return { success: false, error: 'No recipient rows found' };
+    }
+
+    const { messages, problems, fields } = prepareMailMerge(rows, {
+      subject: args.subject,
+      body: args.body,
+      html: args.html,
+      emailField: args.email_field
+    });
+    const preview = messages.slice(0, args.preview_count).map(formatPreview);
+
+    if (problems.length > 0) {
+      return {
+        success: false,
+        error: `${problems.length} of ${rows.length} rows have problems; nothing was sent`,
+        fields,
+        problems,
+        preview
+      };
+    }
+
+    if (args.preview_only) {
+      return {
+        success: true,
+        message: `All ${messages.length} rows are ready to send. Call again without preview_only to send them.`,
+        total_rows: rows.length,
+        fields,
+        preview
+      };
+    }
+
+    const result = await createCampaignFromRows(rows, {
+      emailField: args.email_field,
+      subject: args.subject,
+      body: args.body,
+      html: args.html,
+      cc: args.cc,
+      bcc: args.bcc,
+      from: args.from,
+      replyTo: args.reply_to,
+      account: args.from_account,
+      dryRun: args.dry_run,
+      previewCount: args.preview_count
+    }, context);
+
+    return { ...result, preview };
+  }
+});
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+import { checkRecipients, getRecipientPolicy } from '../recipientPolicy.js';
+import { approvalReason } from '../approvals.js';
+import { getConfig } from '../config.js';
+import { splitAddressList } from '../messageBuilder.js';
+import { defineTool } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// check_recipients
+// Validate recipients against the recipient policy before composing
+// ============================================================================
+
+export const checkRecipientsTool = defineTool({
+  name: 'check_recipients',
+  description: 'Check whether email can be sent to these recipients: address syntax, the allow/block lists, the suppression list (people who asked not to be contacted) and the per-message recipient limit. ' +
+    'Also says whether the send would need human approval. Nothing is sent.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    to: z.union([z.string(), z.array(z.string())]).describe('Recipient address(es): a comma-separated string or a list'),
+    cc: z.string().optional().describe('Optional: CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients (comma-separated)'),
+    from_account: fromAccountSchema
+  },
+  handler: async ({ to, cc, bcc, from_account }) => {
+    const recipients = [
+      ...(Array.isArray(to) ? to.map((address) => address.trim()).filter(Boolean) : splitAddressList(to)),
+      ...splitAddressList(cc),
+      ...splitAddressList(bcc)
+    ];
+    if (recipients.length === 0) {
+      return { success: false, error: 'No recipients given' };
+    }
+
+    const violations = checkRecipients({ recipients, account: from_account });
+    const results = recipients.map((recipient) => {
+      const rules = checkRecipients({ recipients: [recipient], perMessage: 1, account: from_account }).map((violation) => violation.rule);
+      return { recipient, allowed: rules.length === 0, rules: rules.length > 0 ? rules : undefined };
+    });
+    const policy = getRecipientPolicy();
+
+    return {
+      success: true,
+      allowed: violations.length === 0,
+      allowed_count: results.filter((result) => result.allowed).length,
+      recipients: results,
+      violations,
+      needs_approval: getConfig().approval.policies.length > 0 ? approvalReason({ recipients }) ?? false : false,
+      // Enough to explain a refusal without revealing the suppression list itself
+      policy: {
+        allowlist: policy.allow,
+        blocklist: policy.block,
+        max_recipients_per_message: policy.maxRecipientsPerMessage || undefined,
+        block_self: policy.blockSelf,
+        suppressed_count: policy.suppressed.length
+      }
+    };
+  }
+});
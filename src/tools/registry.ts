@@ -0,0 +1,343 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { canSendEmail, getRateLimitStatus, recordEmailSent, rateLimitScopeFor, RateLimitTarget } from '../rateLimiter.js';
+import { ApiKeyIdentity } from '../apiKeys.js';
+import { hashBody, logSend } from '../sendLog.js';
+import { isDryRunMode } from '../gmail.js';
+import { checkSend, finishSend } from '../idempotency.js';
+import { OAuthScope } from '../oauth.js';
+import { approvalReason, OutgoingMail, queueSend } from '../approvals.js';
+import { checkRecipients, isRecipientPolicyActive, recipientPolicyError } from '../recipientPolicy.js';
+import { getConfig } from '../config.js';
+import { GmailFeature, GMAIL_FEATURE_SCOPES, missingFeatures } from '../gmailScopes.js';
+
+/**
+ * Where a tool call came from. Adapters fill this in so handlers can apply
+ * transport-specific rules (e.g. local file paths only over stdio).
+ */
+export interface ToolContext {
+  transport: 'stdio' | 'sse' | 'http' | 'rest' | 'apify';
+  allowLocalPaths: boolean;
+  /** Set when the HTTP caller authenticated with an API key */
+  apiKey?: ApiKeyIdentity;
+  /** Set when an approver released a held call, so it isn't held again */
+  approvalId?: string;
+  /** Set by executeTool: the tool being run (recorded in the send log) */
+  tool?: string;
+}
+
+/**
+ * JSON result returned by every tool; adapters decide how to wrap it
+ */
+export type ToolResult = { success: boolean; [key: string]: unknown };
+
+/**
+ * Rate-limit policy:
+ *  - 'send': the call is refused when the hourly/daily limit (global or the
+ *    caller's API key) is reached and the result includes the current rate_limit
+ *    status. Handlers call recordSend() for each message sent.
+ *  - 'none': no rate limit check (read-only or deferred tools).
+ */
+export type RateLimitPolicy = 'send' | 'none';
+
+export interface ToolDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  description: string;
+  schema: Shape;
+  rateLimit: RateLimitPolicy;
+  /** OAuth scopes the caller must hold (checked only for OAuth-scoped callers) */
+  scopes: OAuthScope[];
+  /** Gmail access the account's refresh token must grant; tools no account can use are hidden */
+  gmailAccess?: GmailFeature[];
+  handler: (args: z.objectOutputType<Shape, z.ZodTypeAny>, context: ToolContext) => Promise<ToolResult>;
+  /** For tools that send mail: who the call would send to, checked against the recipient and approval policies */
+  outgoing?: (args: z.objectOutputType<Shape, z.ZodTypeAny>, context: ToolContext) => Promise<OutgoingMail>;
+}
+
+/**
+ * Identity helper so each tool's handler gets typed arguments
+ */
+export function defineTool<Shape extends z.ZodRawShape>(tool: ToolDefinition<Shape>): ToolDefinition<Shape> {
+  return tool;
+}
+
+/**
+ * The rate-limit windows a call counts against: the sending account and the caller's API key
+ */
+export function rateLimitTarget(context: ToolContext, account?: string): RateLimitTarget {
+  return { account, scope: rateLimitScopeFor(context.apiKey) };
+}
+
+/**
+ * Whether the caller is an approver: a static API key (or 'stdio' for the
+ * local client) listed in APPROVAL_APPROVER_KEYS, or an OAuth client granted
+ * mail.approve
+ */
+export function isApprover(context: ToolContext): boolean {
+  if (context.apiKey?.scopes !== undefined) {
+    return context.apiKey.scopes.includes('mail.approve');
+  }
+  return getConfig().approval.approverKeys.includes(context.apiKey?.label ?? context.transport);
+}
+
+/**
+ * Whether the caller may see or change a stored record (a scheduled email, a
+ * send log entry) made by `owner`, the API key label it was created with.
+ * Callers only see their own; approvers see everyone's.
+ */
+export function canAccessRecord(context: ToolContext, owner: string | undefined): boolean {
+  return owner === context.apiKey?.label || isApprover(context);
+}
+
+/**
+ * One message as recorded in the send log (bodies are only hashed)
+ */
+export interface SendDetails {
+  account?: string;
+  to: string;
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  body?: string;
+  html?: string;
+  messageId?: string;
+  threadId?: string;
+}
+
+function logEntry(context: ToolContext, details: SendDetails) {
+  const { body, html, ...rest } = details;
+  return { transport: context.transport, apiKey: context.apiKey?.label, tool: context.tool, ...rest, bodyHash: hashBody(body, html) };
+}
+
+/**
+ * Count a successful send against the rate limits and record it in the send log
+ */
+export async function recordSend(context: ToolContext, details: SendDetails): Promise<void> {
+  await recordEmailSent(rateLimitTarget(context, details.account));
+  logSend({ ...logEntry(context, details), status: 'sent' });
+}
+
+/**
+ * Record a message that Gmail refused or that failed to send
+ */
+export function recordFailedSend(context: ToolContext, details: SendDetails & { error?: string }): void {
+  logSend({ ...logEntry(context, details), status: 'failed' });
+}
+
+/**
+ * Run a tool with already-validated arguments, applying its rate-limit policy
+ * and, for tools that send mail, the recipient policy, idempotency keys,
+ * duplicate detection and the approval policy
+ */
+export async function executeTool(
+  tool: ToolDefinition<any>,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<ToolResult> {
+  const granted = context.apiKey?.scopes;
+  const missing = granted ? tool.scopes.filter((scope) => !granted.includes(scope)) : [];
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Insufficient scope: ${tool.name} requires ${missing.join(', ')}`
+    };
+  }
+
+  const lacking = missingFeatures(tool.gmailAccess ?? [], args.from_account as string | undefined);
+  if (lacking.length > 0) {
+    return {
+      success: false,
+      error: `The Gmail account was not authorized for ${tool.name}: it needs ${lacking.map((feature) => GMAIL_FEATURE_SCOPES[feature]).join(', ')}. ` +
+        `Run npm run auth with GMAIL_SCOPES including ${lacking.join(',')} and update the refresh token.`
+    };
+  }
+
+  // Previews and dry runs never send, so they are never deduplicated or held for approval
+  const sends = args.preview_only !== true && args.dry_run !== true && !isDryRunMode();
+  // Sending tools declare idempotency_key. An approved call was already checked when it was queued.
+  let request: { owner: string; tool: string; args: Record<string, unknown> } | undefined;
+  let result: ToolResult | undefined;
+
+  try {
+    const checkPolicy = isRecipientPolicyActive();
+    const needsApproval = sends && !context.approvalId && getConfig().approval.policies.length > 0;
+    const outgoing = tool.outgoing && (checkPolicy || needsApproval) ? await tool.outgoing(args, context) : undefined;
+
+    if ('idempotency_key' in tool.schema && sends && !context.approvalId) {
+      request = { owner: context.apiKey?.label ?? '', tool: tool.name, args };
+    }
+
+    if (request) {
+      const check = await checkSend(request);
+      if (check.status === 'replay') {
+        return { ...check.result, idempotent_replay: true };
+      }
+      if (check.status === 'blocked') {
+        return check.result;
+      }
+    }
+
+    // Previews and dry runs are checked too, so problems show up before the real send
+    if (outgoing && checkPolicy) {
+      const violations = checkRecipients({
+        recipients: outgoing.recipients,
+        perMessage: outgoing.perMessage,
+        account: args.from_account as string | undefined
+      });
+      if (violations.length > 0) {
+        result = recipientPolicyError(violations);
+        if (sends) {
+          logSend({
+            transport: context.transport,
+            apiKey: context.apiKey?.label,
+            tool: tool.name,
+            account: args.from_account as string | undefined,
+            to: outgoing.recipients.join(', '),
+            subject: outgoing.subject,
+            status: 'refused',
+            error: result.error as string
+          });
+        }
+      }
+    }
+
+    if (!result && outgoing && needsApproval) {
+      const reason = approvalReason(outgoing);
+
+      if (reason) {
+        const pending = queueSend({
+          tool: tool.name,
+          args,
+          transport: context.transport,
+          allowLocalPaths: context.allowLocalPaths,
+          apiKey: context.apiKey?.label,
+          outgoing,
+          reason
+        });
+        result = {
+          success: true,
+          pending_approval: true,
+          approval_id: pending.id,
+          reason,
+          expires_at: pending.expiresAt,
+          message: 'Nothing was sent yet. The email will be sent once an approver approves it (approve_send).'
+        };
+      }
+    }
+  } catch (error) {
+    if (request) {
+      await finishSend(request, { success: false });
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  // A retry with the same idempotency key gets the same approval id back; refusals aren't stored
+  result ??= await runWithRateLimit(tool, args, { ...context, tool: tool.name });
+
+  if (request) {
+    await finishSend(request, result);
+  }
+  return result;
+}
+
+/**
+ * Apply the tool's rate-limit policy around its handler
+ */
+async function runWithRateLimit(
+  tool: ToolDefinition<any>,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<ToolResult> {
+  try {
+    // Tools that send from a specific account take a from_account argument
+    const target = rateLimitTarget(context, args.from_account as string | undefined);
+
+    if (tool.rateLimit === 'send') {
+      const rateStatus = await canSendEmail(target);
+      if (!rateStatus.allowed) {
+        return {
+          success: false,
+          error: rateStatus.reason,
+          rate_limit: await getRateLimitStatus(target)
+        };
+      }
+    }
+
+    const result = await tool.handler(args, context);
+
+    return tool.rateLimit === 'send'
+      ? { ...result, rate_limit: await getRateLimitStatus(target) }
+      : result;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Validate raw (untyped) arguments against a tool's schema and run it
+ */
+export async function runToolDefinition(
+  tool: ToolDefinition<any>,
+  rawArgs: unknown,
+  context: ToolContext
+): Promise<ToolResult> {
+  const parsed = z.object(tool.schema).safeParse(rawArgs ?? {});
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid arguments: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || 'input'}: ${issue.message}`)
+        .join('; ')}`
+    };
+  }
+
+  return executeTool(tool, parsed.data, context);
+}
+
+/**
+ * Wrap a tool result as MCP tool-call content
+ */
+export function toCallToolResult(result: ToolResult) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Describe tools for a tools/list response (JSON Schema input schemas)
+ */
+export function describeTools(tools: ToolDefinition<any>[]) {
+  return tools.map((tool) => {
+    const { $schema, ...inputSchema } = zodToJsonSchema(z.object(tool.schema), { $refStrategy: 'none' }) as Record<string, unknown>;
+    return {
+      name: tool.name,
+      description: tool.description,
+      inputSchema
+    };
+  });
+}
+
+/**
+ * Register tools on an McpServer (stdio and SSE transports)
+ */
+export function registerMcpTools(server: McpServer, tools: ToolDefinition<any>[], context: ToolContext): void {
+  for (const tool of tools) {
+    server.tool(tool.name, tool.description, tool.schema, async (args: Record<string, unknown>) =>
+      toCallToolResult(await executeTool(tool, args, context))
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+
+import {
+  scheduleEmail,
+  getScheduled,
+  listScheduled,
+  cancelScheduled,
+  reschedule,
+  parseSendTime,
+  ScheduledJob
+} from '../scheduler.js';
+import { resolveAttachments } from '../attachments.js';
+import { htmlToText, splitAddressList } from '../messageBuilder.js';
+import { canAccessRecord, defineTool, ToolContext } from './registry.js';
+import { attachmentSchema, fromAccountSchema, idempotencySchema } from './schemas.js';
+
+// ============================================================================
+// Scheduled sending
+// Jobs are persisted in the data directory and sent by the background scheduler,
+// which applies the rate limits when each job comes due. Callers only see and
+// change the jobs they scheduled.
+// ============================================================================
+
+/**
+ * A job the caller may manage; other callers' jobs look like unknown ids
+ */
+function ownJob(context: ToolContext, id: string): ScheduledJob {
+  const job = getScheduled(id);
+  if (!canAccessRecord(context, job.apiKey)) {
+    throw new Error(`Scheduled email not found: ${id}`);
+  }
+  return job;
+}
+
+function formatJob(job: ScheduledJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    send_at: job.sendAt,
+    to: job.email.to,
+    subject: job.email.subject,
+    account: job.email.account,
+    attempts: job.attempts,
+    next_attempt_at: job.nextAttemptAt,
+    last_error: job.lastError,
+    messageId: job.messageId
+  };
+}
+
+export const scheduleEmailTool = defineTool({
+  name: 'schedule_email',
+  description: 'Schedule an email to be sent later, at an exact time (send_at) or after a delay (e.g. "30m", "2h", "1d"). Sent by the server even if this conversation ends.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  gmailAccess: ['send'],
+  schema: {
+    to: z.string().describe('Recipient email address'),
+    subject: z.string().max(200).describe('Email subject line'),
+    body: z.string().max(10000).optional().describe('Email body content (plain text). Optional when html is provided.'),
+    html: z.string().max(50000).optional().describe('Optional: HTML body'),
+    cc: z.string().optional().describe('Optional: CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients (comma-separated)'),
+    attachments: attachmentSchema.optional().describe('Optional: Files to attach (25 MB total limit)'),
+    send_at: z.string().optional().describe('ISO 8601 time to send, e.g. 2025-01-31T09:00:00-05:00'),
+    delay: z.string().optional().describe('Relative delay instead of send_at, e.g. "45m", "3h", "1d12h"'),
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  // Held when it is scheduled, so the job runs unattended once approved
+  outgoing: async ({ to, subject, body, html, cc, bcc }) => ({
+    recipients: [...splitAddressList(to), ...splitAddressList(cc), ...splitAddressList(bcc)],
+    subject,
+    body: body ?? htmlToText(html ?? '')
+  }),
+  handler: async ({ to, subject, body, html, cc, bcc, attachments, send_at, delay, from_account }, context) => {
+    const job = scheduleEmail(
+      {
+        to,
+        subject,
+        body,
+        html,
+        cc: splitAddressList(cc),
+        bcc: splitAddressList(bcc),
+        attachments: resolveAttachments(attachments, { allowLocalPaths: context.allowLocalPaths }),
+        account: from_account
+      },
+      parseSendTime({ sendAt: send_at, delay }),
+      { apiKey: context.apiKey?.label }
+    );
+
+    return {
+      success: true,
+      message: `Email scheduled for ${job.sendAt}`,
+      job: formatJob(job)
+    };
+  }
+});
+
+export const listScheduledTool = defineTool({
+  name: 'list_scheduled',
+  description: 'List your scheduled emails and their status.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    status: z.enum(['scheduled', 'sending', 'sent', 'failed', 'cancelled', 'expired']).optional().describe('Optional: Only show jobs with this status')
+  },
+  handler: async ({ status }, context) => {
+    const jobs = listScheduled(status).filter((job) => canAccessRecord(context, job.apiKey));
+
+    return {
+      success: true,
+      count: jobs.length,
+      jobs: jobs.map(formatJob)
+    };
+  }
+});
+
+export const cancelScheduledTool = defineTool({
+  name: 'cancel_scheduled',
+  description: 'Cancel a scheduled email that has not been sent yet.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    job_id: z.string().describe('Scheduled job id (from schedule_email or list_scheduled)')
+  },
+  handler: async ({ job_id }, context) => {
+    ownJob(context, job_id);
+    const job = cancelScheduled(job_id);
+
+    return {
+      success: true,
+      message: 'Scheduled email cancelled.',
+      job: formatJob(job)
+    };
+  }
+});
+
+export const rescheduleTool = defineTool({
+  name: 'reschedule',
+  description: 'Change when a scheduled (or expired) email will be sent.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  schema: {
+    job_id: z.string().describe('Scheduled job id'),
+    send_at: z.string().optional().describe('New ISO 8601 send time'),
+    delay: z.string().optional().describe('New relative delay from now, e.g. "2h"')
+  },
+  handler: async ({ job_id, send_at, delay }, context) => {
+    ownJob(context, job_id);
+    const job = reschedule(job_id, parseSendTime({ sendAt: send_at, delay }));
+
+    return {
+      success: true,
+      message: `Email rescheduled for ${job.sendAt}`,
+      job: formatJob(job)
+    };
+  }
+});
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Attachment input shared by send tools
+ */
+export const attachmentSchema = z.array(z.object({
+  filename: z.string().optional().describe('File name shown to the recipient (defaults to the file name of path)'),
+  mime_type: z.string().optional().describe('MIME type, e.g. application/pdf (detected automatically if omitted)'),
+  content: z.string().optional().describe('Base64-encoded file content'),
+  path: z.string().optional().describe('Local file path to attach instead of content (stdio mode only)')
+}));
+
+/**
+ * Account selector shared by send and read tools
+ */
+export const fromAccountSchema = z.string().optional().describe('Optional: Account id to use (see list_accounts). Defaults to the default account.');
+
+/**
+ * Retry protection shared by every tool that sends mail (applied in executeTool)
+ */
+export const idempotencySchema = {
+  idempotency_key: z.string().min(1).max(200).optional()
+    .describe('Optional: Unique key for this send, e.g. a UUID. Retrying with the same key returns the original result instead of sending again.'),
+  confirm_duplicate: z.boolean().default(false)
+    .describe('Send even though an identical request was just sent (only needed when no idempotency_key is given)')
+};
+
+/**
+ * Dry-run flag shared by send tools (GMAIL_MCP_DRY_RUN turns it on for every call)
+ */
+export const dryRunSchema = z.boolean().default(false)
+  .describe('Build and validate the exact message and check rate limits without sending it. Returns the decoded headers, body and size.');
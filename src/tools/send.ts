@@ -0,0 +1,311 @@
+import { z } from 'zod';
+
+import { sendEmail, isDryRunMode } from '../gmail.js';
+import { MessagePreview, htmlToText, splitAddressList } from '../messageBuilder.js';
+import { replyToEmail, forwardEmail, computeReplyRecipients, prefixSubject } from '../threading.js';
+import { getAccount } from '../accounts.js';
+import { readEmail } from '../inbox.js';
+import { resolveAttachments } from '../attachments.js';
+import { resolveSender } from '../sendAs.js';
+import { getRandomDelay, sleep } from '../rateLimiter.js';
+import { defineTool, recordSend, recordFailedSend } from './registry.js';
+import { attachmentSchema, dryRunSchema, fromAccountSchema, idempotencySchema } from './schemas.js';
+import { createCampaignFromRows } from './campaigns.js';
+
+type SendOutcome = { email: string; success: boolean; messageId?: string; error?: string; preview?: MessagePreview };
+
+// ============================================================================
+// send_email
+// Send a single email immediately
+// ============================================================================
+
+export const sendEmailTool = defineTool({
+  name: 'send_email',
+  description: 'Send an email via Gmail. Use this for any email - personal, professional, follow-ups, newsletters, etc. Rate-limited to protect your account.',
+  rateLimit: 'send',
+  scopes: ['mail.send'],
+  gmailAccess: ['send'],
+  schema: {
+    to: z.string().describe('Recipient email address (single or comma-separated for multiple)'),
+    subject: z.string().max(200).describe('Email subject line'),
+    body: z.string().max(10000).optional().describe('Email body content (plain text). Optional when html is provided.'),
+    html: z.string().max(50000).optional().describe('Optional: HTML body. Sent as multipart/alternative with body (or a text version derived from the HTML) as the plain-text fallback.'),
+    cc: z.string().optional().describe('Optional: CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients (comma-separated)'),
+    attachments: attachmentSchema.optional().describe('Optional: Files to attach (25 MB total limit)'),
+    from: z.string().optional().describe('Optional: Send-as alias to send from, e.g. "Acme Support <support@acme.com>" (must be verified in Gmail; see list_send_as). Needs read access to the account.'),
+    reply_to: z.string().optional().describe('Optional: Reply-To address'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  // Each To address gets its own message, with the same Cc/Bcc
+  outgoing: async ({ to, subject, body, html, cc, bcc }) => ({
+    recipients: [...splitAddressList(to), ...splitAddressList(cc), ...splitAddressList(bcc)],
+    subject,
+    body: body ?? htmlToText(html ?? ''),
+    perMessage: 1 + splitAddressList(cc).length + splitAddressList(bcc).length
+  }),
+  handler: async ({ to, subject, body, html, cc, bcc, attachments, from, reply_to, dry_run, from_account }, context) => {
+    if (!body && !html) {
+      return { success: false, error: 'Either body or html is required' };
+    }
+
+    const sender = await resolveSender({ account: from_account, from, replyTo: reply_to });
+
+    // Load attachments up front so size errors surface before anything is sent
+    const resolvedAttachments = resolveAttachments(attachments, { allowLocalPaths: context.allowLocalPaths });
+
+    // Parse multiple recipients
+    const toAddresses = splitAddressList(to);
+    const ccAddresses = splitAddressList(cc);
+    const bccAddresses = splitAddressList(bcc);
+
+    // Send to primary recipient(s)
+    const results: SendOutcome[] = [];
+
+    for (const recipient of toAddresses) {
+      const result = await sendEmail({
+        to: recipient,
+        subject,
+        body,
+        html,
+        cc: ccAddresses,
+        bcc: bccAddresses,
+        attachments: resolvedAttachments,
+        account: from_account,
+        from: sender.from,
+        replyTo: sender.replyTo,
+        dryRun: dry_run
+      });
+
+      const logged = { account: from_account, to: recipient, cc: ccAddresses, bcc: bccAddresses, subject, body, html };
+      if (result.success && !result.dryRun) {
+        await recordSend(context, { ...logged, messageId: result.messageId, threadId: result.threadId });
+      } else if (!result.success) {
+        recordFailedSend(context, { ...logged, error: result.error });
+      }
+
+      results.push({
+        email: recipient,
+        success: result.success,
+        messageId: result.messageId,
+        error: result.error,
+        preview: result.preview
+      });
+
+      // Add delay between sends if multiple recipients
+      if (toAddresses.length > 1 && !result.dryRun) {
+        await sleep(getRandomDelay());
+      }
+    }
+
+    const successCount = results.filter(r => r.success).length;
+
+    if (dry_run || isDryRunMode()) {
+      return {
+        success: successCount === results.length,
+        dry_run: true,
+        message: `Dry run: built ${successCount}/${results.length} emails. Nothing was sent.`,
+        results
+      };
+    }
+
+    return {
+      success: successCount > 0,
+      message: `Sent ${successCount}/${results.length} emails successfully`,
+      results
+    };
+  }
+});
+
+// ============================================================================
+// compose_and_send
+// Let ChatGPT compose and send in one step
+// ============================================================================
+
+export const composeAndSendTool = defineTool({
+  name: 'compose_and_send',
+  description: 'Compose and send an email based on your instructions. Describe what you want to say and I will draft and send it.',
+  rateLimit: 'send',
+  scopes: ['mail.send'],
+  schema: {
+    to: z.string().describe('Recipient email address'),
+    purpose: z.string().describe('What is this email about? Describe the purpose and key points.'),
+    tone: z.enum(['professional', 'friendly', 'casual', 'formal', 'apologetic', 'urgent']).default('professional').describe('Desired tone of the email'),
+    subject_hint: z.string().optional().describe('Optional: Suggested subject or leave blank for auto-generation'),
+    include_points: z.array(z.string()).optional().describe('Optional: Specific points or information to include'),
+    max_length: z.enum(['short', 'medium', 'long']).default('medium').describe('Email length: short (2-3 sentences), medium (1-2 paragraphs), long (3+ paragraphs)')
+  },
+  handler: async ({ to, purpose, tone, subject_hint, include_points, max_length }) => {
+    // Return composition instructions for ChatGPT to generate the content
+    // ChatGPT will use this to create the email and then call send_email
+    return {
+      success: true,
+      action_required: 'generate_and_send',
+      instructions: `Please generate an email with these specifications and then use the send_email tool to send it:
+
+RECIPIENT: ${to}
+PURPOSE: ${purpose}
+TONE: ${tone}
+LENGTH: ${max_length}
+${subject_hint ? `SUBJECT HINT: ${subject_hint}` : 'SUBJECT: Generate an appropriate subject line'}
+${include_points?.length ? `MUST INCLUDE:\n${include_points.map(p => `- ${p}`).join('\n')}` : ''}
+
+After generating the email, call send_email with the to, subject, and body.`
+    };
+  }
+});
+
+// ============================================================================
+// send_bulk_emails
+// Send the same email to multiple recipients
+// ============================================================================
+
+export const sendBulkEmailsTool = defineTool({
+  name: 'send_bulk_emails',
+  description: 'Send the same email to multiple recipients. Each recipient gets an individual email (not CC/BCC). Runs as a background campaign: ' +
+    'returns a campaign_id immediately and keeps sending with delays, waiting for rate limits to reset. Follow progress with campaign_status. For personalized messages use send_mail_merge or start_campaign.',
+  rateLimit: 'none',
+  scopes: ['mail.send'],
+  gmailAccess: ['send'],
+  schema: {
+    recipients: z.array(z.string().email()).describe('List of recipient email addresses'),
+    subject: z.string().max(200).describe('Email subject line'),
+    body: z.string().max(10000).describe('Email body content'),
+    personalize_greeting: z.boolean().default(false).describe('Deprecated: use start_campaign. If true, expects {name} placeholder in body to personalize'),
+    recipient_names: z.array(z.string()).optional().describe('Deprecated: use start_campaign. Names corresponding to each recipient (for personalization)'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async ({ recipients, subject, body }) => ({ recipients, subject, body, bulk: true, perMessage: 1 }),
+  handler: async ({ recipients, subject, body, personalize_greeting, recipient_names, dry_run, from_account }, context) => {
+    const personalize = personalize_greeting && recipient_names !== undefined;
+    const rows = recipients.map((email, i) => (personalize ? { email, name: recipient_names?.[i] ?? '' } : { email }));
+
+    // The body is plain text, not a merge template; only {name} is filled in
+    return createCampaignFromRows(rows, {
+      emailField: 'email',
+      subject,
+      body,
+      plainText: true,
+      placeholders: personalize ? ['name'] : [],
+      account: from_account,
+      dryRun: dry_run
+    }, context);
+  }
+});
+
+// ============================================================================
+// reply_to_email
+// Reply in the same Gmail thread
+// ============================================================================
+
+export const replyToEmailTool = defineTool({
+  name: 'reply_to_email',
+  description: 'Reply to a Gmail message. The reply is threaded with the original (Re: subject, In-Reply-To/References headers, same Gmail conversation).',
+  rateLimit: 'send',
+  scopes: ['mail.send', 'mail.read'],
+  gmailAccess: ['read', 'send'],
+  schema: {
+    message_id: z.string().describe('Gmail message id to reply to (from search_emails or read_email)'),
+    body: z.string().max(10000).optional().describe('Reply text (plain text). Optional when html is provided.'),
+    html: z.string().max(50000).optional().describe('Optional: HTML reply body'),
+    reply_all: z.boolean().default(false).describe('Reply to all original recipients (your own address is excluded)'),
+    quote_original: z.boolean().default(true).describe('Quote the original message below the reply'),
+    attachments: attachmentSchema.optional().describe('Optional: Files to attach (25 MB total limit)'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async ({ message_id, body, html, reply_all, from_account }) => {
+    const account = getAccount(from_account);
+    const original = await readEmail(message_id, account.id);
+    const { to, cc } = computeReplyRecipients(original, { replyAll: reply_all, selfEmail: account.email });
+    return {
+      recipients: [...to, ...cc],
+      subject: prefixSubject(original.headers.subject, 'Re'),
+      body: body ?? htmlToText(html ?? '')
+    };
+  },
+  handler: async ({ message_id, body, html, reply_all, quote_original, attachments, dry_run, from_account }, context) => {
+    if (!body && !html) {
+      return { success: false, error: 'Either body or html is required' };
+    }
+
+    const result = await replyToEmail({
+      messageId: message_id,
+      body,
+      html,
+      replyAll: reply_all,
+      quoteOriginal: quote_original,
+      attachments: resolveAttachments(attachments, { allowLocalPaths: context.allowLocalPaths }),
+      account: from_account,
+      dryRun: dry_run
+    });
+
+    // Nothing was attempted when the reply recipients couldn't be worked out
+    const logged = { account: from_account, to: (result.to ?? []).join(', '), cc: result.cc, subject: result.subject, body, html };
+    if (result.success && !result.dryRun) {
+      await recordSend(context, { ...logged, messageId: result.messageId, threadId: result.threadId });
+    } else if (!result.success && result.to) {
+      recordFailedSend(context, { ...logged, error: result.error });
+    }
+
+    return result;
+  }
+});
+
+// ============================================================================
+// forward_email
+// Forward a message (and its attachments) to new recipients
+// ============================================================================
+
+export const forwardEmailTool = defineTool({
+  name: 'forward_email',
+  description: 'Forward a Gmail message to someone, optionally with a note. Original attachments are included by default.',
+  rateLimit: 'send',
+  scopes: ['mail.send', 'mail.read'],
+  gmailAccess: ['read', 'send'],
+  schema: {
+    message_id: z.string().describe('Gmail message id to forward'),
+    to: z.string().describe('Recipient email address(es), comma-separated'),
+    body: z.string().max(10000).optional().describe('Optional: Note to add above the forwarded message'),
+    cc: z.string().optional().describe('Optional: CC recipients (comma-separated)'),
+    bcc: z.string().optional().describe('Optional: BCC recipients (comma-separated)'),
+    include_attachments: z.boolean().default(true).describe('Forward the original attachments'),
+    dry_run: dryRunSchema,
+    from_account: fromAccountSchema,
+    ...idempotencySchema
+  },
+  outgoing: async ({ message_id, to, body, cc, bcc, from_account }) => {
+    const original = await readEmail(message_id, getAccount(from_account).id);
+    return {
+      recipients: [...splitAddressList(to), ...splitAddressList(cc), ...splitAddressList(bcc)],
+      subject: prefixSubject(original.headers.subject, 'Fwd'),
+      body
+    };
+  },
+  handler: async ({ message_id, to, body, cc, bcc, include_attachments, dry_run, from_account }, context) => {
+    const result = await forwardEmail({
+      messageId: message_id,
+      to,
+      body,
+      cc: splitAddressList(cc),
+      bcc: splitAddressList(bcc),
+      includeAttachments: include_attachments,
+      account: from_account,
+      dryRun: dry_run
+    });
+
+    const logged = { account: from_account, to, cc: splitAddressList(cc), bcc: splitAddressList(bcc), subject: result.subject, body };
+    if (result.success && !result.dryRun) {
+      await recordSend(context, { ...logged, messageId: result.messageId, threadId: result.threadId });
+    } else if (!result.success) {
+      recordFailedSend(context, { ...logged, error: result.error });
+    }
+
+    return result;
+  }
+});
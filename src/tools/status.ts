@@ -0,0 +1,77 @@
+import { verifyGmailConnection } from '../gmail.js';
+import { canSendEmail, getRateLimitStatus } from '../rateLimiter.js';
+import { defineTool, rateLimitTarget } from './registry.js';
+import { fromAccountSchema } from './schemas.js';
+
+// ============================================================================
+// check_email_status
+// Check rate limits and sending capacity
+// ============================================================================
+
+export const checkEmailStatusTool = defineTool({
+  name: 'check_email_status',
+  description: 'Check your current email sending capacity and rate limit status.',
+  rateLimit: 'none',
+  scopes: [],
+  schema: {
+    from_account: fromAccountSchema
+  },
+  handler: async ({ from_account }, context) => {
+    const target = rateLimitTarget(context, from_account);
+    const status = await getRateLimitStatus(target);
+    const canSend = await canSendEmail(target);
+
+    return {
+      success: true,
+      account: status.account,
+      can_send: canSend.allowed,
+      reason: canSend.reason,
+      hourly: {
+        sent: status.hourlyCount,
+        limit: status.hourlyLimit,
+        remaining: status.hourlyRemaining
+      },
+      daily: {
+        sent: status.dailyCount,
+        limit: status.dailyLimit,
+        remaining: status.dailyRemaining
+      },
+      api_key: context.apiKey && status.scope
+        ? {
+            label: context.apiKey.label,
+            name: context.apiKey.name,
+            hourly: { sent: status.scope.hourlyCount, limit: status.scope.hourlyLimit },
+            daily: { sent: status.scope.dailyCount, limit: status.scope.dailyLimit }
+          }
+        : undefined,
+      tip: canSend.allowed
+        ? `You can send up to ${Math.min(status.hourlyRemaining, status.dailyRemaining)} more emails right now.`
+        : 'Wait for the rate limit to reset before sending more emails.'
+    };
+  }
+});
+
+// ============================================================================
+// verify_connection
+// Verify Gmail API is working
+// ============================================================================
+
+export const verifyConnectionTool = defineTool({
+  name: 'verify_connection',
+  description: 'Verify that the Gmail connection is working. Use this to test if your email is properly configured.',
+  rateLimit: 'none',
+  scopes: [],
+  schema: {
+    from_account: fromAccountSchema
+  },
+  handler: async ({ from_account }) => {
+    const isConnected = await verifyGmailConnection(from_account);
+
+    return {
+      success: isConnected,
+      message: isConnected
+        ? '✓ Gmail is connected and ready to send emails!'
+        : '✗ Gmail connection failed. Check your credentials in the .env file.'
+    };
+  }
+});